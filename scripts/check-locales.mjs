@@ -0,0 +1,36 @@
+// Fails when a locale catalogue is missing a key from the English one, has a key English does
+// not, or leaves an entry blank (I18n.t would silently fall back to English).
+// Run with `npm run check:i18n`.
+import { readFileSync, readdirSync } from 'node:fs';
+import { fileURLToPath } from 'node:url';
+import ts from 'typescript';
+
+const dir = fileURLToPath(new URL('../src/lib/locales/', import.meta.url));
+
+// The catalogues are plain object literals; transpiling drops their type-only imports.
+const load = (file) => {
+  const { outputText } = ts.transpileModule(readFileSync(dir + file, 'utf8'), {
+    compilerOptions: { module: ts.ModuleKind.CommonJS, target: ts.ScriptTarget.ES2019 }
+  });
+  const module = { exports: {} };
+  new Function('module', 'exports', outputText)(module, module.exports);
+  return module.exports[file.replace(/\.ts$/, '')];
+};
+
+const en = load('en.ts');
+const reference = Object.keys(en);
+let failed = false;
+
+for (const file of readdirSync(dir).filter(f => f.endsWith('.ts')).sort()) {
+  const catalogue = load(file);
+  const missing = reference.filter(key => !(key in catalogue));
+  const extra = Object.keys(catalogue).filter(key => !(key in en));
+  const blank = Object.keys(catalogue).filter(key => typeof catalogue[key] !== 'string' || !catalogue[key].trim());
+  const problems = [['missing', missing], ['not in en', extra], ['blank', blank]].filter(([, keys]) => keys.length > 0);
+  if (problems.length === 0) continue;
+  failed = true;
+  problems.forEach(([label, keys]) => console.error(`${file}: ${label}: ${keys.join(', ')}`));
+}
+
+if (failed) process.exit(1);
+console.log(`Locale catalogues complete (${reference.length} keys).`);
@@ -9,231 +9,48 @@ import React, {
   useMemo
 } from 'react';
 import { 
-  Line, XAxis, YAxis, CartesianGrid, ResponsiveContainer, ComposedChart, Bar, Cell, Tooltip 
+  Line, XAxis, YAxis, CartesianGrid, ResponsiveContainer, ComposedChart, Bar, Cell, Tooltip, ReferenceLine, Scatter, Area 
 } from 'recharts';
 import { 
   Calendar as CalendarIcon, Activity, ChevronLeft, 
   ChevronRight, Droplet, Lock, Settings, Check, 
   Sparkles, Save, Download, Upload, Home, HelpCircle, 
   Minus, Plus, X, User, ChevronDown, ChevronUp, BrainCircuit, ShieldAlert,
-  Loader2
+  Loader2, Gauge, BarChart3, RefreshCw, Square, KeyRound, Printer, Copy
 } from 'lucide-react';
+import { Theme, Unit, LHResult, CervixPosition, FlowIntensity, MucusType, PeriodStartPolicy, PregnancyTestResult, LifeStage, Language, CycleDay, CustomTracker, TrackerKind, ReadingQuality, VaultSecrets } from '../lib/types';
+import { AIClient, AIError, AIErrorCode, AI_PROVIDERS, ConfiguredProvider, isConfigured, resolveConfig } from '../lib/AIProvider';
+import { AIPayload } from '../lib/AIPayload';
+import { DEFAULT_STATE, appReducer, createEmptyDay } from '../lib/store';
+import { migrateState, summarizeIssues, extractSecrets, SchemaError } from '../lib/schema';
+import { HeraSecurity, BackupKind, VaultSession, UnlockStage, EMPTY_SECRETS } from '../lib/HeraVault';
+import { VaultClient } from '../lib/VaultClient';
+import { VaultStorage, StorageError, StorageErrorCode, StorageEstimate, VaultSnapshot, WriteOptions } from '../lib/VaultStorage';
+import { CycleLogic } from '../lib/CycleLogic';
+import { ThermalShift } from '../lib/ThermalShift';
+import { DateRange, Regularity, TrendDirection } from '../lib/CycleStats';
+import { FertilityModel, FERTILE_THRESHOLD } from '../lib/FertilityModel';
+import { PregnancyMode } from '../lib/PregnancyMode';
+import { LIFE_STAGES, PATCH_COUNT } from '../lib/LifeStage';
+import { HeraEngine, ForensicOutput } from '../lib/HeraLAS';
+import { getLocalISODate, formatDate, addDays } from '../lib/utils';
+import { Temperature, BASELINE_TEMP } from '../lib/Temperature';
+import { TemperatureQuality, QUALITY_FLAG_LABEL } from '../lib/TemperatureQuality';
+import { PeriodDetection } from '../lib/PeriodDetection';
+import { PatternInsights, CyclePhase, PHASE_LABEL } from '../lib/PatternInsights';
+import { BiometricChart, ChartData, PHASE_FILL } from '../components/BiometricChart';
+import { CycleOverlay, OverlayAlignment } from '../lib/CycleOverlay';
+import { SYMPTOMS, SYMPTOM_CATEGORIES, SymptomCategory, TRACKER_KINDS, createTracker, formatTrackerValue, isValidTrackerValue, symptomLabel } from '../lib/Symptoms';
+import { I18n, Catalogue, MessageKey, MessageParams, LANGUAGES, LOCALE_TAG } from '../lib/i18n';
 
 /**
  * HERA CYCLE - v100.6 (Sovereign Edition - Surface Enforcement)
  * - CONTENT: Hardened FAQ language (Sovereignty, Liability, Encryption).
  * - VISUALS: Standardized ShieldAlert usage.
- * - LOGIC: Preserved from v100.5.
+ * - LOGIC: Domain model, vault and cycle engine live in src/lib.
  */
 
-// --- 1. DOMAIN MODELS ---
-
-type Theme = 'blush' | 'serenity' | 'nature';
-type Unit = 'C' | 'F';
-type Language = 'en' | 'es' | 'fr';
-type FlowIntensity = 'none' | 'spotting' | 'light' | 'medium' | 'heavy';
-type MucusType = 'none' | 'dry' | 'sticky' | 'creamy' | 'eggwhite' | 'watery';
-
-interface CycleDay {
-  date: string;
-  temperature: number | null;
-  mucus: MucusType;
-  flow: FlowIntensity;
-  notes: string;
-}
-
-interface UserProfile {
-  name: string;
-  avatar: string | null;
-  theme: Theme;
-  unit: Unit;
-  lang: Language;
-  liabilityAccepted: boolean;
-  aiActive: boolean;
-  apiKey?: string;
-  aiProvider?: 'openai' | 'gemini' | 'unknown';
-  avgCycleLength: number; 
-  avgLutealLength: number; 
-}
-
-interface AppState {
-  profile: UserProfile;
-  cycleData: CycleDay[];
-  lastSynced: number;
-  unsavedChanges: boolean;
-}
-
-type Action = 
-  | { type: 'LOAD_STATE'; payload: AppState }
-  | { type: 'UPDATE_PROFILE'; payload: Partial<UserProfile> }
-  | { type: 'UPDATE_CYCLE_DAY'; payload: CycleDay }
-  | { type: 'RESET_APP' }
-  | { type: 'MARK_SAVED' };
-
-// --- 2. SECURITY ENGINE (STRICT) ---
-
-const VAULT_CONFIG = {
-  algo: 'AES-GCM',
-  length: 256,
-  hash: 'SHA-256',
-  iterations: 600000, 
-  saltLen: 16,
-  ivLen: 12
-};
-
-class HeraSecurity {
-  private static bufferToBase64(buffer: ArrayBuffer | Uint8Array): string {
-    const bytes = buffer instanceof Uint8Array ? buffer : new Uint8Array(buffer);
-    let binary = '';
-    for (let i = 0; i < bytes.byteLength; i++) binary += String.fromCharCode(bytes[i]);
-    return window.btoa(binary);
-  }
-
-  private static base64ToBuffer(base64: string): ArrayBuffer {
-    const binary_string = window.atob(base64);
-    const len = binary_string.length;
-    const bytes = new Uint8Array(len);
-    for (let i = 0; i < len; i++) bytes[i] = binary_string.charCodeAt(i);
-    return bytes.buffer;
-  }
-
-  private static async deriveKey(password: string, salt: Uint8Array): Promise<CryptoKey> {
-    const enc = new TextEncoder();
-    const keyMaterial = await window.crypto.subtle.importKey(
-      "raw", enc.encode(password), { name: "PBKDF2" }, false, ["deriveKey"]
-    );
-    return window.crypto.subtle.deriveKey(
-      // @ts-ignore
-      { name: "PBKDF2", salt: salt, iterations: VAULT_CONFIG.iterations, hash: VAULT_CONFIG.hash },
-      keyMaterial, { name: "AES-GCM", length: 256 }, true, ["encrypt", "decrypt"]
-    );
-  }
-
-  public static async lock(data: AppState, password: string): Promise<string> {
-    if (!password || password.trim().length === 0) throw new Error("Invalid Password");
-
-    const salt = window.crypto.getRandomValues(new Uint8Array(VAULT_CONFIG.saltLen));
-    const iv = window.crypto.getRandomValues(new Uint8Array(VAULT_CONFIG.ivLen));
-    const key = await this.deriveKey(password, salt);
-    
-    // 1. Generate Auth Hash (Key Verification)
-    const exportedKey = await window.crypto.subtle.exportKey("raw", key);
-    const authHashBuffer = await window.crypto.subtle.digest("SHA-256", exportedKey);
-    
-    // 2. Encrypt Content
-    const enc = new TextEncoder();
-    const encodedData = enc.encode(JSON.stringify(data));
-    const ciphertext = await window.crypto.subtle.encrypt(
-      // @ts-ignore
-      { name: "AES-GCM", iv: iv }, key, encodedData
-    );
-
-    return JSON.stringify({
-      salt: this.bufferToBase64(salt),
-      iv: this.bufferToBase64(iv),
-      authHash: this.bufferToBase64(authHashBuffer),
-      data: this.bufferToBase64(ciphertext),
-      version: "v100-platinum"
-    });
-  }
-
-  public static async unlock(vaultStr: string, password: string): Promise<AppState> {
-    const vault = JSON.parse(vaultStr);
-    const salt = new Uint8Array(this.base64ToBuffer(vault.salt));
-    const iv = new Uint8Array(this.base64ToBuffer(vault.iv));
-    const data = this.base64ToBuffer(vault.data);
-    
-    const key = await this.deriveKey(password, salt);
-
-    // Strict Key Verification
-    const exportedKey = await window.crypto.subtle.exportKey("raw", key);
-    const authHashBuffer = await window.crypto.subtle.digest("SHA-256", exportedKey);
-    const computedHash = this.bufferToBase64(authHashBuffer);
-
-    if (computedHash !== vault.authHash) {
-      throw new Error("INVALID_CREDENTIALS");
-    }
-
-    try {
-      const decrypted = await window.crypto.subtle.decrypt(
-        // @ts-ignore
-        { name: "AES-GCM", iv: iv }, key, data
-      );
-      const dec = new TextDecoder();
-      return JSON.parse(dec.decode(decrypted));
-    } catch (e) {
-      throw new Error("DECRYPTION_FAILED");
-    }
-  }
-}
-
-// --- 3. CYCLE PREDICTION ENGINE ---
-
-const CycleLogic = {
-  analyzeHistory: (data: CycleDay[]) => {
-    const sorted = [...data].sort((a,b) => a.date.localeCompare(b.date));
-    const periods = sorted.filter(d => d.flow === 'medium' || d.flow === 'heavy');
-    const starts: string[] = [];
-    let lastDate = 0;
-    periods.forEach(p => {
-      const time = new Date(p.date).getTime();
-      if (time - lastDate > 86400000 * 10) starts.push(p.date);
-      lastDate = time;
-    });
-    
-    const lengths: number[] = [];
-    for(let i = 0; i < starts.length - 1; i++) {
-      const diff = (new Date(starts[i+1]).getTime() - new Date(starts[i]).getTime()) / 86400000;
-      if (diff > 20 && diff < 45) lengths.push(diff);
-    }
-
-    const avgLength = lengths.length > 0 
-      ? Math.round(lengths.reduce((a,b) => a+b, 0) / lengths.length) 
-      : 28;
-
-    return { starts, avgLength, lastStart: starts[starts.length - 1] };
-  },
-
-  predict: (lastStart: string, avgLength: number) => {
-    if (!lastStart) return { nextPeriod: null, ovulation: null, fertileWindow: [] };
-    
-    const start = new Date(lastStart);
-    const nextPeriodDate = new Date(start);
-    nextPeriodDate.setDate(start.getDate() + avgLength);
-    
-    const ovulationDate = new Date(nextPeriodDate);
-    ovulationDate.setDate(nextPeriodDate.getDate() - 14);
-
-    const fertileWindow = [];
-    for(let i=5; i>=0; i--) {
-        const d = new Date(ovulationDate);
-        d.setDate(ovulationDate.getDate() - i);
-        fertileWindow.push(d.toISOString().split('T')[0]);
-    }
-    const d = new Date(ovulationDate);
-    d.setDate(ovulationDate.getDate() + 1);
-    fertileWindow.push(d.toISOString().split('T')[0]);
-
-    return {
-      nextPeriod: nextPeriodDate.toISOString().split('T')[0],
-      ovulation: ovulationDate.toISOString().split('T')[0],
-      fertileWindow
-    };
-  }
-};
-
-// --- 4. CONFIG & HELPERS ---
-
-const DEFAULT_STATE: AppState = {
-  profile: { 
-    name: 'User', avatar: null, theme: 'blush', unit: 'C', lang: 'en', 
-    liabilityAccepted: false, aiActive: false, aiProvider: 'unknown',
-    avgCycleLength: 28, avgLutealLength: 14 
-  },
-  cycleData: [],
-  lastSynced: Date.now(),
-  unsavedChanges: false
-};
+// --- 1. CONFIG & HELPERS ---
 
 const THEMES = {
   blush: { 
@@ -265,33 +82,42 @@ const THEMES = {
   }
 };
 
-const DICTIONARY = {
-  en: {
-    saved: "Entry Logged Successfully",
-    status: "Status",
-    temp: "Basal Temp",
-    mens: "Menstruation",
-    mucus: "Cervical Mucus",
-    notes: "Clinical Notes",
-    save: "Confirm & Save Entry",
-    home: "Home", cal: "Cal", log: "Log", set: "Set", help: "Help"
-  }
+const ENGINE_STATUS_STYLE: Record<ForensicOutput['status'], string> = {
+  FERTILE_PEAK: 'bg-teal-500 text-white',
+  HIGH_FERTILITY: 'bg-teal-100 text-teal-700',
+  WAITING: 'bg-slate-100 text-slate-500',
+  LUTEAL_LOCK: 'bg-indigo-100 text-indigo-700',
+  STRESS_BLOCK: 'bg-rose-500 text-white'
 };
 
-const getLocalISODate = (d: Date = new Date()) => {
-  const offset = d.getTimezoneOffset() * 60000;
-  return new Date(d.getTime() - offset).toISOString().split('T')[0];
+// Older cycles in the overlay chart; the current cycle always uses the theme colour.
+const OVERLAY_PALETTE = ['#94a3b8', '#f59e0b', '#8b5cf6', '#0ea5e9', '#ec4899', '#10b981'];
+
+const REGULARITY_LABEL: Record<Regularity, MessageKey> = {
+  insufficient_data: 'regularity.insufficient_data',
+  regular: 'regularity.regular',
+  somewhat_irregular: 'regularity.somewhat_irregular',
+  irregular: 'regularity.irregular'
 };
 
-const addDays = (dateStr: string, days: number): string => {
-  const d = new Date(dateStr);
-  const local = new Date(d.valueOf() + d.getTimezoneOffset() * 60000);
-  local.setDate(local.getDate() + days);
-  return getLocalISODate(local);
+const TREND_LABEL: Record<TrendDirection, MessageKey> = {
+  insufficient_data: 'trend.insufficient_data',
+  stable: 'trend.stable',
+  lengthening: 'trend.lengthening',
+  shortening: 'trend.shortening'
 };
 
-const formatDate = (dateStr: string) => 
-  new Intl.DateTimeFormat('en-US', { month: 'short', day: 'numeric', weekday: 'short' }).format(new Date(dateStr + 'T12:00:00'));
+const formatRange = (r: DateRange, lang: Language) => {
+  const fmt = (d: string) => I18n.date(d, lang);
+  return r.earliest === r.latest ? fmt(r.likely) : `${fmt(r.earliest)} – ${fmt(r.latest)}`;
+};
+
+const storageErrorCode = (e: unknown): StorageErrorCode => (e instanceof StorageError ? e.code : 'WRITE_FAILED');
+
+const formatBytes = (bytes: number, locale: string) => {
+  const [unit, size] = bytes >= 1e9 ? ['gigabyte', 1e9] as const : bytes >= 1e6 ? ['megabyte', 1e6] as const : ['kilobyte', 1e3] as const;
+  return new Intl.NumberFormat(locale, { style: 'unit', unit, maximumFractionDigits: 1 }).format(bytes / size);
+};
 
 const processImageUpload = (file: File): Promise<string> => {
   return new Promise((resolve, reject) => {
@@ -315,25 +141,7 @@ const processImageUpload = (file: File): Promise<string> => {
   });
 };
 
-const appReducer = (state: AppState, action: Action): AppState => {
-  switch (action.type) {
-    case 'LOAD_STATE': return { ...action.payload, unsavedChanges: false };
-    case 'UPDATE_PROFILE': 
-      return { ...state, profile: { ...state.profile, ...action.payload }, unsavedChanges: true };
-    case 'UPDATE_CYCLE_DAY': {
-      const existingIndex = state.cycleData.findIndex(d => d.date === action.payload.date);
-      const newData = [...state.cycleData];
-      if (existingIndex >= 0) newData[existingIndex] = action.payload;
-      else newData.push(action.payload);
-      return { ...state, cycleData: newData, unsavedChanges: true };
-    }
-    case 'RESET_APP': return DEFAULT_STATE;
-    case 'MARK_SAVED': return { ...state, unsavedChanges: false, lastSynced: Date.now() };
-    default: return state;
-  }
-};
-
-// --- 5. UI COMPONENTS ---
+// --- 2. UI COMPONENTS ---
 
 const Card = ({ children, className = "" }: any) => (
   <div className={`bg-white rounded-2xl p-5 shadow-[0_4px_20px_-10px_rgba(0,0,0,0.08)] border border-slate-100 ${className}`}>{children}</div>
@@ -383,53 +191,118 @@ const LegendItem = ({ color, label }: { color: string, label: string }) => (
     </div>
 );
 
-const WAIVER_TEXT = `
-1. PURPOSE: Hera's Cycle is a biometric data logging tool designed for informational and educational purposes only. It uses mathematical algorithms to estimate cycle phases based on user-provided data.
-
-2. NO MEDICAL ADVICE: This software is NOT a medical device. It is NOT a contraceptive. It must NOT be used to prevent pregnancy, facilitate conception without medical oversight, or diagnose any health condition.
-
-3. DATA SOVEREIGNTY: Your data is encrypted locally using AES-256-GCM. If you lose your password, your data is mathematically unrecoverable. We do not have your keys.
-
-4. LIABILITY: By using this software, you agree to hold the creators, developers, and affiliates harmless from any claims, damages, or outcomes resulting from the use or misuse of this software, including but not limited to unintended pregnancy or missed diagnosis.
-
-5. BACKUPS: You are solely responsible for backing up your data. We strongly recommend weekly exports.
-`;
-
-const LiabilityModal = ({ onClose }: { onClose: () => void }) => (
+const LiabilityModal = ({ onClose, t }: { onClose: () => void; t: Catalogue }) => (
     <div className="fixed inset-0 bg-slate-900/60 backdrop-blur-sm z-[100] flex items-center justify-center p-6 animate-in fade-in zoom-in">
         <div className="bg-white rounded-3xl shadow-2xl max-w-sm w-full overflow-hidden flex flex-col max-h-[80vh]">
             <div className="p-6 bg-rose-50 border-b border-rose-100 text-center">
                 <ShieldAlert size={32} className="text-rose-500 mx-auto mb-2" />
-                <h2 className="text-lg font-black text-slate-800">Legal Disclaimer</h2>
+                <h2 className="text-lg font-black text-slate-800">{t['waiver.title']}</h2>
             </div>
             <div className="p-6 overflow-y-auto">
                 <div className="p-4 bg-slate-50 border border-slate-100 rounded-xl text-xs text-slate-600 leading-relaxed whitespace-pre-wrap font-mono">
-                  {WAIVER_TEXT}
+                  {t['waiver.text']}
                 </div>
             </div>
             <div className="p-4 bg-white border-t border-slate-100">
-                <button onClick={onClose} className="w-full bg-slate-900 text-white font-bold py-3 rounded-xl shadow-lg hover:bg-slate-800 transition-colors">I Understand</button>
+                <button onClick={onClose} className="w-full bg-slate-900 text-white font-bold py-3 rounded-xl shadow-lg hover:bg-slate-800 transition-colors">{t['waiver.accept']}</button>
             </div>
         </div>
     </div>
 );
 
-const AuthScreen = ({ mode, onSubmit, error, onShowWaiver, onRestore }: any) => {
+const AIPreviewModal = ({ prompt, includeNotes, onToggleNotes, onSend, onClose, t }: { prompt: string; includeNotes: boolean; onToggleNotes: () => void; onSend: () => void; onClose: () => void; t: Catalogue }) => (
+    <div className="fixed inset-0 bg-slate-900/60 backdrop-blur-sm z-[100] flex items-center justify-center p-6 animate-in fade-in zoom-in" onClick={onClose}>
+        <div className="bg-white rounded-3xl shadow-2xl max-w-sm w-full overflow-hidden flex flex-col max-h-[80vh]" onClick={e => e.stopPropagation()}>
+            <div className="p-6 bg-slate-50 border-b border-slate-100 text-center">
+                <BrainCircuit size={32} className="text-slate-500 mx-auto mb-2" />
+                <h2 className="text-lg font-black text-slate-800">{t['ai.preview.title']}</h2>
+                <p className="text-xs text-slate-500 leading-relaxed mt-2">{t['ai.preview.intro']}</p>
+            </div>
+            <div className="p-6 overflow-y-auto space-y-3">
+                <label className="flex items-center gap-2 text-xs font-bold text-slate-600 cursor-pointer">
+                  <input type="checkbox" checked={includeNotes} onChange={onToggleNotes} className="w-4 h-4 accent-slate-800" />
+                  {t['settings.includeNotes']}
+                </label>
+                <div className="p-4 bg-slate-50 border border-slate-100 rounded-xl text-[10px] text-slate-600 leading-relaxed whitespace-pre-wrap break-all font-mono">
+                  {prompt}
+                </div>
+            </div>
+            <div className="p-4 bg-white border-t border-slate-100 flex gap-2">
+                <button onClick={onClose} className="flex-1 py-3 border border-slate-200 rounded-xl text-xs font-bold text-slate-500">{t['ai.preview.cancel']}</button>
+                <button onClick={onSend} className="flex-1 bg-slate-900 text-white font-bold py-3 rounded-xl shadow-lg hover:bg-slate-800 transition-colors text-xs">{t['ai.preview.send']}</button>
+            </div>
+        </div>
+    </div>
+);
+
+// Shown once, right after the codes are generated; only their wrapped keys are stored.
+const RecoveryCodesModal = ({ codes, onClose, t }: { codes: string[]; onClose: () => void; t: Catalogue }) => {
+  const [copied, setCopied] = useState(false);
+
+  const handlePrint = () => {
+    const win = window.open('', '_blank', 'width=480,height=640');
+    if (!win) return;
+    const sheet = win.document.createElement('pre');
+    sheet.style.font = '16px/2 monospace';
+    sheet.textContent = `Hera — ${t['recovery.title']}\n\n${codes.map((code, i) => `${i + 1}. ${code}`).join('\n')}`;
+    win.document.title = t['recovery.title'];
+    win.document.body.appendChild(sheet);
+    win.print();
+    win.close();
+  };
+
+  const handleCopy = () => {
+    navigator.clipboard?.writeText(codes.join('\n')).then(() => setCopied(true), () => setCopied(false));
+  };
+
+  return (
+    <div className="fixed inset-0 bg-slate-900/60 backdrop-blur-sm z-[100] flex items-center justify-center p-6 animate-in fade-in zoom-in">
+        <div className="bg-white rounded-3xl shadow-2xl max-w-sm w-full overflow-hidden flex flex-col max-h-[80vh]">
+            <div className="p-6 bg-slate-50 border-b border-slate-100 text-center">
+                <KeyRound size={32} className="text-slate-500 mx-auto mb-2" />
+                <h2 className="text-lg font-black text-slate-800">{t['recovery.title']}</h2>
+                <p className="text-xs text-slate-500 leading-relaxed mt-2">{t['recovery.intro']}</p>
+            </div>
+            <div className="p-6 overflow-y-auto">
+                <ol className="grid grid-cols-1 gap-2 p-4 bg-slate-50 border border-slate-100 rounded-xl text-sm font-bold text-slate-700 font-mono text-center">
+                  {codes.map(code => <li key={code}>{code}</li>)}
+                </ol>
+            </div>
+            <div className="p-4 bg-white border-t border-slate-100 space-y-2">
+                <div className="flex gap-2">
+                    <button onClick={handlePrint} className="flex-1 py-3 border border-slate-200 rounded-xl text-xs font-bold text-slate-500 flex items-center justify-center gap-2"><Printer size={14}/> {t['recovery.print']}</button>
+                    <button onClick={handleCopy} className="flex-1 py-3 border border-slate-200 rounded-xl text-xs font-bold text-slate-500 flex items-center justify-center gap-2">{copied ? <Check size={14}/> : <Copy size={14}/>} {copied ? t['recovery.copied'] : t['recovery.copy']}</button>
+                </div>
+                <button onClick={onClose} className="w-full bg-slate-900 text-white font-bold py-3 rounded-xl shadow-lg hover:bg-slate-800 transition-colors text-xs">{t['recovery.saved']}</button>
+            </div>
+        </div>
+    </div>
+  );
+};
+
+// In the order HeraSecurity reports them; drives the unlock progress bar.
+const UNLOCK_STAGES: UnlockStage[] = ['deriving', 'decrypting', 'upgrading'];
+
+const AuthScreen = ({ mode, onSubmit, onRecover, error, progress, onShowWaiver, onRestore, t }: any) => {
   const [pass, setPass] = useState('');
   const [confirmPassword, setConfirmPassword] = useState(''); 
   const [agreed, setAgreed] = useState(false);
+  const [recovering, setRecovering] = useState(false);
+  const [code, setCode] = useState('');
   const [err, setErr] = useState('');
 
   useEffect(() => setErr(error), [error]);
 
   const handleSubmit = () => {
-    if (pass.length < 4) { setErr("Password too short"); return; }
-    if (mode === 'setup') {
-      if (pass !== confirmPassword) { setErr("Passwords mismatch"); return; }
-      if (!agreed) { setErr("Please accept terms"); return; }
+    if (recovering && !code.trim()) { setErr(t['auth.invalidCode']); return; }
+    if (pass.length < 4) { setErr(t['auth.tooShort']); return; }
+    if (mode === 'setup' || recovering) {
+      if (pass !== confirmPassword) { setErr(t['auth.mismatch']); return; }
+      if (mode === 'setup' && !agreed) { setErr(t['auth.acceptTerms']); return; }
     }
     setErr('');
-    onSubmit(pass);
+    if (recovering) onRecover(code, pass);
+    else onSubmit(pass);
   };
 
   return (
@@ -440,27 +313,45 @@ const AuthScreen = ({ mode, onSubmit, error, onShowWaiver, onRestore }: any) =>
             <HighQualityLogo className="w-full h-full drop-shadow-xl" />
           </div>
           <h1 className="text-3xl font-black text-slate-800 tracking-tight">Hera</h1>
-          <p className="text-rose-500 text-xs font-bold tracking-[0.2em] uppercase mt-2">Cycle Tracker</p>
+          <p className="text-rose-500 text-xs font-bold tracking-[0.2em] uppercase mt-2">{t['auth.tagline']}</p>
         </div>
 
         <div className="space-y-4">
+          {recovering && (
+            <div className="animate-in fade-in space-y-4">
+              <p className="text-xs text-slate-500 text-center leading-relaxed">{t['auth.recoverHint']}</p>
+              <input 
+                type="text" 
+                autoComplete="off"
+                spellCheck={false}
+                placeholder={t['auth.recoveryCode']} 
+                className="w-full p-4 bg-slate-50 rounded-2xl text-center text-sm font-bold font-mono uppercase outline-none focus:ring-2 focus:ring-rose-200 transition-all text-slate-800 placeholder:font-normal placeholder:normal-case placeholder:font-sans placeholder:text-slate-300 border border-slate-200"
+                value={code}
+                onChange={e => setCode(e.target.value)}
+              />
+            </div>
+          )}
+
           <input 
             type="password" 
-            placeholder="Password" 
+            placeholder={recovering ? t['settings.newPassword'] : t['auth.password']} 
             className="w-full p-4 bg-slate-50 rounded-2xl text-center text-lg font-bold outline-none focus:ring-2 focus:ring-rose-200 transition-all text-slate-800 placeholder:font-normal placeholder:text-slate-300 border border-slate-200"
             value={pass}
             onChange={e => setPass(e.target.value)}
           />
           
+          {(mode === 'setup' || recovering) && (
+            <input 
+              type="password" 
+              placeholder={t['auth.confirmPassword']} 
+              className="w-full p-4 bg-slate-50 rounded-2xl text-center text-lg font-bold outline-none focus:ring-2 focus:ring-rose-200 transition-all text-slate-800 placeholder:font-normal placeholder:text-slate-300 border border-slate-200"
+              value={confirmPassword}
+              onChange={e => setConfirmPassword(e.target.value)}
+            />
+          )}
+
           {mode === 'setup' && (
             <div className="animate-in fade-in space-y-4">
-              <input 
-                type="password" 
-                placeholder="Confirm Password" 
-                className="w-full p-4 bg-slate-50 rounded-2xl text-center text-lg font-bold outline-none focus:ring-2 focus:ring-rose-200 transition-all text-slate-800 placeholder:font-normal placeholder:text-slate-300 border border-slate-200"
-                value={confirmPassword}
-                onChange={e => setConfirmPassword(e.target.value)}
-              />
               <div className="flex items-start gap-3 p-3 bg-white rounded-xl border border-slate-200">
                 <div 
                   onClick={() => setAgreed(!agreed)} 
@@ -469,7 +360,7 @@ const AuthScreen = ({ mode, onSubmit, error, onShowWaiver, onRestore }: any) =>
                   {agreed && <Check size={12} className="text-white" strokeWidth={4} />}
                 </div>
                 <div className="text-[10px] text-slate-500 leading-tight pt-0.5">
-                    I agree to the <span onClick={(e) => { e.stopPropagation(); onShowWaiver(); }} className="text-rose-600 font-bold underline cursor-pointer hover:text-rose-700">Liability Waiver</span>. Use at your own risk.
+                    {t['auth.agreeBefore']} <span onClick={(e) => { e.stopPropagation(); onShowWaiver(); }} className="text-rose-600 font-bold underline cursor-pointer hover:text-rose-700">{t['auth.agreeLink']}</span>{t['auth.agreeAfter']}
                 </div>
               </div>
             </div>
@@ -484,32 +375,51 @@ const AuthScreen = ({ mode, onSubmit, error, onShowWaiver, onRestore }: any) =>
 
           <button 
             onClick={handleSubmit}
-            className="w-full py-4 bg-slate-900 text-white rounded-2xl font-bold shadow-xl hover:scale-[1.02] active:scale-95 transition-all mt-2"
+            disabled={!!progress}
+            className="w-full py-4 bg-slate-900 text-white rounded-2xl font-bold shadow-xl hover:scale-[1.02] active:scale-95 transition-all mt-2 flex items-center justify-center gap-2 disabled:opacity-80 disabled:hover:scale-100"
           >
-            {mode === 'setup' ? 'Create Secure Vault' : 'Unlock Journal'}
+            {progress ? (
+              <><Loader2 size={18} className="animate-spin" /> {t[`auth.progress.${progress as UnlockStage}` as const]}</>
+            ) : (
+              mode === 'setup' ? t['auth.create'] : recovering ? t['auth.recover'] : t['auth.unlock']
+            )}
           </button>
+          {progress && (
+            <div className="h-1 bg-slate-100 rounded-full overflow-hidden">
+              <div className="h-full bg-rose-400 transition-all duration-500" style={{ width: `${(UNLOCK_STAGES.indexOf(progress) + 1) / UNLOCK_STAGES.length * 100}%` }} />
+            </div>
+          )}
           
           {mode === 'setup' && (
             <div className="text-center pt-2">
               <label className="text-[10px] font-bold text-slate-400 uppercase tracking-widest hover:text-slate-600 cursor-pointer flex items-center justify-center gap-2">
                 <Upload size={12} />
-                Restore Existing Vault
+                {t['auth.restore']}
                 <input type="file" className="hidden" accept=".json" onChange={onRestore} />
               </label>
             </div>
           )}
 
+          {mode === 'login' && (
+            <button 
+              onClick={() => { setRecovering(!recovering); setPass(''); setConfirmPassword(''); setCode(''); setErr(''); }}
+              className="w-full py-2 text-slate-500 text-xs font-bold hover:text-slate-800 flex items-center justify-center gap-2"
+            >
+              <KeyRound size={12} />
+              {recovering ? t['auth.usePassword'] : t['auth.useCode']}
+            </button>
+          )}
+
           {mode === 'login' && (
             <button 
               onClick={() => { 
-                if(window.confirm("WARNING: This will permanently ERASE all your data to reset the app. This cannot be undone.")) { 
-                  localStorage.removeItem('hera_vault'); 
-                  window.location.reload(); 
+                if(window.confirm(t['auth.resetConfirm'])) { 
+                  VaultStorage.clear().finally(() => window.location.reload()); 
                 } 
               }}
               className="w-full py-2 text-slate-400 text-xs font-bold hover:text-rose-500 mt-2"
             >
-              Emergency Reset
+              {t['auth.reset']}
             </button>
           )}
         </div>
@@ -518,180 +428,592 @@ const AuthScreen = ({ mode, onSubmit, error, onShowWaiver, onRestore }: any) =>
   );
 };
 
-// --- 6. MAIN APP ---
+// --- 3. MAIN APP ---
 
 export default function HeraApp() {
   const [state, dispatch] = useReducer(appReducer, DEFAULT_STATE);
   const [status, setStatus] = useState<'loading' | 'auth' | 'app'>('loading');
   const [authMode, setAuthMode] = useState<'login' | 'setup'>('login');
   const [authError, setAuthError] = useState('');
+  const [authProgress, setAuthProgress] = useState<UnlockStage | null>(null);
   const [showWaiver, setShowWaiver] = useState(false);
   
   const [activeTab, setActiveTab] = useState('home');
   const [selectedDate, setSelectedDate] = useState(getLocalISODate());
   const [selectedSummary, setSelectedSummary] = useState<string | null>(null);
   const [isMounted, setIsMounted] = useState(false);
-  const [saveStatus, setSaveStatus] = useState<'idle'|'saving'|'saved'>('idle');
+  const [saveStatus, setSaveStatus] = useState<'idle'|'saving'|'saved'|'error'>('idle');
+  const [saveError, setSaveError] = useState<StorageErrorCode>('WRITE_FAILED');
+  const [storageInfo, setStorageInfo] = useState<{ estimate: StorageEstimate | null; snapshots: VaultSnapshot[] } | null>(null);
+  const [trendMode, setTrendMode] = useState<'calendar' | 'overlay'>('calendar');
+  const [overlayAlign, setOverlayAlign] = useState<OverlayAlignment>('cycle_day');
+  const [hiddenCycles, setHiddenCycles] = useState<string[]>([]);
+  const [newTracker, setNewTracker] = useState<{ name: string; kind: TrackerKind; unit: string }>({ name: '', kind: 'boolean', unit: '' });
+  // Language before unlock comes from the browser (or the last session); after unlock the profile wins.
+  const [uiLang, setUiLang] = useState<Language>('en');
   const fileInputRef = useRef<HTMLInputElement>(null);
   
   // AI State
-  const [aiInsight, setAiInsight] = useState<string | null>(null);
+  const [aiInsight, setAiInsight] = useState<string | null>(null); // streamed text of the request in flight
+  const [aiError, setAiError] = useState<AIErrorCode | null>(null);
   const [isThinking, setIsThinking] = useState(false);
-
+  const [showAiPreview, setShowAiPreview] = useState(false);
+  const aiRequest = useRef<AbortController | null>(null);
+
+  // Decrypted secrets compartment; kept out of AppState so the reducer and exports never see it.
+  const [secrets, setSecrets] = useState<VaultSecrets>(EMPTY_SECRETS);
+  const [unsavedSecrets, setUnsavedSecrets] = useState<VaultSecrets | null>(null); // set until written
+  const [keyDraft, setKeyDraft] = useState<string | null>(null); // null = not editing
+  const [keyTest, setKeyTest] = useState<AIErrorCode | 'ok' | 'testing' | null>(null);
   const passwordRef = useRef<string | null>(null);
+  const sessionRef = useRef<VaultSession | null>(null); // unwrapped data key while unlocked
+  const vaultQueue = useRef<Promise<unknown>>(Promise.resolve()); // serializes vault writes
+  const [pwForm, setPwForm] = useState<{ current: string; next: string; confirm: string } | null>(null);
+  const [pwBusy, setPwBusy] = useState(false);
+  const [pwMessage, setPwMessage] = useState<{ ok: boolean; text: string } | null>(null);
+  const [recoveryCount, setRecoveryCount] = useState(0);
+  const [recoveryCodes, setRecoveryCodes] = useState<string[] | null>(null); // freshly generated, shown once
+  const [recoveryPassword, setRecoveryPassword] = useState<string | null>(null); // null = not generating
+  const [recoveryBusy, setRecoveryBusy] = useState(false);
+  const [recoveryError, setRecoveryError] = useState('');
   const idleTimeout = useRef<NodeJS.Timeout | null>(null);
 
+  const lang: Language = status === 'app' ? state.profile.lang : uiLang;
+  const locale = LOCALE_TAG[lang];
+  const t = I18n.catalogue(lang);
+  const tf = (key: MessageKey, params?: MessageParams) => I18n.format(t[key], params);
+
   // --- INIT ---
   useEffect(() => {
     setIsMounted(true);
-    const vault = localStorage.getItem('hera_vault');
-    setAuthMode(vault ? 'login' : 'setup');
-    setStatus('auth');
+    setUiLang(I18n.preferred());
+    VaultStorage.read()
+      .then(vault => setAuthMode(vault ? 'login' : 'setup'))
+      // Never offer setup when the vault could not be read: it would overwrite the existing one.
+      .catch(e => { setAuthMode('login'); setAuthError(I18n.t(I18n.preferred(), `storage.error.${storageErrorCode(e)}`)); })
+      .finally(() => setStatus('auth'));
   }, []);
 
+  useEffect(() => {
+    document.documentElement.lang = lang;
+    if (status === 'app') { I18n.remember(lang); setUiLang(lang); }
+  }, [lang, status]);
+
   // --- IDLE TIMER ---
   const resetIdleTimer = useCallback(() => {
     if (idleTimeout.current) clearTimeout(idleTimeout.current);
     if (status === 'app') {
       idleTimeout.current = setTimeout(() => {
-        passwordRef.current = null; setStatus('auth'); setAuthMode('login'); setAuthError('Session timed out.');
+        passwordRef.current = null; sessionRef.current = null; setSecrets(EMPTY_SECRETS); setRecoveryCodes(null); setStatus('auth'); setAuthMode('login'); setAuthError(t['auth.timedOut']);
       }, 5 * 60 * 1000);
     }
-  }, [status]);
+  }, [status, t]);
 
+  // Restarting here also swaps a pending timeout for one with the current language's message.
   useEffect(() => {
+    resetIdleTimer();
     window.addEventListener('mousemove', resetIdleTimer); window.addEventListener('touchstart', resetIdleTimer); window.addEventListener('keydown', resetIdleTimer);
     return () => { window.removeEventListener('mousemove', resetIdleTimer); window.removeEventListener('touchstart', resetIdleTimer); window.removeEventListener('keydown', resetIdleTimer); };
   }, [resetIdleTimer]);
 
   // --- SECURITY & IO ---
+  // Older vault generations and schemas are re-locked in the current format on first unlock.
+  const openVault = async (payload: unknown, storedSecrets: VaultSecrets, session: VaultSession, rewrite: boolean, writeOptions: WriteOptions = {}) => {
+    const vaultSecrets = storedSecrets.aiApiKey ? storedSecrets : extractSecrets(payload);
+    const { state: migrated, applied, issues } = migrateState(payload);
+    if (rewrite || applied.length > 0 || issues.length > 0) {
+      await VaultStorage.write(await VaultClient.lock(session, migrated, vaultSecrets), writeOptions);
+    }
+    sessionRef.current = session;
+    setRecoveryCount(HeraSecurity.recoveryCount(session));
+    setSecrets(vaultSecrets);
+    setUnsavedSecrets(null);
+    dispatch({ type: 'LOAD_STATE', payload: migrated });
+    if (issues.length > 0) alert(tf('auth.vaultCheck', { summary: summarizeIssues(issues, lang) }));
+  };
+
   const handleAuth = async (pass: string) => {
     try {
       setAuthError('');
+      setAuthProgress('deriving');
       if (authMode === 'setup') {
-        const newState = { ...DEFAULT_STATE, profile: { ...DEFAULT_STATE.profile, liabilityAccepted: true } };
-        const encrypted = await HeraSecurity.lock(newState, pass);
-        localStorage.setItem('hera_vault', encrypted);
+        const newState = { ...DEFAULT_STATE, profile: { ...DEFAULT_STATE.profile, liabilityAccepted: true, lang: uiLang } };
+        let session = await VaultClient.create(pass);
+        if (window.confirm(t['recovery.offer'])) {
+          const created = await VaultClient.createRecoveryCodes(session, pass);
+          session = created.session;
+          setRecoveryCodes(created.codes);
+        }
+        await VaultStorage.write(await VaultClient.lock(session, newState, EMPTY_SECRETS));
+        sessionRef.current = session;
+        setRecoveryCount(HeraSecurity.recoveryCount(session));
         dispatch({ type: 'LOAD_STATE', payload: newState });
       } else {
-        const stored = localStorage.getItem('hera_vault');
+        const stored = await VaultStorage.read();
         if (!stored) throw new Error("No Data");
-        const decrypted = await HeraSecurity.unlock(stored, pass);
-        dispatch({ type: 'LOAD_STATE', payload: decrypted });
+        const { payload, secrets: storedSecrets, session } = await VaultClient.unlock(stored, pass, setAuthProgress);
+        // Snapshots of an outdated vault would let a rollback undo the upgrade.
+        const upgrade = HeraSecurity.needsUpgrade(stored);
+        await openVault(payload, storedSecrets, session, upgrade, { dropSnapshots: upgrade });
       }
       passwordRef.current = pass;
       setStatus('app');
     } catch (e) {
-      setAuthError("Incorrect Password"); 
+      setAuthError(
+        e instanceof SchemaError ? tf('auth.unreadable', { message: tf(e.key, e.params) })
+        : e instanceof StorageError ? t[`storage.error.${e.code}` as const]
+        : t['auth.incorrect']
+      );
+    } finally {
+      setAuthProgress(null);
+    }
+  };
+
+  // A recovery code only gets you back in with a new password: the vault is re-locked
+  // straight away so the forgotten password and the used code stop working.
+  const handleRecover = async (code: string, pass: string) => {
+    try {
+      setAuthError('');
+      const stored = await VaultStorage.read();
+      if (!stored) throw new Error("No Data");
+      const { payload, secrets: storedSecrets, session, remaining } = await VaultClient.recover(stored, code, pass, setAuthProgress);
+      await openVault(payload, storedSecrets, session, true, { dropSnapshots: true });
+      passwordRef.current = pass;
+      setStatus('app');
+      alert(tf('recovery.used', { count: remaining }));
+    } catch (e) {
+      setAuthError(
+        e instanceof SchemaError ? tf('auth.unreadable', { message: tf(e.key, e.params) })
+        : e instanceof StorageError ? t[`storage.error.${e.code}` as const]
+        : t['auth.invalidCode']
+      );
+    } finally {
+      setAuthProgress(null);
     }
   };
 
+  // An autosave that started under the old key must not land after a re-key, so every write queues here.
+  const queueVaultWrite = <T,>(task: () => Promise<T>): Promise<T> => {
+    const run = vaultQueue.current.then(task, task);
+    vaultQueue.current = run.catch(() => undefined);
+    return run;
+  };
+
   const saveToVault = async () => {
-    if (!passwordRef.current || status !== 'app') return;
+    if (!sessionRef.current || status !== 'app') return;
     setSaveStatus('saving');
+    // The write can wait behind a re-key; only what it actually wrote is marked saved.
+    const written = { state, secrets };
     try {
-      const encrypted = await HeraSecurity.lock(state, passwordRef.current);
-      localStorage.setItem('hera_vault', encrypted);
-      dispatch({ type: 'MARK_SAVED' });
+      await queueVaultWrite(async () => {
+        if (!sessionRef.current) throw new Error("Vault locked");
+        await VaultStorage.write(await VaultClient.lock(sessionRef.current, written.state, written.secrets));
+      });
+      dispatch({ type: 'MARK_SAVED', payload: written.state });
+      setUnsavedSecrets(pending => (pending === written.secrets ? null : pending));
       setSaveStatus('saved');
       setTimeout(() => setSaveStatus('idle'), 2000);
     } catch (e) {
-      setSaveStatus('idle');
+      if (!sessionRef.current) return setSaveStatus('idle'); // locked while saving
+      // Unsaved changes stay flagged, so the next edit or a retry writes them again.
+      setSaveError(storageErrorCode(e));
+      setSaveStatus('error');
     }
   };
 
   useEffect(() => {
-    if (state.unsavedChanges) {
+    if (state.unsavedChanges || unsavedSecrets) {
       const t = setTimeout(saveToVault, 1000);
       return () => clearTimeout(t);
     }
-  }, [state.unsavedChanges]);
+  }, [state, unsavedSecrets]);
+
+  const updateSecrets = (next: VaultSecrets) => {
+    setSecrets(next);
+    setUnsavedSecrets(next);
+    setKeyTest(null);
+  };
+
+  const handleChangePassword = async () => {
+    if (!pwForm || !sessionRef.current) return;
+    if (pwForm.next.length < 4) return setPwMessage({ ok: false, text: t['auth.tooShort'] });
+    if (pwForm.next !== pwForm.confirm) return setPwMessage({ ok: false, text: t['auth.mismatch'] });
+    setPwBusy(true);
+    setPwMessage(null);
+    try {
+      await queueVaultWrite(async () => {
+        const next = await VaultClient.changePassword(sessionRef.current!, pwForm.current, pwForm.next);
+        // The new vault is built in full and written in one IndexedDB transaction, so the stored
+        // copy is either the old vault or the new one. The same transaction drops the snapshots,
+        // which would still open with the old password.
+        await VaultStorage.write(await VaultClient.lock(next, state, secrets), { dropSnapshots: true });
+        sessionRef.current = next;
+      });
+      passwordRef.current = pwForm.next;
+      setPwForm(null);
+      setPwMessage({ ok: true, text: t['settings.passwordChanged'] });
+    } catch (e: any) {
+      setPwMessage({ ok: false, text: e?.message === 'INVALID_CREDENTIALS' ? t['settings.wrongPassword'] : t['settings.passwordFailed'] });
+    } finally {
+      setPwBusy(false);
+    }
+  };
+
+  // Needs the password: the session's data key cannot be exported to wrap it again.
+  const handleCreateRecoveryCodes = async () => {
+    if (recoveryPassword === null || !sessionRef.current) return;
+    setRecoveryBusy(true);
+    setRecoveryError('');
+    try {
+      await queueVaultWrite(async () => {
+        const next = await VaultClient.createRecoveryCodes(sessionRef.current!, recoveryPassword);
+        await VaultStorage.write(await VaultClient.lock(next.session, state, secrets), { dropSnapshots: true });
+        sessionRef.current = next.session;
+        setRecoveryCodes(next.codes);
+        setRecoveryCount(HeraSecurity.recoveryCount(next.session));
+      });
+      setRecoveryPassword(null);
+    } catch (e: any) {
+      setRecoveryError(e?.message === 'INVALID_CREDENTIALS' ? t['settings.wrongPassword'] : t['recovery.failed']);
+    } finally {
+      setRecoveryBusy(false);
+    }
+  };
+
+  const handleRemoveRecoveryCodes = async () => {
+    if (!sessionRef.current || !window.confirm(t['recovery.removeConfirm'])) return;
+    setRecoveryError('');
+    try {
+      await queueVaultWrite(async () => {
+        const next = HeraSecurity.removeRecoveryCodes(sessionRef.current!);
+        await VaultStorage.write(await VaultClient.lock(next, state, secrets), { dropSnapshots: true });
+        sessionRef.current = next;
+      });
+      setRecoveryCount(0);
+    } catch (e) {
+      setRecoveryError(t['recovery.failed']);
+    }
+  };
+
+  // A snapshot may be locked under an earlier password, so the app re-opens at the lock screen.
+  const handleRollback = async (snapshot: VaultSnapshot) => {
+    if (!window.confirm(tf('storage.rollbackConfirm', { date: new Date(snapshot.savedAt).toLocaleString(locale, { dateStyle: 'medium', timeStyle: 'short' }) }))) return;
+    try {
+      await queueVaultWrite(() => VaultStorage.rollback(snapshot.id));
+      window.location.reload();
+    } catch (e) {
+      alert(t[`storage.error.${storageErrorCode(e)}` as const]);
+    }
+  };
+
+  useEffect(() => {
+    if (status !== 'app' || activeTab !== 'settings') return;
+    Promise.all([VaultStorage.estimate(), VaultStorage.snapshots()])
+      .then(([estimate, snapshots]) => setStorageInfo({ estimate, snapshots }))
+      .catch(() => setStorageInfo(null));
+  }, [status, activeTab]);
 
   const handleImageUpload = async (e: React.ChangeEvent<HTMLInputElement>) => {
     if (e.target.files && e.target.files[0]) {
       try {
         const base64 = await processImageUpload(e.target.files[0]);
         dispatch({ type: 'UPDATE_PROFILE', payload: { avatar: base64 } });
-      } catch (err) { alert("Image failed to load"); }
+      } catch (err) { alert(t['backup.imageFailed']); }
     }
   };
 
+  const handleExportBackup = async () => {
+    if (!passwordRef.current) return;
+    const passphrase = window.prompt(t['backup.exportPrompt']);
+    if (passphrase === null) return;
+    // Off unless chosen for this export; the key is then sealed under the backup passphrase.
+    const includeSecrets = !!secrets.aiApiKey && window.confirm(t['backup.includeKey']);
+    try {
+      const encrypted = await VaultClient.exportBackup(state, passphrase || passwordRef.current, includeSecrets ? secrets : null);
+      const blob = new Blob([encrypted], {type: 'application/json'});
+      const url = URL.createObjectURL(blob);
+      const a = document.createElement('a');
+      a.href = url;
+      a.download = `hera_backup_${getLocalISODate()}.json`;
+      a.click();
+      // Revoking in the same task can cancel the download in Safari and Firefox.
+      setTimeout(() => URL.revokeObjectURL(url), 1000);
+    } catch (e) { alert(t['backup.exportFailed']); }
+  };
+
   // Restore logic for BOTH Auth and Settings
   const handleRestoreBackup = (e: React.ChangeEvent<HTMLInputElement>) => {
     const file = e.target.files?.[0];
+    e.target.value = '';
     if (!file) return;
     const reader = new FileReader();
-    reader.onload = (ev) => {
+    reader.onload = async (ev) => {
       const content = ev.target?.result as string;
-      try { 
-        JSON.parse(content); // Validate JSON format
-        if(window.confirm("WARNING: This will overwrite the current vault. Ensure you have the password for this backup file if you previously exported it encrypted, otherwise proceed.")) { 
-          localStorage.setItem('hera_vault', content); 
-          window.location.reload(); 
-        } 
-      } catch { alert("Invalid Backup File"); }
+      let kind: BackupKind;
+      try { kind = HeraSecurity.detectBackup(content); } 
+      catch (err: any) { 
+        alert(err?.message === 'UNSUPPORTED_BACKUP_VERSION' ? t['backup.newerVersion'] : t['backup.invalid']); 
+        return; 
+      }
+
+      try {
+        // Raw vault copies are already locked under their original password.
+        if (kind === 'vault') {
+          if (!window.confirm(t['backup.vaultConfirm'])) return;
+          await queueVaultWrite(() => VaultStorage.write(content, { keepPrevious: true }));
+          window.location.reload();
+          return;
+        }
+
+        let payload: unknown;
+        let backupSecrets: VaultSecrets | null = null;
+        let backupPass: string | null = null;
+        if (kind === 'encrypted') {
+          backupPass = window.prompt(t['backup.passphrase']);
+          if (!backupPass) return;
+          ({ payload, secrets: backupSecrets } = await VaultClient.importBackup(content, backupPass));
+        } else {
+          if (!window.confirm(t['backup.legacyConfirm'])) return;
+          payload = JSON.parse(content);
+        }
+        // A backup without a key leaves the one already stored in place.
+        const legacySecrets = extractSecrets(payload);
+        const restoredSecrets = backupSecrets?.aiApiKey ? backupSecrets : legacySecrets.aiApiKey ? legacySecrets : secrets;
+
+        const { state: restored, issues } = migrateState(payload);
+        const report = issues.length > 0 ? `\n\n${tf('backup.dataCheck', { summary: summarizeIssues(issues, lang) })}` : '';
+        if (!window.confirm(tf('backup.overwriteConfirm', { count: restored.cycleData.length }) + report)) return;
+
+        // Re-lock under the open vault's key; from the auth screen the backup passphrase becomes the unlock password.
+        let session = sessionRef.current;
+        if (!session) {
+          const vaultPass = backupPass || window.prompt(t['backup.choosePassword']);
+          if (!vaultPass || vaultPass.length < 4) { alert(t['auth.tooShort']); return; }
+          session = await VaultClient.create(vaultPass);
+        }
+        const fallback = session;
+        // Lock inside the queue: a re-key that lands first replaces the session to lock under.
+        await queueVaultWrite(async () => {
+          const encrypted = await VaultClient.lock(sessionRef.current || fallback, restored, restoredSecrets);
+          await VaultStorage.write(encrypted, { keepPrevious: true });
+        });
+
+        if (status === 'app' && sessionRef.current) {
+          setSecrets(restoredSecrets);
+          dispatch({ type: 'LOAD_STATE', payload: restored });
+          alert(t['backup.restored']);
+        } else {
+          window.location.reload();
+        }
+      } catch (err: any) {
+        if (err instanceof SchemaError) alert(tf('backup.invalidDetail', { message: tf(err.key, err.params) }));
+        else if (err instanceof StorageError) alert(t[`storage.error.${err.code}` as const]);
+        else alert(err?.message === 'INVALID_CREDENTIALS' ? t['backup.wrongPassphrase'] : t['backup.invalid']);
+      }
     };
     reader.readAsText(file);
   };
 
   // --- LOGIC ---
-  const cycleStats = useMemo(() => CycleLogic.analyzeHistory(state.cycleData), [state.cycleData]);
-  const predictions = useMemo(() => CycleLogic.predict(cycleStats.lastStart, cycleStats.avgLength), [cycleStats]);
+  const cycleStats = useMemo(
+    () => CycleLogic.analyzeHistory(state.cycleData, state.profile.avgCycleLength, state.profile.periodStartPolicy),
+    [state.cycleData, state.profile.avgCycleLength, state.profile.periodStartPolicy]
+  );
+  const readingQuality = useMemo(() => TemperatureQuality.assess(state.cycleData), [state.cycleData]);
+  const periodDays = useMemo(() => PeriodDetection.periodDays(state.cycleData, state.profile.periodStartPolicy), [state.cycleData, state.profile.periodStartPolicy]);
+  const ovulationHistory = useMemo(() => ThermalShift.detectAll(state.cycleData, cycleStats.starts), [state.cycleData, cycleStats]);
+  const currentOvulation = ovulationHistory.length > 0 ? ovulationHistory[ovulationHistory.length - 1] : null;
+  const lifeStageRules = LIFE_STAGES[state.profile.lifeStage];
+  const lutealLength = Math.round(cycleStats.stats.lutealMean ?? state.profile.avgLutealLength);
+  const predictions = useMemo(
+    () => CycleLogic.predict(cycleStats.lastStart, cycleStats.avgLength, currentOvulation?.ovulationDate, lutealLength, cycleStats.stats, state.profile.lifeStage),
+    [cycleStats, currentOvulation, lutealLength, state.profile.lifeStage]
+  );
+  const modeState = useMemo(
+    () => PregnancyMode.evaluate({
+      data: state.cycleData, lastStart: cycleStats.lastStart, avgLength: cycleStats.avgLength,
+      latestExpected: predictions.nextPeriodRange?.latest || null, ovulation: currentOvulation,
+      pregnancy: state.pregnancy, today: getLocalISODate(), lateGrace: lifeStageRules.lateGrace
+    }),
+    [state.cycleData, state.pregnancy, cycleStats, predictions, currentOvulation, lifeStageRules]
+  );
+  // Late / possible pregnancy / pregnant: no fertility projections until a new cycle is marked.
+  const predictionsSuspended = modeState.mode !== 'tracking';
+  const fertility = useMemo(
+    () => cycleStats.lastStart && !predictionsSuspended ? FertilityModel.forecast({
+      data: state.cycleData, lastStart: cycleStats.lastStart, avgLength: cycleStats.avgLength,
+      lutealLength, stats: cycleStats.stats, ovulation: currentOvulation, lifeStage: state.profile.lifeStage
+    }) : null,
+    [state.cycleData, cycleStats, lutealLength, currentOvulation, predictionsSuspended, state.profile.lifeStage]
+  );
+  const fertilityByDate = useMemo(() => new Map((fertility?.days || []).map(d => [d.date, d])), [fertility]);
+  const upcomingFertility = (fertility?.days || []).filter(d => d.date >= getLocalISODate()).slice(0, 14);
+  const patterns = useMemo(
+    () => PatternInsights.analyze({
+      data: state.cycleData, history: cycleStats, ovulations: ovulationHistory, periodDays,
+      customTrackers: state.customTrackers, lutealLength, unit: state.profile.unit, lang: state.profile.lang
+    }),
+    [state.cycleData, cycleStats, ovulationHistory, periodDays, state.customTrackers, lutealLength, state.profile.unit, state.profile.lang]
+  );
   
-  const currentDayEntry = state.cycleData.find(d => d.date === selectedDate) || { 
-    date: selectedDate, temperature: null, mucus: 'none', flow: 'none', notes: '' 
-  };
+  const currentDayEntry = state.cycleData.find(d => d.date === selectedDate) || createEmptyDay(selectedDate, state.profile.unit);
+  const currentOutlier = readingQuality.get(selectedDate)?.outlier || null;
+  const engineReadout = useMemo(
+    () => {
+      const cycle = [...ovulationHistory].reverse().find(o => o.cycleStart <= selectedDate);
+      return HeraEngine.compute({ 
+        ...currentDayEntry, 
+        // Flagged readings fall back to the neutral baseline instead of moving the score
+        temperature: readingQuality.get(selectedDate)?.excluded ? null : currentDayEntry.temperature,
+        cycleDay: PeriodDetection.cycleDay(state.cycleData, selectedDate, state.profile.periodStartPolicy), 
+        coverline: cycle?.coverline,
+        probability: fertilityByDate.get(selectedDate)?.probability,
+        lifeStage: state.profile.lifeStage,
+        lang: state.profile.lang
+      });
+    },
+    [currentDayEntry, readingQuality, state.cycleData, selectedDate, ovulationHistory, fertilityByDate, state.profile.lifeStage, state.profile.lang]
+  );
+
+  // Engine score for every logged day, scored against that day's own cycle (cycle day, coverline, phase).
+  // No `probability`: the forecast only covers the current cycle, so past days could not get one
+  // and the series would mix inputs.
+  const engineHistory = useMemo((): ChartData[] => {
+    const aligned = new Map(PatternInsights.align({ data: state.cycleData, history: cycleStats, ovulations: ovulationHistory, periodDays, lutealLength }).map(a => [a.day.date, a]));
+    return [...state.cycleData].sort((a, b) => a.date.localeCompare(b.date)).map(day => {
+      const a = aligned.get(day.date);
+      const excluded = readingQuality.get(day.date)?.excluded;
+      const output = HeraEngine.compute({
+        ...day,
+        temperature: excluded ? null : day.temperature,
+        cycleDay: a?.cycleDay ?? PeriodDetection.cycleDay(state.cycleData, day.date, state.profile.periodStartPolicy),
+        coverline: ovulationHistory.find(o => o.cycleStart === a?.cycleStart)?.coverline,
+        lifeStage: state.profile.lifeStage
+      });
+      return { date: formatDate(day.date, locale), iso: day.date, temp: excluded ? null : day.temperature, flagged: excluded ? day.temperature : null, heraScore: output.score, phase: a?.phase ?? null };
+    });
+  }, [state.cycleData, readingQuality, cycleStats, ovulationHistory, periodDays, lutealLength, state.profile.periodStartPolicy, state.profile.lifeStage, locale]);
 
   const getCyclePhase = () => {
-    if (!cycleStats.lastStart) return { name: 'Not Enough Data', color: 'text-slate-400' };
+    if (modeState.mode === 'pregnant') return { name: t['phase.pregnant'], color: 'text-rose-500' };
+    if (modeState.mode === 'possible_pregnancy') return { name: t['phase.possiblePregnancy'], color: 'text-rose-500' };
+    if (modeState.mode === 'late') return { name: t['phase.late'], color: 'text-amber-500' };
+    if (!cycleStats.lastStart) return { name: t['phase.noData'], color: 'text-slate-400' };
     const today = new Date().getTime();
     const lastStart = new Date(cycleStats.lastStart).getTime();
     const dayOfCycle = Math.floor((today - lastStart) / 86400000) + 1;
     
-    if (dayOfCycle <= 5) return { name: 'Menstruation', color: 'text-rose-500' };
-    if (predictions.fertileWindow.includes(getLocalISODate())) return { name: 'Fertile Window', color: 'text-teal-500' };
-    if (dayOfCycle > 14) return { name: 'Luteal Phase', color: 'text-indigo-500' };
-    return { name: 'Follicular Phase', color: 'text-blue-500' };
+    if (dayOfCycle <= 5) return { name: t['phase.menstruation'], color: 'text-rose-500' };
+    if (currentOvulation?.confirmed && getLocalISODate() > currentOvulation.shiftDate!) return { name: t['phase.luteal'], color: 'text-indigo-500' };
+    if ((fertilityByDate.get(getLocalISODate())?.probability || 0) >= FERTILE_THRESHOLD) return { name: t['phase.fertile'], color: 'text-teal-500' };
+    if (dayOfCycle > 14) return { name: t['phase.luteal'], color: 'text-indigo-500' };
+    return { name: t['phase.follicular'], color: 'text-blue-500' };
   };
 
-  // AI REAL LOGIC
-  useEffect(() => {
-    const fetchAI = async () => {
-      if (!state.profile.aiActive || !state.profile.apiKey) return;
-      
-      setIsThinking(true);
-      try {
-        const recentData = state.cycleData.slice(-14);
-        const prompt = `Analyze this cycle data: ${JSON.stringify(recentData)}. Current phase: ${getCyclePhase().name}. Brief forensic health summary.`;
-        
-        const res = await fetch("https://api.openai.com/v1/chat/completions", {
-          method: "POST",
-          headers: {
-            "Content-Type": "application/json",
-            "Authorization": `Bearer ${state.profile.apiKey}`
-          },
-          body: JSON.stringify({
-            model: "gpt-3.5-turbo",
-            messages: [{ role: "user", content: prompt }],
-            max_tokens: 60
-          })
-        });
+  const markPregnant = () => {
+    if (!cycleStats.lastStart) return;
+    dispatch({ type: 'SET_PREGNANCY', payload: {
+      lmp: cycleStats.lastStart, recordedOn: getLocalISODate(), cycleLength: cycleStats.avgLength,
+      ovulationDate: currentOvulation?.ovulationDate || null
+    }});
+  };
+
+  const startNewCycle = () => {
+    if (!window.confirm(t['home.newCycleConfirm'])) return;
+    const today = getLocalISODate();
+    const entry = state.cycleData.find(d => d.date === today) || createEmptyDay(today, state.profile.unit);
+    dispatch({ type: 'SET_PREGNANCY', payload: null });
+    dispatch({ type: 'UPDATE_CYCLE_DAY', payload: { ...entry, periodStart: true } });
+  };
+
+  // AI INSIGHT
+  const aiConfig = { provider: state.profile.aiProvider || 'unknown', model: state.profile.aiModel, baseUrl: state.profile.aiBaseUrl, apiKey: secrets.aiApiKey || undefined };
+  const aiModel = resolveConfig(aiConfig)?.model || '';
+  // One insight per day per provider/model/language, so tab switches don't re-bill.
+  const cachedInsight = state.aiInsight && state.aiInsight.date === getLocalISODate() && state.aiInsight.provider === aiConfig.provider
+    && state.aiInsight.model === aiModel && state.aiInsight.lang === state.profile.lang ? state.aiInsight : null;
 
-        if (!res.ok) throw new Error("AI Error");
-        const data = await res.json();
-        setAiInsight(data.choices[0].message.content);
-      } catch (e) {
-        setAiInsight("AI Connection Failed. Check Key.");
-      } finally {
+  const buildAiPayload = () => AIPayload.build({
+    data: state.cycleData, starts: cycleStats.starts, quality: readingQuality, unit: state.profile.unit,
+    phase: getCyclePhase().name, lang: state.profile.lang, includeNotes: state.profile.aiIncludeNotes
+  });
+
+  const requestInsight = async () => {
+    if (!state.profile.aiPreviewAccepted) { setShowAiPreview(true); return; }
+    aiRequest.current?.abort();
+    const controller = new AbortController();
+    aiRequest.current = controller;
+    setAiInsight(null);
+    setAiError(null);
+    setIsThinking(true);
+    const { prompt } = buildAiPayload();
+    let outcome: AIErrorCode | 'ok' = 'ok';
+    try {
+      const text = await AIClient.complete(aiConfig, prompt, { signal: controller.signal, onText: setAiInsight });
+      dispatch({ type: 'SET_AI_INSIGHT', payload: { date: getLocalISODate(), provider: aiConfig.provider, model: aiModel, lang: state.profile.lang, text } });
+    } catch (e) {
+      outcome = e instanceof AIError ? e.code : 'NETWORK';
+      // Cancelled requests were superseded or stopped; stopInsight reports the latter.
+      if (outcome !== 'ABORTED') setAiError(outcome);
+    } finally {
+      if (outcome !== 'NOT_CONFIGURED') {
+        dispatch({ type: 'LOG_AI_REQUEST', payload: { at: Date.now(), provider: aiConfig.provider, model: aiModel, endpoint: resolveConfig(aiConfig)?.baseUrl || '', prompt, outcome } });
+      }
+      if (aiRequest.current === controller) {
+        aiRequest.current = null;
+        setAiInsight(null);
         setIsThinking(false);
       }
-    };
+    }
+  };
 
-    if (activeTab === 'home' && state.profile.aiActive) {
-      // Debounce slightly or just run once per mount/state change
-      fetchAI();
+  const stopInsight = () => {
+    aiRequest.current?.abort();
+    aiRequest.current = null;
+    setAiInsight(null);
+    setIsThinking(false);
+    setAiError('ABORTED');
+  };
+
+  const saveApiKey = () => {
+    const key = (keyDraft || '').trim();
+    if (!key) return;
+    updateSecrets({ ...secrets, aiApiKey: key });
+    setKeyDraft(null);
+  };
+
+  const revokeApiKey = () => {
+    if (!window.confirm(t['settings.keyRevokeConfirm'])) return;
+    updateSecrets({ ...secrets, aiApiKey: null });
+    setKeyDraft(null);
+  };
+
+  const testApiKey = async () => {
+    setKeyTest('testing');
+    try {
+      await AIClient.test(aiConfig);
+      setKeyTest('ok');
+    } catch (e) {
+      setKeyTest(e instanceof AIError ? e.code : 'NETWORK');
     }
-  }, [activeTab, state.profile.aiActive, state.profile.apiKey]); // Reduced dependency churn
+  };
+
+  const acceptAiPreview = () => {
+    setShowAiPreview(false);
+    if (state.profile.aiPreviewAccepted) return requestInsight();
+    // The effect below picks the request up once the flag is stored.
+    dispatch({ type: 'UPDATE_PROFILE', payload: { aiPreviewAccepted: true } });
+  };
+
+  useEffect(() => {
+    if (activeTab !== 'home' || !state.profile.aiActive || !state.profile.aiPreviewAccepted || !isConfigured(aiConfig) || cachedInsight) return;
+    requestInsight();
+    return () => {
+      aiRequest.current?.abort();
+      aiRequest.current = null;
+      setIsThinking(false);
+    };
+  }, [activeTab, state.profile.aiActive, state.profile.aiPreviewAccepted, aiConfig.provider, aiModel, state.profile.lang, !!cachedInsight]);
 
   // Calendar Logic
   const getCalendarDays = () => {
@@ -707,17 +1029,104 @@ export default function HeraApp() {
   };
 
   const theme = THEMES[state.profile.theme];
-  const t = DICTIONARY[state.profile.lang];
+  const weekdays = useMemo(() => Array.from({ length: 7 }, (_, i) => I18n.date(addDays('2024-01-07', i), lang, { weekday: 'narrow' })), [lang]); // 2024-01-07 is a Sunday
+
+  // The stepper works in the profile unit, so the entry is tagged with it.
+  const stepTemperature = (step: number) => {
+    const current = currentDayEntry.temperature ?? BASELINE_TEMP[state.profile.unit];
+    dispatch({ type: 'UPDATE_CYCLE_DAY', payload: {
+      ...currentDayEntry, temperature: Math.round((current + step) * 100) / 100, temperatureUnit: state.profile.unit,
+      // A changed reading has to pass the outlier check again
+      temperatureQuality: { ...currentDayEntry.temperatureQuality, confirmed: false }
+    }});
+  };
+
+  const updateQuality = (patch: Partial<ReadingQuality>) =>
+    dispatch({ type: 'UPDATE_CYCLE_DAY', payload: { ...currentDayEntry, temperatureQuality: { ...currentDayEntry.temperatureQuality, ...patch } } });
+
+  const changeUnit = (unit: Unit) => {
+    if (unit === state.profile.unit) return;
+    const readings = state.cycleData.filter(d => d.temperature !== null).length;
+    if (readings > 0 && !window.confirm(tf('settings.unitConfirm', { count: readings, unit }))) return;
+    dispatch({ type: 'SET_UNIT', payload: unit });
+  };
+
+  const toggleSymptom = (id: string) => {
+    const symptoms = currentDayEntry.symptoms.includes(id) ? currentDayEntry.symptoms.filter(s => s !== id) : [...currentDayEntry.symptoms, id];
+    dispatch({ type: 'UPDATE_CYCLE_DAY', payload: { ...currentDayEntry, symptoms } });
+  };
+
+  const setTrackerValue = (tracker: CustomTracker, value: boolean | number | null) => {
+    const trackers = { ...currentDayEntry.trackers };
+    if (value === null || !isValidTrackerValue(tracker, value)) delete trackers[tracker.id];
+    else trackers[tracker.id] = value;
+    dispatch({ type: 'UPDATE_CYCLE_DAY', payload: { ...currentDayEntry, trackers } });
+  };
+
+  const addTracker = () => {
+    const name = newTracker.name.trim();
+    if (!name) return;
+    if (state.customTrackers.some(tr => tr.name.toLowerCase() === name.toLowerCase())) return window.alert(tf('log.trackerExists', { name }));
+    dispatch({ type: 'ADD_TRACKER', payload: createTracker(name, newTracker.kind, newTracker.unit) });
+    setNewTracker({ name: '', kind: newTracker.kind, unit: '' });
+  };
+
+  const removeTracker = (tracker: CustomTracker) => {
+    if (window.confirm(tf('log.removeTracker', { name: tracker.name }))) dispatch({ type: 'REMOVE_TRACKER', payload: tracker.id });
+  };
+
+  // Symptom labels plus any custom tracker worth surfacing (true booleans, any number)
+  const describeLogged = (day: CycleDay): string[] => [
+    ...day.symptoms.map(id => symptomLabel(id, lang)),
+    ...state.customTrackers.filter(tr => day.trackers[tr.id] !== undefined && day.trackers[tr.id] !== false).map(tr => tr.kind === 'boolean' ? tr.name : `${tr.name} ${formatTrackerValue(tr, day.trackers[tr.id], lang)}`)
+  ];
+
+  const overlay = useMemo(
+    () => CycleOverlay.build(state.cycleData, cycleStats.starts, ovulationHistory, overlayAlign, 6, hiddenCycles),
+    [state.cycleData, cycleStats, ovulationHistory, overlayAlign, hiddenCycles]
+  );
+  const overlayColor = (index: number, current: boolean) => current ? theme.chart : OVERLAY_PALETTE[index % OVERLAY_PALETTE.length];
+
+  const renderOverlayChart = () => {
+    if (!isMounted) return null;
+    if (overlay.cycles.length < 2 || overlay.rows.length < 2) {
+      return <div className="h-full flex items-center justify-center text-slate-300 text-xs font-bold uppercase tracking-wider text-center px-6">{overlayAlign === 'ovulation' ? t['trends.needShifts'] : t['trends.needCycles']}</div>;
+    }
+    return (
+      <ResponsiveContainer width="100%" height="100%">
+        <ComposedChart data={overlay.rows}>
+          <CartesianGrid strokeDasharray="3 3" vertical={false} stroke="#f1f5f9" />
+          <XAxis dataKey="x" type="number" domain={['dataMin', 'dataMax']} tick={{fontSize: 9, fill: '#94a3b8'}} axisLine={false} tickLine={false} tickFormatter={(x: number) => overlayAlign === 'ovulation' ? (x === 0 ? t['trends.ovulationTick'] : x > 0 ? `+${x}` : String(x)) : tf('trends.dayTick', { day: x })} />
+          <YAxis domain={['auto', 'auto']} hide />
+          <Tooltip contentStyle={{ borderRadius: '12px', border: 'none', boxShadow: '0 4px 20px rgba(0,0,0,0.1)' }} itemStyle={{ fontSize: '11px', fontWeight: 'bold' }} labelFormatter={(x: any) => overlayAlign === 'ovulation' ? tf('trends.ovulationLabel', { offset: `${x >= 0 ? '+' : ''}${x}` }) : tf('trends.cycleDayLabel', { day: x })} formatter={(value: any, name: any) => Array.isArray(value) ? [`${I18n.number(value[0], lang, 2)}–${Temperature.format(value[1], state.profile.unit, 2, locale)}`, name] : [typeof value === 'number' ? Temperature.format(value, state.profile.unit, 2, locale) : value, name]} />
+          <Area dataKey="band" name={t['trends.band']} stroke="none" fill="#94a3b8" fillOpacity={0.15} connectNulls isAnimationActive={false} />
+          <Line dataKey="mean" name={t['trends.mean']} stroke="#64748b" strokeDasharray="4 4" strokeWidth={1.5} dot={false} connectNulls isAnimationActive={false} />
+          {overlayAlign === 'ovulation' && <ReferenceLine x={0} stroke="#14b8a6" strokeDasharray="3 3" />}
+          {overlay.cycles.map((c, i) => !hiddenCycles.includes(c.key) && (
+            <Line key={c.key} dataKey={c.key} name={formatDate(c.start, locale)} stroke={overlayColor(i, c.current)} strokeWidth={c.current ? 3 : 1.5} strokeOpacity={c.current ? 1 : 0.7} dot={false} connectNulls isAnimationActive={false} />
+          ))}
+        </ComposedChart>
+      </ResponsiveContainer>
+    );
+  };
 
   const renderChart = () => {
     if (!isMounted) return null;
-    const data = state.cycleData.sort((a,b) => a.date.localeCompare(b.date)).slice(-30).map(d => ({
-      date: formatDate(d.date),
-      temp: d.temperature,
-      flow: d.flow === 'none' ? 0 : d.flow === 'spotting' ? 1 : d.flow === 'light' ? 2 : d.flow === 'medium' ? 3 : 4
-    }));
+    const data = [...state.cycleData].sort((a,b) => a.date.localeCompare(b.date)).slice(-30).map(d => {
+      const logged = describeLogged(d);
+      const excluded = readingQuality.get(d.date)?.excluded;
+      return {
+        date: formatDate(d.date, locale),
+        temp: excluded ? null : d.temperature,
+        flagged: excluded ? d.temperature : null,
+        flow: d.flow === 'none' ? 0 : d.flow === 'spotting' ? 1 : d.flow === 'light' ? 2 : d.flow === 'medium' ? 3 : 4,
+        // Plotted on its own hidden axis so symptom days sit in a row above the curve
+        logged: logged.join(', '),
+        symptomMark: logged.length ? 1 : null
+      };
+    });
 
-    if (data.length < 2) return <div className="h-full flex items-center justify-center text-slate-300 text-xs font-bold uppercase tracking-wider">Log more data to see chart</div>;
+    if (data.length < 2) return <div className="h-full flex items-center justify-center text-slate-300 text-xs font-bold uppercase tracking-wider">{t['trends.needData']}</div>;
 
     return (
       <ResponsiveContainer width="100%" height="100%">
@@ -725,11 +1134,15 @@ export default function HeraApp() {
           <CartesianGrid strokeDasharray="3 3" vertical={false} stroke="#f1f5f9" />
           <XAxis dataKey="date" tick={{fontSize: 9, fill: '#94a3b8'}} axisLine={false} tickLine={false} interval={4} />
           <YAxis domain={['auto', 'auto']} hide />
-          <Tooltip contentStyle={{ borderRadius: '12px', border: 'none', boxShadow: '0 4px 20px rgba(0,0,0,0.1)' }} itemStyle={{ fontSize: '12px', fontWeight: 'bold', color: '#1e293b' }} />
+          <YAxis yAxisId="events" domain={[0, 1.1]} hide />
+          <Tooltip contentStyle={{ borderRadius: '12px', border: 'none', boxShadow: '0 4px 20px rgba(0,0,0,0.1)' }} itemStyle={{ fontSize: '12px', fontWeight: 'bold', color: '#1e293b' }} formatter={(value: any, name: any, item: any) => name === t.symptoms ? [item.payload.logged, name] : [value, name]} />
           <Bar dataKey="flow" barSize={4} radius={[4,4,0,0]}>
             {data.map((entry, index) => <Cell key={`cell-${index}`} fill={theme.chart} opacity={0.2} />)}
           </Bar>
-          <Line type="monotone" dataKey="temp" stroke={theme.chart} strokeWidth={3} dot={{r: 2, fill: 'white', strokeWidth: 2}} activeDot={{r: 5}} />
+          {currentOvulation?.coverline != null && <ReferenceLine y={currentOvulation.coverline} stroke="#94a3b8" strokeDasharray="4 4" label={{ position: 'insideTopLeft', value: tf('trends.coverline', { value: Temperature.format(currentOvulation.coverline, state.profile.unit, 2, locale) }), fill: '#94a3b8', fontSize: 9, fontWeight: 'bold' }} />}
+          <Line type="monotone" dataKey="temp" name={`°${state.profile.unit}`} stroke={theme.chart} strokeWidth={3} dot={{r: 2, fill: 'white', strokeWidth: 2}} activeDot={{r: 5}} connectNulls />
+          <Scatter dataKey="flagged" name={t['trends.flagged']} fill="#cbd5e1" />
+          <Scatter yAxisId="events" name={t.symptoms} dataKey="symptomMark" fill="#f59e0b" />
         </ComposedChart>
       </ResponsiveContainer>
     );
@@ -740,43 +1153,73 @@ export default function HeraApp() {
   return (
     <div className={`h-[100dvh] ${theme.bg} flex justify-center overflow-hidden font-sans overscroll-none`}>
       {/* Global Waiver Modal */}
-      {showWaiver && <LiabilityModal onClose={() => setShowWaiver(false)} />}
+      {showWaiver && <LiabilityModal t={t} onClose={() => setShowWaiver(false)} />}
 
       {status === 'auth' && (
         <AuthScreen 
           mode={authMode} 
           onSubmit={handleAuth} 
+          onRecover={handleRecover}
           error={authError} 
+          progress={authProgress}
           onShowWaiver={() => setShowWaiver(true)} 
           onRestore={handleRestoreBackup}
+          t={t}
         />
       )}
 
       {status === 'app' && (
         <>
+        {saveStatus === 'error' && <div className="fixed top-6 left-1/2 -translate-x-1/2 w-[calc(100%-3rem)] max-w-sm bg-rose-600 text-white px-5 py-3 rounded-2xl shadow-2xl z-50 flex items-center gap-3 animate-in fade-in slide-in-from-top-2"><ShieldAlert size={18} className="shrink-0" /> <span className="text-xs font-bold flex-1">{t[`storage.error.${saveError}` as const]}</span><button onClick={saveToVault} className="text-[10px] font-black uppercase tracking-wider underline">{t['common.retry']}</button></div>}
         {saveStatus === 'saved' && <div className="fixed top-6 left-1/2 -translate-x-1/2 bg-slate-900 text-white px-6 py-3 rounded-full shadow-2xl z-50 flex items-center gap-2 animate-in fade-in slide-in-from-top-2"><Check size={16} className="text-emerald-400" /> <span className="text-xs font-bold">{t.saved}</span></div>}
 
+        {recoveryCodes && <RecoveryCodesModal t={t} codes={recoveryCodes} onClose={() => setRecoveryCodes(null)} />}
+
+        {showAiPreview && (
+          <AIPreviewModal 
+            t={t}
+            prompt={buildAiPayload().prompt}
+            includeNotes={state.profile.aiIncludeNotes}
+            onToggleNotes={() => dispatch({type: 'UPDATE_PROFILE', payload: { aiIncludeNotes: !state.profile.aiIncludeNotes }})}
+            onSend={acceptAiPreview}
+            onClose={() => setShowAiPreview(false)}
+          />
+        )}
+
         {/* SUMMARY MODAL */}
         {selectedSummary && (
             <div className="fixed inset-0 bg-slate-900/60 backdrop-blur-sm z-50 flex items-center justify-center p-6 animate-in fade-in zoom-in duration-200" onClick={()=>setSelectedSummary(null)}>
                 <div className="bg-white rounded-3xl p-6 max-w-xs w-full shadow-2xl" onClick={e=>e.stopPropagation()}>
                     <div className="flex justify-between items-center mb-4">
-                        <h3 className="font-black text-lg text-slate-800">{formatDate(selectedSummary)}</h3>
+                        <h3 className="font-black text-lg text-slate-800">{formatDate(selectedSummary, locale)}</h3>
                         <button onClick={()=>setSelectedSummary(null)} className="p-1 hover:bg-slate-100 rounded-full"><X size={20} className="text-slate-400"/></button>
                     </div>
                     {(() => {
                         const day = state.cycleData.find(d => d.date === selectedSummary);
-                        if (!day) return <p className="text-sm text-slate-400 text-center py-4 italic">No data logged for this day.</p>;
+                        if (!day) return <p className="text-sm text-slate-400 text-center py-4 italic">{t['summary.empty']}</p>;
                         return (
                             <div className="space-y-3">
-                                {day.temperature && <div className="flex justify-between text-sm p-2 bg-slate-50 rounded-lg"><span className="text-slate-500 font-bold">Temp</span><span className="font-bold text-slate-800">{day.temperature.toFixed(1)}°{state.profile.unit}</span></div>}
-                                {day.flow !== 'none' && <div className="flex justify-between text-sm p-2 bg-rose-50 rounded-lg"><span className="text-rose-500 font-bold">Flow</span><span className="font-bold capitalize text-slate-800">{day.flow}</span></div>}
-                                {day.mucus !== 'none' && <div className="flex justify-between text-sm p-2 bg-teal-50 rounded-lg"><span className="text-teal-600 font-bold">Mucus</span><span className="font-bold capitalize text-slate-800">{day.mucus}</span></div>}
+                                {day.temperature && <div className="flex justify-between text-sm p-2 bg-slate-50 rounded-lg"><span className="text-slate-500 font-bold">{t['summary.temp']}</span><span className="font-bold text-slate-800">{Temperature.format(day.temperature, day.temperatureUnit, 1, locale)}</span></div>}
+                                {(readingQuality.get(day.date)?.flags.length ?? 0) > 0 && <div className="text-[10px] font-bold text-amber-600 uppercase tracking-wide px-2">{tf('summary.excluded', { flags: readingQuality.get(day.date)!.flags.map(f => t[QUALITY_FLAG_LABEL[f]]).join(', ') })}</div>}
+                                {day.flow !== 'none' && <div className="flex justify-between text-sm p-2 bg-rose-50 rounded-lg"><span className="text-rose-500 font-bold">{t['summary.flow']}</span><span className="font-bold text-slate-800">{t[`flow.${day.flow}` as const]}</span></div>}
+                                {day.mucus !== 'none' && <div className="flex justify-between text-sm p-2 bg-teal-50 rounded-lg"><span className="text-teal-600 font-bold">{t['summary.mucus']}</span><span className="font-bold text-slate-800">{t[`mucus.${day.mucus}` as const]}</span></div>}
+                                {day.lhTest !== 'negative' && <div className="flex justify-between text-sm p-2 bg-amber-50 rounded-lg"><span className="text-amber-600 font-bold">{t['summary.lh']}</span><span className="font-bold text-slate-800">{t[`lhTest.${day.lhTest}` as const]}</span></div>}
+                                {day.cervix !== 'low_hard' && <div className="flex justify-between text-sm p-2 bg-indigo-50 rounded-lg"><span className="text-indigo-500 font-bold">{t['summary.cervix']}</span><span className="font-bold text-slate-800">{t[`cervix.${day.cervix}` as const]}</span></div>}
+                                {day.pregnancyTest !== 'none' && <div className="flex justify-between text-sm p-2 bg-rose-50 rounded-lg"><span className="text-rose-500 font-bold">{t.pregTest}</span><span className="font-bold text-slate-800">{t[`pregTest.${day.pregnancyTest}` as const]}</span></div>}
+                                {day.stressLevel > 1 && <div className="flex justify-between text-sm p-2 bg-slate-50 rounded-lg"><span className="text-slate-500 font-bold">{t['summary.stress']}</span><span className="font-bold text-slate-800">{day.stressLevel}/10</span></div>}
+                                {day.symptoms.length > 0 && (
+                                    <div className="flex flex-wrap gap-1.5">
+                                        {day.symptoms.map(id => <span key={id} className="px-2 py-1 bg-amber-50 text-amber-700 rounded-lg text-[10px] font-bold uppercase">{symptomLabel(id, lang)}</span>)}
+                                    </div>
+                                )}
+                                {state.customTrackers.filter(tr => day.trackers[tr.id] !== undefined).map(tr => (
+                                    <div key={tr.id} className="flex justify-between text-sm p-2 bg-amber-50 rounded-lg"><span className="text-amber-700 font-bold">{tr.name}</span><span className="font-bold text-slate-800">{formatTrackerValue(tr, day.trackers[tr.id], lang)}</span></div>
+                                ))}
                                 {day.notes && <div className="mt-2 p-3 bg-slate-50 rounded-xl text-xs text-slate-600 italic border border-slate-100">"{day.notes}"</div>}
                             </div>
                         );
                     })()}
-                    <button onClick={()=>{setSelectedDate(selectedSummary); setActiveTab('log'); setSelectedSummary(null);}} className="w-full mt-4 py-3 bg-slate-900 text-white rounded-xl text-xs font-bold shadow-lg hover:scale-[1.02] transition-transform">Edit Entry</button>
+                    <button onClick={()=>{setSelectedDate(selectedSummary); setActiveTab('log'); setSelectedSummary(null);}} className="w-full mt-4 py-3 bg-slate-900 text-white rounded-xl text-xs font-bold shadow-lg hover:scale-[1.02] transition-transform">{t['summary.edit']}</button>
                 </div>
             </div>
         )}
@@ -790,11 +1233,11 @@ export default function HeraApp() {
               </div>
               <div>
                 <h1 className="font-black text-xl text-slate-800 leading-none">Hera</h1>
-                <p className="text-[10px] font-bold text-slate-400 uppercase tracking-wider">Health</p>
+                <p className="text-[10px] font-bold text-slate-400 uppercase tracking-wider">{t['common.health']}</p>
               </div>
             </div>
             <div className="flex items-center gap-3">
-               <button onClick={() => { setStatus('auth'); passwordRef.current = null; }} className="text-slate-300 hover:text-rose-500"><Lock size={20} /></button>
+               <button onClick={() => { setStatus('auth'); passwordRef.current = null; sessionRef.current = null; setSecrets(EMPTY_SECRETS); setRecoveryCodes(null); }} className="text-slate-300 hover:text-rose-500"><Lock size={20} /></button>
                <button onClick={() => fileInputRef.current?.click()} className="w-10 h-10 rounded-full bg-slate-100 border-2 border-white shadow-sm overflow-hidden flex items-center justify-center hover:opacity-80 transition-opacity">
                   {state.profile.avatar ? <img src={state.profile.avatar} className="w-full h-full object-cover" /> : <User size={20} className="text-slate-400" />}
                </button>
@@ -809,42 +1252,224 @@ export default function HeraApp() {
                 <div className={`p-6 rounded-3xl bg-gradient-to-br ${theme.primary} text-white shadow-xl relative overflow-hidden`}>
                   <div className="relative z-10">
                     <div className="flex justify-between items-start mb-4">
-                      <span className="text-[10px] font-bold uppercase tracking-widest opacity-80">Current Phase</span>
+                      <span className="text-[10px] font-bold uppercase tracking-widest opacity-80">{t['home.currentPhase']}</span>
                     </div>
                     <h2 className="text-3xl font-black mb-1">{getCyclePhase().name}</h2>
-                    <p className="text-sm font-medium opacity-90 mb-6">
-                      Cycle Day {cycleStats.lastStart ? Math.floor((new Date().getTime() - new Date(cycleStats.lastStart).getTime())/86400000) + 1 : 1}
+                    {modeState.mode === 'pregnant' && modeState.gestation ? (
+                      <>
+                        <p className="text-sm font-medium opacity-90 mb-6">{tf('home.gestation', { weeks: modeState.gestation.weeks, days: modeState.gestation.extraDays })}</p>
+                        <div className="grid grid-cols-2 gap-4">
+                          <div className="bg-white/20 backdrop-blur-md rounded-xl p-3">
+                            <div className="text-[10px] uppercase font-bold opacity-70 mb-1">{t['home.dueDate']}</div>
+                            <div className="font-bold text-lg">{I18n.date(modeState.gestation.dueDate, lang, {month:'short', day:'numeric', year:'numeric'})}</div>
+                          </div>
+                          <div className="bg-white/20 backdrop-blur-md rounded-xl p-3">
+                            <div className="text-[10px] uppercase font-bold opacity-70 mb-1">{t['home.trimester']}</div>
+                            <div className="font-bold text-lg">{modeState.gestation.weeks < 14 ? t['home.trimester1'] : modeState.gestation.weeks < 28 ? t['home.trimester2'] : t['home.trimester3']}</div>
+                          </div>
+                        </div>
+                        <button onClick={startNewCycle} className="mt-4 text-[10px] font-bold uppercase tracking-widest opacity-80 hover:opacity-100 underline">{t['home.endPregnancy']}</button>
+                      </>
+                    ) : predictionsSuspended ? (
+                      <>
+                        <p className="text-sm font-medium opacity-90 mb-4">{modeState.reason && tf(modeState.reason, { days: modeState.mode === 'late' ? modeState.daysLate : modeState.highPhaseDays })} · {tf('home.cycleDay', { day: cycleStats.lastStart ? Math.floor((new Date().getTime() - new Date(cycleStats.lastStart).getTime())/86400000) + 1 : 1 })}</p>
+                        <p className="text-[11px] opacity-80 mb-4 leading-relaxed">{t['home.paused']}</p>
+                        <div className="grid grid-cols-3 gap-2">
+                          <button onClick={() => { setSelectedDate(getLocalISODate()); setActiveTab('log'); }} className="bg-white/20 backdrop-blur-md rounded-xl p-3 text-[10px] font-bold uppercase">{t['home.logTest']}</button>
+                          <button onClick={markPregnant} className="bg-white/20 backdrop-blur-md rounded-xl p-3 text-[10px] font-bold uppercase">{t['home.pregnant']}</button>
+                          <button onClick={startNewCycle} className="bg-white/20 backdrop-blur-md rounded-xl p-3 text-[10px] font-bold uppercase">{t['home.newCycle']}</button>
+                        </div>
+                      </>
+                    ) : (
+                    <>
+                    <p className={`text-sm font-medium opacity-90 ${currentOvulation?.confirmed ? 'mb-1' : 'mb-6'}`}>
+                      {tf('home.cycleDay', { day: cycleStats.lastStart ? Math.floor((new Date().getTime() - new Date(cycleStats.lastStart).getTime())/86400000) + 1 : 1 })}
                     </p>
+                    {currentOvulation?.confirmed && (
+                      <p className="text-[11px] font-bold opacity-90 mb-6 flex items-center gap-1">
+                        <Check size={12} strokeWidth={3} /> {tf('home.ovulationConfirmed', { day: currentOvulation.ovulationCycleDay ?? '' })}
+                        {currentOvulation.mucusAgreement === 'agrees' && t['home.mucusAgrees']}
+                        {currentOvulation.mucusAgreement === 'conflicts' && t['home.mucusConflicts']}
+                      </p>
+                    )}
                     <div className="grid grid-cols-2 gap-4">
                       <div className="bg-white/20 backdrop-blur-md rounded-xl p-3">
-                        <div className="text-[10px] uppercase font-bold opacity-70 mb-1">Next Period</div>
-                        <div className="font-bold text-lg">{predictions.nextPeriod ? new Date(predictions.nextPeriod).toLocaleDateString('en-US', {month:'short', day:'numeric'}) : '--'}</div>
+                        <div className="text-[10px] uppercase font-bold opacity-70 mb-1">{t['home.nextPeriod']}</div>
+                        <div className="font-bold text-lg">{predictions.nextPeriod ? I18n.date(predictions.nextPeriod, lang) : '--'}</div>
+                        {predictions.nextPeriodRange && <div className="text-[10px] font-bold opacity-70">{formatRange(predictions.nextPeriodRange, lang)}</div>}
                       </div>
                       <div className="bg-white/20 backdrop-blur-md rounded-xl p-3">
-                        <div className="text-[10px] uppercase font-bold opacity-70 mb-1">Fertile Window</div>
-                        <div className="font-bold text-lg">{predictions.fertileWindow.length > 0 ? new Date(predictions.fertileWindow[0]).toLocaleDateString('en-US', {month:'short', day:'numeric'}) : '--'}</div>
+                        <div className="text-[10px] uppercase font-bold opacity-70 mb-1">{predictions.ovulationConfirmed ? t['home.ovulated'] : t['home.fertileWindow']}</div>
+                        <div className="font-bold text-lg">{predictions.ovulationConfirmed && predictions.ovulation ? I18n.date(predictions.ovulation, lang) : fertility?.window ? I18n.date(fertility.window.start, lang) : '--'}</div>
+                        {!predictions.ovulationConfirmed && fertility?.peak && <div className="text-[10px] font-bold opacity-70">{tf('home.peak', { percent: I18n.percent(fertility.peak.probability, lang), date: I18n.date(fertility.peak.date, lang) })}</div>}
                       </div>
                     </div>
+                    </>
+                    )}
                   </div>
                   <div className="absolute top-0 right-0 w-32 h-32 bg-white opacity-10 rounded-bl-full pointer-events-none"></div>
                   <Sparkles className="absolute -bottom-4 -right-4 w-40 h-40 text-white opacity-10 pointer-events-none" />
                 </div>
                 <div className="bg-white p-5 rounded-3xl shadow-[0_8px_30px_rgb(0,0,0,0.04)] border border-slate-50">
                   <div className="flex items-center justify-between mb-4">
-                    <h3 className="font-bold text-slate-700 flex items-center gap-2"><Activity size={16} className={theme.accent}/> Trends</h3>
-                    <div className="text-[10px] font-bold text-slate-400 bg-slate-50 px-2 py-1 rounded-full">30 Days</div>
+                    <h3 className="font-bold text-slate-700 flex items-center gap-2"><Activity size={16} className={theme.accent}/> {t['trends.title']}</h3>
+                    <div className="flex bg-slate-100 rounded-lg p-1">
+                      {([['calendar', t['trends.days']], ['overlay', t['trends.cycles']]] as ['calendar' | 'overlay', string][]).map(([mode, label]) => (
+                        <button key={mode} onClick={() => setTrendMode(mode)} className={`px-3 py-1 rounded-md text-[10px] font-bold transition-all ${trendMode === mode ? 'bg-white shadow-sm text-slate-900' : 'text-slate-400'}`}>{label}</button>
+                      ))}
+                    </div>
+                  </div>
+                  <div className="h-40 w-full">{trendMode === 'overlay' ? renderOverlayChart() : renderChart()}</div>
+                  {trendMode === 'overlay' && (
+                    <div className="mt-3 space-y-2">
+                      <div className="flex bg-slate-50 rounded-lg p-1">
+                        {([['cycle_day', t['trends.alignCycleDay']], ['ovulation', t['trends.alignOvulation']]] as [OverlayAlignment, string][]).map(([align, label]) => (
+                          <button key={align} onClick={() => setOverlayAlign(align)} className={`flex-1 py-1 rounded-md text-[10px] font-bold transition-all ${overlayAlign === align ? 'bg-white shadow-sm text-slate-900' : 'text-slate-400'}`}>{label}</button>
+                        ))}
+                      </div>
+                      <div className="flex flex-wrap gap-1.5">
+                        {overlay.cycles.map((c, i) => {
+                          const hidden = hiddenCycles.includes(c.key);
+                          return (
+                            <button key={c.key} onClick={() => setHiddenCycles(h => hidden ? h.filter(k => k !== c.key) : [...h, c.key])} className={`flex items-center gap-1.5 px-2 py-1 rounded-full text-[10px] font-bold transition-all ${hidden ? 'bg-slate-50 text-slate-300' : 'bg-slate-100 text-slate-600'}`}>
+                              <span className="w-2 h-2 rounded-full" style={{ backgroundColor: hidden ? '#e2e8f0' : overlayColor(i, c.current) }}></span>
+                              {c.current ? t['trends.current'] : formatDate(c.start, locale)}
+                            </button>
+                          );
+                        })}
+                      </div>
+                    </div>
+                  )}
+                </div>
+                {cycleStats.stats.count > 0 && (
+                  <div className="bg-white p-5 rounded-3xl shadow-[0_8px_30px_rgb(0,0,0,0.04)] border border-slate-50">
+                    <div className="flex items-center justify-between mb-4">
+                      <h3 className="font-bold text-slate-700 flex items-center gap-2"><BarChart3 size={16} className={theme.accent}/> {t['stats.title']}</h3>
+                      <div className="text-[10px] font-bold text-slate-400 bg-slate-50 px-2 py-1 rounded-full">{tf('stats.count', { count: cycleStats.stats.count })}</div>
+                    </div>
+                    <div className="grid grid-cols-3 gap-2 mb-3">
+                      {[
+                        [t['stats.mean'], cycleStats.stats.mean],
+                        [t['stats.median'], cycleStats.stats.median],
+                        [t['stats.stdDev'], cycleStats.stats.stdDev],
+                        [t['stats.shortest'], cycleStats.stats.min],
+                        [t['stats.longest'], cycleStats.stats.max],
+                        [t['stats.luteal'], cycleStats.stats.lutealMean]
+                      ].map(([label, value]) => (
+                        <div key={label as string} className="bg-slate-50 rounded-xl p-2 text-center">
+                          <div className="text-[9px] font-bold text-slate-400 uppercase tracking-wider">{label}</div>
+                          <div className="font-black text-slate-800 tabular-nums">{typeof value === 'number' ? I18n.number(value, lang) : '--'}</div>
+                        </div>
+                      ))}
+                    </div>
+                    <div className="flex justify-between text-[10px] font-bold text-slate-500 uppercase tracking-wide">
+                      <span>{t[REGULARITY_LABEL[cycleStats.stats.regularity]]}</span>
+                      <span>{t[TREND_LABEL[cycleStats.stats.trend.direction]]}{cycleStats.stats.trend.direction !== 'insufficient_data' && tf('stats.trendWindow', { count: cycleStats.stats.trend.window })}</span>
+                    </div>
+                  </div>
+                )}
+                <div className="bg-white p-5 rounded-3xl shadow-[0_8px_30px_rgb(0,0,0,0.04)] border border-slate-50">
+                  <div className="flex items-center justify-between mb-3">
+                    <h3 className="font-bold text-slate-700 flex items-center gap-2"><Gauge size={16} className={theme.accent}/> {t.engine}</h3>
+                    <div className="text-[10px] font-bold text-slate-400 bg-slate-50 px-2 py-1 rounded-full">{formatDate(selectedDate, locale)}</div>
+                  </div>
+                  <div className="flex items-center gap-3 mb-3">
+                    <span className={`px-3 py-1 rounded-full text-[10px] font-black tracking-widest ${ENGINE_STATUS_STYLE[engineReadout.status]}`}>{t[`engine.status.${engineReadout.status}` as const]}</span>
+                    <span className="text-xs font-bold text-slate-400 tabular-nums">{engineReadout.score} / 10000</span>
+                    <span className="text-xs font-bold text-teal-600 tabular-nums ml-auto">{tf('engine.chance', { percent: I18n.percent(engineReadout.probability, lang) })}</span>
                   </div>
-                  <div className="h-40 w-full">{renderChart()}</div>
+                  <p className="text-sm text-slate-600 leading-relaxed mb-3">{engineReadout.actionDirective}</p>
+                  <div className="text-[10px] font-mono text-slate-400 bg-slate-50 rounded-lg px-3 py-2">{engineReadout.vectorAnalysis}</div>
                 </div>
+                {engineHistory.length >= 2 && (
+                  <div className="bg-white p-5 rounded-3xl shadow-[0_8px_30px_rgb(0,0,0,0.04)] border border-slate-50">
+                    <div className="flex items-center justify-between mb-2">
+                      <h3 className="font-bold text-slate-700 flex items-center gap-2"><Activity size={16} className={theme.accent}/> {t['engine.history']}</h3>
+                      <div className="text-[10px] font-bold text-slate-400 bg-slate-50 px-2 py-1 rounded-full">{tf('engine.historyDays', { count: engineHistory.length })}</div>
+                    </div>
+                    <BiometricChart data={engineHistory} unit={state.profile.unit} coverline={currentOvulation?.coverline} onSelectDate={setSelectedSummary} lang={lang} />
+                    <div className="mt-2 flex justify-center gap-3 flex-wrap">
+                      {(Object.keys(PHASE_FILL) as CyclePhase[]).map(phase => (
+                        <div key={phase} className="flex items-center gap-1.5">
+                          <div className="w-2.5 h-2.5 rounded-full" style={{ backgroundColor: PHASE_FILL[phase] }}></div>
+                          <span className="text-[10px] font-bold text-slate-400 uppercase tracking-wide">{t[PHASE_LABEL[phase]]}</span>
+                        </div>
+                      ))}
+                    </div>
+                    <p className="text-[10px] text-slate-400 text-center mt-2">{t['engine.historyHint']}</p>
+                  </div>
+                )}
+                {fertility && upcomingFertility.length > 0 && (
+                  <div className="bg-white p-5 rounded-3xl shadow-[0_8px_30px_rgb(0,0,0,0.04)] border border-slate-50">
+                    <div className="flex items-center justify-between mb-4">
+                      <h3 className="font-bold text-slate-700 flex items-center gap-2"><Droplet size={16} className={theme.accent}/> {t['fertility.title']}</h3>
+                      <div className="text-[10px] font-bold text-slate-400 bg-slate-50 px-2 py-1 rounded-full">{t['fertility.next14']}</div>
+                    </div>
+                    <div className="flex items-end gap-1 h-24">
+                      {upcomingFertility.map(d => (
+                        <div key={d.date} className="flex-1 flex flex-col items-center justify-end h-full" title={`${formatDate(d.date, locale)}: ${I18n.percent(d.probability, lang)}`}>
+                          <div className={`w-full rounded-t-md ${d.cycle === 'next' ? 'bg-teal-200' : 'bg-teal-400'}`} style={{ height: `${Math.max(2, (d.probability / 0.5) * 100)}%` }}></div>
+                          <span className="text-[8px] font-bold text-slate-300 mt-1 tabular-nums">{parseInt(d.date.split('-')[2])}</span>
+                        </div>
+                      ))}
+                    </div>
+                    <details className="mt-3 text-[10px] text-slate-500">
+                      <summary className="font-bold text-slate-400 uppercase tracking-wider cursor-pointer">{t['fertility.assumptions']}</summary>
+                      <div className="mt-2 p-3 bg-slate-50 rounded-xl font-mono leading-relaxed space-y-0.5">
+                        <div>{tf('fertility.lifeStage', { stage: fertility.assumptions.lifeStage })}{!fertility.assumptions.projecting && t['fertility.noProjection']}</div>
+                        <div>{tf('fertility.source', { source: fertility.assumptions.source })}</div>
+                        <div>{tf('fertility.ovulation', { mean: fertility.assumptions.ovulationMean, sd: fertility.assumptions.ovulationSd })}</div>
+                        <div>{tf('fertility.nextOvulation', { mean: fertility.assumptions.nextOvulationMean, sd: fertility.assumptions.nextOvulationSd })}</div>
+                        <div>{tf('fertility.cycle', { length: fertility.assumptions.cycleLength, sd: fertility.assumptions.cycleLengthSd, count: fertility.assumptions.cyclesUsed })}</div>
+                        <div>{tf('fertility.luteal', { length: fertility.assumptions.lutealLength, sd: fertility.assumptions.lutealSd })}</div>
+                        <div>{tf('fertility.dayCurve', { curve: Object.entries(fertility.assumptions.baseCurve).map(([k, v]) => `${k}:${v}`).join(' ') })}</div>
+                        <div>{tf('fertility.mucusFactors', { factors: Object.entries(fertility.assumptions.mucusFactors).filter(([k]) => k !== 'none').map(([k, v]) => `${k} ${v}`).join(', ') })}</div>
+                        <div>{tf('fertility.postShift', { factor: fertility.assumptions.postShiftFactor, threshold: I18n.percent(fertility.assumptions.threshold, lang) })}</div>
+                      </div>
+                    </details>
+                  </div>
+                )}
                 <div className="bg-white p-5 rounded-3xl shadow-[0_8px_30px_rgb(0,0,0,0.04)] border border-slate-50">
-                    <div className="flex items-center gap-2 mb-3"><BrainCircuit size={18} className={theme.accent}/><span className="font-bold text-slate-700">AI Insight</span></div>
-                    <p className="text-sm text-slate-600 leading-relaxed whitespace-pre-line">
+                    <div className="flex items-center gap-2 mb-3"><Sparkles size={18} className={theme.accent}/><span className="font-bold text-slate-700">{t['patterns.title']}</span></div>
+                    {patterns.length > 0 ? (
+                      <ul className="space-y-2 mb-1">
+                        {patterns.map(p => (
+                          <li key={p.id} className="flex gap-2 text-sm text-slate-600 leading-snug">
+                            <span className={`mt-1.5 w-1.5 h-1.5 rounded-full shrink-0 ${p.kind === 'lag' ? 'bg-amber-400' : p.kind === 'phase' ? 'bg-indigo-400' : 'bg-teal-400'}`}></span>
+                            <span>{p.text}</span>
+                          </li>
+                        ))}
+                      </ul>
+                    ) : (
+                      <p className="text-sm text-slate-400 leading-relaxed">{t['patterns.empty']}</p>
+                    )}
+                    <div className="text-[10px] font-bold text-slate-300 uppercase tracking-wider mt-2">{t['patterns.local']}</div>
+                    <div className="border-t border-slate-50 mt-4 pt-4">
+                      <div className="flex items-center gap-2 mb-3">
+                        <BrainCircuit size={18} className={theme.accent}/><span className="font-bold text-slate-700">{t['ai.title']}</span>
                         {isThinking ? (
-                          <span className="flex items-center gap-2 animate-pulse text-slate-400"><Loader2 size={14} className="animate-spin"/> Analysis in progress...</span>
-                        ) : (
-                          aiInsight || (state.profile.aiActive ? "Waiting for data..." : "Enable AI in Settings for advanced analysis.")
+                          <button onClick={stopInsight} className="ml-auto flex items-center gap-1 text-[10px] font-bold text-slate-400 uppercase"><Square size={10}/> {t['ai.stop']}</button>
+                        ) : state.profile.aiActive && isConfigured(aiConfig) && (
+                          <button onClick={requestInsight} className="ml-auto flex items-center gap-1 text-[10px] font-bold text-slate-400 uppercase"><RefreshCw size={10}/> {aiError ? t['ai.retry'] : t['ai.refresh']}</button>
                         )}
-                    </p>
+                      </div>
+                      <p className="text-sm text-slate-600 leading-relaxed whitespace-pre-line">
+                          {isThinking && !aiInsight ? (
+                            <span className="flex items-center gap-2 animate-pulse text-slate-400"><Loader2 size={14} className="animate-spin"/> {t['ai.thinking']}</span>
+                          ) : isThinking ? (
+                            aiInsight
+                          ) : aiError ? (
+                            <span className="text-rose-500 font-bold">{t[`ai.error.${aiError}` as const]}</span>
+                          ) : cachedInsight ? (
+                            cachedInsight.text
+                          ) : state.profile.aiActive && isConfigured(aiConfig) && !state.profile.aiPreviewAccepted ? (
+                            <button onClick={() => setShowAiPreview(true)} className="text-xs font-bold text-slate-500 underline">{t['ai.preview.open']}</button>
+                          ) : (
+                            !state.profile.aiActive ? t['ai.disabled'] : isConfigured(aiConfig) ? t['ai.waiting'] : t['ai.error.NOT_CONFIGURED']
+                          )}
+                      </p>
+                      {cachedInsight && !isThinking && !aiError && <div className="text-[10px] font-bold text-slate-300 uppercase tracking-wider mt-2">{tf('ai.cached', { model: cachedInsight.model })}</div>}
+                    </div>
                 </div>
               </div>
             )}
@@ -855,24 +1480,113 @@ export default function HeraApp() {
                 <div className="flex items-center justify-between bg-white p-4 rounded-2xl shadow-sm border border-slate-50">
                   <button onClick={() => setSelectedDate(curr => { const d = new Date(curr); d.setDate(d.getDate() - 1); return d.toISOString().split('T')[0]; })}><ChevronLeft className="text-slate-400" /></button>
                   <div className="text-center">
-                    <div className={`text-[10px] font-bold uppercase tracking-widest ${theme.accent}`}>Logging</div>
-                    <div className="font-black text-lg text-slate-800">{new Date(selectedDate).toLocaleDateString('en-US', { weekday: 'short', month: 'short', day: 'numeric'})}</div>
+                    <div className={`text-[10px] font-bold uppercase tracking-widest ${theme.accent}`}>{t['log.logging']}</div>
+                    <div className="font-black text-lg text-slate-800">{I18n.date(selectedDate, lang, { weekday: 'short', month: 'short', day: 'numeric'})}</div>
                   </div>
                   <button onClick={() => setSelectedDate(curr => { const d = new Date(curr); d.setDate(d.getDate() + 1); return d.toISOString().split('T')[0]; })}><ChevronRight className="text-slate-400" /></button>
                 </div>
                 <LogCard title={t.temp}>
                   <div className="flex items-center justify-between">
-                    <button className="w-12 h-12 bg-slate-50 rounded-xl flex items-center justify-center text-slate-600 active:scale-90 transition-transform" onClick={() => dispatch({ type: 'UPDATE_CYCLE_DAY', payload: { ...currentDayEntry, temperature: (currentDayEntry.temperature || 36.5) - 0.1 }})}><Minus size={20}/></button>
-                    <div className="text-4xl font-black text-slate-800 tabular-nums">{(currentDayEntry.temperature || 36.5).toFixed(1)}<span className="text-lg text-slate-400 font-bold">°{state.profile.unit}</span></div>
-                    <button className="w-12 h-12 bg-slate-50 rounded-xl flex items-center justify-center text-slate-600 active:scale-90 transition-transform" onClick={() => dispatch({ type: 'UPDATE_CYCLE_DAY', payload: { ...currentDayEntry, temperature: (currentDayEntry.temperature || 36.5) + 0.1 }})}><Plus size={20}/></button>
+                    <button className="w-12 h-12 bg-slate-50 rounded-xl flex items-center justify-center text-slate-600 active:scale-90 transition-transform" onClick={() => stepTemperature(-0.1)}><Minus size={20}/></button>
+                    <div className="text-4xl font-black text-slate-800 tabular-nums">{I18n.number(currentDayEntry.temperature ?? BASELINE_TEMP[state.profile.unit], lang, 1)}<span className="text-lg text-slate-400 font-bold">°{state.profile.unit}</span></div>
+                    <button className="w-12 h-12 bg-slate-50 rounded-xl flex items-center justify-center text-slate-600 active:scale-90 transition-transform" onClick={() => stepTemperature(0.1)}><Plus size={20}/></button>
+                  </div>
+                  {currentOutlier && !currentDayEntry.temperatureQuality.confirmed && (
+                    <div className="mt-4 p-3 bg-amber-50 border border-amber-100 rounded-xl">
+                      <p className="text-xs text-amber-700 font-bold leading-relaxed">{tf('log.outlier', { delta: Temperature.format(Math.abs(currentOutlier.deviation), state.profile.unit, 2, locale), direction: currentOutlier.deviation > 0 ? t['log.above'] : t['log.below'], baseline: Temperature.format(currentOutlier.baseline, state.profile.unit, 2, locale) })}</p>
+                      <div className="grid grid-cols-2 gap-2 mt-3">
+                        <button onClick={() => updateQuality({ confirmed: true })} className="py-2 rounded-xl bg-amber-500 text-white text-[10px] font-bold uppercase">{t['log.keepReading']}</button>
+                        <button onClick={() => updateQuality({ disturbed: true })} className="py-2 rounded-xl bg-white text-amber-700 text-[10px] font-bold uppercase border border-amber-200">{t['log.markDisturbed']}</button>
+                      </div>
+                    </div>
+                  )}
+                  <div className="grid grid-cols-2 gap-2 mt-4">
+                    <label className="bg-slate-50 rounded-xl px-3 py-2">
+                      <span className="block text-[9px] font-bold text-slate-400 uppercase tracking-wider">{t['log.measuredAt']}</span>
+                      <input type="time" className="w-full bg-transparent text-sm font-bold text-slate-700 outline-none" value={currentDayEntry.temperatureQuality.time || ''} onChange={e => updateQuality({ time: e.target.value || null })} />
+                    </label>
+                    <label className="bg-slate-50 rounded-xl px-3 py-2">
+                      <span className="block text-[9px] font-bold text-slate-400 uppercase tracking-wider">{t['log.hoursSlept']}</span>
+                      <input type="number" inputMode="decimal" min={0} max={24} step={0.5} className="w-full bg-transparent text-sm font-bold text-slate-700 outline-none" value={currentDayEntry.temperatureQuality.sleepHours ?? ''} onChange={e => { const v = parseFloat(e.target.value); updateQuality({ sleepHours: isNaN(v) ? null : Math.min(Math.max(v, 0), 24) }); }} />
+                    </label>
+                  </div>
+                  <div className="grid grid-cols-4 gap-2 mt-2">
+                    {(['illness', 'alcohol', 'travel', 'disturbed'] as const).map(flag => (
+                      <button key={flag} onClick={() => updateQuality({ [flag]: !currentDayEntry.temperatureQuality[flag] })} className={`py-2 rounded-xl text-[9px] font-bold uppercase transition-all ${currentDayEntry.temperatureQuality[flag] ? 'bg-amber-500 text-white' : 'bg-slate-50 text-slate-400'}`}>{t[QUALITY_FLAG_LABEL[flag]]}</button>
+                    ))}
                   </div>
+                  {(readingQuality.get(selectedDate)?.flags.length ?? 0) > 0 && !currentOutlier && <p className="text-[10px] text-slate-400 mt-2">{t['log.flaggedHint']}</p>}
                 </LogCard>
                 <LogCard title={t.mens}>
-                  <div className="flex justify-between gap-2">{['none', 'light', 'medium', 'heavy'].map((flow) => (<button key={flow} onClick={() => dispatch({ type: 'UPDATE_CYCLE_DAY', payload: { ...currentDayEntry, flow: flow as any }})} className={`flex-1 py-3 rounded-xl text-[10px] font-bold uppercase transition-all ${currentDayEntry.flow === flow ? theme.active : 'bg-slate-50 text-slate-400'}`}>{flow}</button>))}</div>
+                  <div className="flex justify-between gap-2">{(['none', 'spotting', 'light', 'medium', 'heavy'] as FlowIntensity[]).map((flow) => (<button key={flow} onClick={() => dispatch({ type: 'UPDATE_CYCLE_DAY', payload: { ...currentDayEntry, flow }})} className={`flex-1 py-3 rounded-xl text-[10px] font-bold uppercase transition-all ${currentDayEntry.flow === flow ? theme.active : 'bg-slate-50 text-slate-400'}`}>{t[`flow.${flow}` as const]}</button>))}</div>
+                  <button onClick={() => dispatch({ type: 'UPDATE_CYCLE_DAY', payload: { ...currentDayEntry, periodStart: !currentDayEntry.periodStart }})} className={`w-full mt-3 py-3 rounded-xl text-[10px] font-bold uppercase tracking-wider transition-all flex items-center justify-center gap-2 ${currentDayEntry.periodStart ? 'bg-rose-500 text-white' : 'bg-slate-50 text-slate-400'}`}>
+                    {currentDayEntry.periodStart && <Check size={12} strokeWidth={3} />} {t['log.periodStarted']}
+                  </button>
                 </LogCard>
                 <LogCard title={t.mucus}>
-                  <div className="grid grid-cols-3 gap-2">{['dry', 'sticky', 'creamy', 'watery', 'eggwhite'].map((m) => (<button key={m} onClick={() => dispatch({ type: 'UPDATE_CYCLE_DAY', payload: { ...currentDayEntry, mucus: m as any }})} className={`py-3 rounded-xl text-[10px] font-bold uppercase transition-all ${currentDayEntry.mucus === m ? theme.active : 'bg-slate-50 text-slate-400'}`}>{m}</button>))}</div>
+                  <div className="grid grid-cols-3 gap-2">{(['dry', 'sticky', 'creamy', 'watery', 'eggwhite'] as MucusType[]).map((m) => (<button key={m} onClick={() => dispatch({ type: 'UPDATE_CYCLE_DAY', payload: { ...currentDayEntry, mucus: m }})} className={`py-3 rounded-xl text-[10px] font-bold uppercase transition-all ${currentDayEntry.mucus === m ? theme.active : 'bg-slate-50 text-slate-400'}`}>{t[`mucus.${m}` as const]}</button>))}</div>
+                </LogCard>
+                <LogCard title={t.lh}>
+                  <div className="grid grid-cols-4 gap-2">{(['negative', 'faint', 'equal', 'peak'] as LHResult[]).map((l) => (<button key={l} onClick={() => dispatch({ type: 'UPDATE_CYCLE_DAY', payload: { ...currentDayEntry, lhTest: l }})} className={`py-3 rounded-xl text-[10px] font-bold uppercase transition-all ${currentDayEntry.lhTest === l ? theme.active : 'bg-slate-50 text-slate-400'}`}>{t[`lhTest.${l}` as const]}</button>))}</div>
+                </LogCard>
+                <LogCard title={t.cervix}>
+                  <div className="grid grid-cols-3 gap-2">{(['low_hard', 'med_firm', 'high_soft'] as CervixPosition[]).map((c) => (<button key={c} onClick={() => dispatch({ type: 'UPDATE_CYCLE_DAY', payload: { ...currentDayEntry, cervix: c }})} className={`py-3 rounded-xl text-[10px] font-bold uppercase transition-all ${currentDayEntry.cervix === c ? theme.active : 'bg-slate-50 text-slate-400'}`}>{t[`cervix.${c}` as const]}</button>))}</div>
+                </LogCard>
+                <LogCard title={t.stress}>
+                  <div className="grid grid-cols-5 gap-2">{Array.from({ length: 10 }, (_, i) => i + 1).map((lvl) => (<button key={lvl} onClick={() => dispatch({ type: 'UPDATE_CYCLE_DAY', payload: { ...currentDayEntry, stressLevel: lvl }})} className={`py-3 rounded-xl text-xs font-bold tabular-nums transition-all ${currentDayEntry.stressLevel === lvl ? (lvl > 7 ? 'bg-rose-500 text-white' : theme.active) : 'bg-slate-50 text-slate-400'}`}>{lvl}</button>))}</div>
+                  <div className="flex justify-between mt-2 text-[9px] font-bold text-slate-300 uppercase tracking-wider"><span>{t['log.calm']}</span><span>{t['log.overloaded']}</span></div>
+                </LogCard>
+                <LogCard title={t.symptoms}>
+                  <div className="space-y-3">
+                    {(Object.keys(SYMPTOM_CATEGORIES) as SymptomCategory[]).map(category => (
+                      <div key={category}>
+                        <div className="text-[9px] font-bold text-slate-300 uppercase tracking-wider mb-1.5">{t[SYMPTOM_CATEGORIES[category]]}</div>
+                        <div className="flex flex-wrap gap-2">
+                          {SYMPTOMS.filter(s => s.category === category).map(s => {
+                            const active = currentDayEntry.symptoms.includes(s.id);
+                            return (<button key={s.id} onClick={() => toggleSymptom(s.id)} className={`px-3 py-2 rounded-xl text-[10px] font-bold uppercase transition-all ${active ? theme.active : 'bg-slate-50 text-slate-400'}`}>{symptomLabel(s.id, lang)}</button>);
+                          })}
+                        </div>
+                      </div>
+                    ))}
+                  </div>
+                </LogCard>
+                <LogCard title={t.trackers}>
+                  <div className="space-y-3">
+                    {state.customTrackers.map(tr => (
+                      <div key={tr.id}>
+                        <div className="flex items-center justify-between mb-1.5">
+                          <span className="text-sm font-bold text-slate-700">{tr.name}{tr.unit && <span className="text-slate-400 font-medium"> ({tr.unit})</span>}</span>
+                          <button onClick={() => removeTracker(tr)} className="p-1 text-slate-300 hover:text-rose-500"><X size={14} /></button>
+                        </div>
+                        {tr.kind === 'boolean' && (
+                          <div className="grid grid-cols-2 gap-2">{[true, false].map(v => (<button key={String(v)} onClick={() => setTrackerValue(tr, currentDayEntry.trackers[tr.id] === v ? null : v)} className={`py-2 rounded-xl text-[10px] font-bold uppercase transition-all ${currentDayEntry.trackers[tr.id] === v ? theme.active : 'bg-slate-50 text-slate-400'}`}>{v ? t['common.yes'] : t['common.no']}</button>))}</div>
+                        )}
+                        {tr.kind === 'scale' && (
+                          <div className="grid grid-cols-5 gap-2">{Array.from({ length: (tr.max ?? 5) - (tr.min ?? 1) + 1 }, (_, i) => i + (tr.min ?? 1)).map(v => (<button key={v} onClick={() => setTrackerValue(tr, currentDayEntry.trackers[tr.id] === v ? null : v)} className={`py-2 rounded-xl text-xs font-bold tabular-nums transition-all ${currentDayEntry.trackers[tr.id] === v ? theme.active : 'bg-slate-50 text-slate-400'}`}>{v}</button>))}</div>
+                        )}
+                        {tr.kind === 'numeric' && (
+                          <input type="number" inputMode="decimal" className="w-full p-3 bg-slate-50 rounded-xl text-sm font-bold text-slate-700 outline-none focus:ring-2 focus:ring-rose-100" value={typeof currentDayEntry.trackers[tr.id] === 'number' ? String(currentDayEntry.trackers[tr.id]) : ''} onChange={e => setTrackerValue(tr, e.target.value === '' ? null : parseFloat(e.target.value))} />
+                        )}
+                      </div>
+                    ))}
+                    <div className={`${state.customTrackers.length ? 'pt-3 border-t border-slate-50' : ''} space-y-2`}>
+                      <div className="flex gap-2">
+                        <input placeholder={t['log.newTracker']} className="flex-1 min-w-0 p-3 bg-slate-50 rounded-xl text-xs font-bold outline-none focus:ring-2 focus:ring-rose-100" value={newTracker.name} onChange={e => setNewTracker({ ...newTracker, name: e.target.value })} />
+                        {newTracker.kind === 'numeric' && <input placeholder={t['log.trackerUnit']} className="w-16 p-3 bg-slate-50 rounded-xl text-xs font-bold outline-none focus:ring-2 focus:ring-rose-100" value={newTracker.unit} onChange={e => setNewTracker({ ...newTracker, unit: e.target.value })} />}
+                      </div>
+                      <div className="flex gap-2">
+                        {(Object.keys(TRACKER_KINDS) as TrackerKind[]).map(kind => (<button key={kind} onClick={() => setNewTracker({ ...newTracker, kind })} className={`flex-1 py-2 rounded-xl text-[10px] font-bold uppercase transition-all ${newTracker.kind === kind ? 'bg-slate-800 text-white' : 'bg-slate-50 text-slate-400'}`}>{t[TRACKER_KINDS[kind]]}</button>))}
+                        <button onClick={addTracker} disabled={!newTracker.name.trim()} className="px-3 rounded-xl bg-slate-50 text-slate-500 disabled:opacity-40"><Plus size={16} /></button>
+                      </div>
+                    </div>
+                  </div>
                 </LogCard>
+                {(predictionsSuspended || currentDayEntry.pregnancyTest !== 'none') && (
+                  <LogCard title={t.pregTest}>
+                    <div className="grid grid-cols-3 gap-2">{(['none', 'negative', 'positive'] as PregnancyTestResult[]).map((r) => (<button key={r} onClick={() => dispatch({ type: 'UPDATE_CYCLE_DAY', payload: { ...currentDayEntry, pregnancyTest: r }})} className={`py-3 rounded-xl text-[10px] font-bold uppercase transition-all ${currentDayEntry.pregnancyTest === r ? theme.active : 'bg-slate-50 text-slate-400'}`}>{t[`pregTest.${r}` as const]}</button>))}</div>
+                  </LogCard>
+                )}
                 <LogCard title={t.notes}>
                      <textarea className="w-full bg-slate-50 border-0 rounded-xl p-4 text-sm text-slate-600 focus:ring-2 focus:ring-rose-200 h-32 resize-none" placeholder="..." value={currentDayEntry.notes} onChange={e=>dispatch({ type: 'UPDATE_CYCLE_DAY', payload: { ...currentDayEntry, notes: e.target.value } })} />
                  </LogCard>
@@ -886,7 +1600,7 @@ export default function HeraApp() {
                  <div className="bg-white p-6 rounded-3xl shadow-sm border border-slate-50 min-h-[400px]">
                    <div className="flex justify-between items-center mb-6">
                      <button onClick={()=>{const d=new Date(selectedDate); d.setMonth(d.getMonth()-1); setSelectedDate(getLocalISODate(d));}}><ChevronLeft size={20} className="text-slate-400 hover:text-slate-600"/></button>
-                     <h2 className="font-black text-xl text-slate-800">{new Date(selectedDate).toLocaleDateString('en-US', {month:'long', year:'numeric'})}</h2>
+                     <h2 className="font-black text-xl text-slate-800">{I18n.date(selectedDate, lang, {month:'long', year:'numeric'})}</h2>
                      <button onClick={()=>{const d=new Date(selectedDate); d.setMonth(d.getMonth()+1); setSelectedDate(getLocalISODate(d));}}><ChevronRight size={20} className="text-slate-400 hover:text-slate-600"/></button>
                    </div>
                    
@@ -894,19 +1608,20 @@ export default function HeraApp() {
                    <div className="h-8 w-full bg-slate-50 rounded-xl overflow-hidden relative mb-6 border border-slate-100 flex items-center justify-center">
                       <div className={`absolute inset-0 opacity-20 bg-gradient-to-r ${theme.primary}`}></div>
                       <svg className="w-full h-full absolute" preserveAspectRatio="none"><path d="M0,32 C50,10 100,0 150,10 S250,32 300,10 S400,0 440,10" fill="none" stroke="rgba(0,0,0,0.1)" strokeWidth="2"/></svg>
-                      <span className="relative text-[9px] font-bold text-slate-400 tracking-widest uppercase flex items-center gap-1"><Sparkles size={8}/> Pattern</span>
+                      <span className="relative text-[9px] font-bold text-slate-400 tracking-widest uppercase flex items-center gap-1"><Sparkles size={8}/> {t['calendar.pattern']}</span>
                    </div>
 
                    <div className="grid grid-cols-7 gap-2 mb-2">
-                     {['S','M','T','W','T','F','S'].map(d => <div key={d} className="text-center text-[10px] font-bold text-slate-300">{d}</div>)}
+                     {weekdays.map((d, i) => <div key={i} className="text-center text-[10px] font-bold text-slate-300">{d}</div>)}
                    </div>
                    <div className="grid grid-cols-7 gap-2">
                      {getCalendarDays().map((dateStr, i) => {
                        if (!dateStr) return <div key={i} className="aspect-square"></div>;
                        const dayNum = parseInt(dateStr.split('-')[2]);
                        const entry = state.cycleData.find(d => d.date === dateStr);
-                       const isFertile = predictions.fertileWindow.includes(dateStr);
-                       const isPeriod = entry?.flow !== 'none' && entry?.flow;
+                       const fertileChance = fertilityByDate.get(dateStr)?.probability || 0;
+                       const isFertile = fertileChance >= FERTILE_THRESHOLD;
+                       const isPeriod = periodDays.has(dateStr);
                        return (
                          <button 
                            key={i} 
@@ -914,14 +1629,15 @@ export default function HeraApp() {
                            className={`aspect-square rounded-xl flex flex-col items-center justify-center relative transition-all ${dateStr === selectedDate ? `ring-2 ring-${theme.accent.split('-')[1]}-400` : ''} ${isPeriod ? 'bg-rose-100 text-rose-600' : 'bg-slate-50 text-slate-600 hover:bg-slate-100'}`}
                          >
                            <span className="text-xs font-bold">{dayNum}</span>
-                           {isFertile && <div className="w-1.5 h-1.5 rounded-full bg-teal-400 absolute bottom-1.5"></div>}
+                           {isFertile && <div className="w-1.5 h-1.5 rounded-full bg-teal-400 absolute bottom-1.5" style={{ opacity: Math.min(1, 0.3 + fertileChance * 2.5) }}></div>}
+                           {!isPeriod && entry?.flow === 'spotting' && <div className="w-1.5 h-1.5 rounded-full bg-rose-300 absolute top-1.5"></div>}
                          </button>
                        )
                      })}
                    </div>
                    <div className="mt-6 flex justify-center gap-4 border-t border-slate-50 pt-4">
-                      <LegendItem color="bg-rose-400" label="Period" />
-                      <LegendItem color="bg-teal-400" label="Fertile" />
+                      <LegendItem color="bg-rose-400" label={t['calendar.period']} />
+                      <LegendItem color="bg-teal-400" label={t['calendar.fertile']} />
                    </div>
                  </div>
               </div>
@@ -930,22 +1646,36 @@ export default function HeraApp() {
             {/* SETTINGS */}
             {activeTab === 'settings' && (
               <div className="space-y-4 animate-in fade-in slide-in-from-bottom-4 duration-300">
-                <LogCard title="Appearance">
+                <LogCard title={t['settings.appearance']}>
                   <div className="grid grid-cols-3 gap-2">
-                    {Object.keys(THEMES).map(tKey => (
-                      <button key={tKey} onClick={() => dispatch({type: 'UPDATE_PROFILE', payload: { theme: tKey as Theme }})} className={`py-3 border-2 rounded-xl text-[10px] font-bold uppercase ${state.profile.theme===tKey ? 'border-slate-800 bg-slate-800 text-white' : 'border-slate-100 text-slate-400'}`}>{tKey}</button>
+                    {(Object.keys(THEMES) as Theme[]).map(tKey => (
+                      <button key={tKey} onClick={() => dispatch({type: 'UPDATE_PROFILE', payload: { theme: tKey }})} className={`py-3 border-2 rounded-xl text-[10px] font-bold uppercase ${state.profile.theme===tKey ? 'border-slate-800 bg-slate-800 text-white' : 'border-slate-100 text-slate-400'}`}>{t[`theme.${tKey}` as const]}</button>
                     ))}
                   </div>
                 </LogCard>
                 {/* NEW PREFERENCES SECTION */}
-                <LogCard title="Preferences">
+                <LogCard title={t['settings.preferences']}>
                   <div className="flex items-center justify-between mb-4">
-                    <span className="text-sm font-bold text-slate-700">Temperature Unit</span>
+                    <span className="text-sm font-bold text-slate-700">{t['settings.language']}</span>
+                    <div className="flex bg-slate-100 rounded-lg p-1">
+                      {(Object.keys(LANGUAGES) as Language[]).map((l) => (
+                        <button 
+                          key={l} 
+                          onClick={() => dispatch({type: 'UPDATE_PROFILE', payload: { lang: l }})}
+                          className={`px-3 py-1 rounded-md text-xs font-bold transition-all ${state.profile.lang === l ? 'bg-white shadow-sm text-slate-900' : 'text-slate-400'}`}
+                        >
+                          {LANGUAGES[l]}
+                        </button>
+                      ))}
+                    </div>
+                  </div>
+                  <div className="flex items-center justify-between mb-4">
+                    <span className="text-sm font-bold text-slate-700">{t['settings.unit']}</span>
                     <div className="flex bg-slate-100 rounded-lg p-1">
                       {['C', 'F'].map((u) => (
                         <button 
                           key={u} 
-                          onClick={() => dispatch({type: 'UPDATE_PROFILE', payload: { unit: u as Unit }})}
+                          onClick={() => changeUnit(u as Unit)}
                           className={`px-4 py-1 rounded-md text-xs font-bold transition-all ${state.profile.unit === u ? 'bg-white shadow-sm text-slate-900' : 'text-slate-400'}`}
                         >
                           °{u}
@@ -953,37 +1683,211 @@ export default function HeraApp() {
                       ))}
                     </div>
                   </div>
+                  <div className="flex items-center justify-between mb-1">
+                    <span className="text-sm font-bold text-slate-700">{t['settings.periodStart']}</span>
+                    <div className="flex bg-slate-100 rounded-lg p-1">
+                      {([['first_light', t['settings.periodLight']], ['first_medium', t['settings.periodMedium']]] as [PeriodStartPolicy, string][]).map(([policy, label]) => (
+                        <button 
+                          key={policy} 
+                          onClick={() => dispatch({type: 'UPDATE_PROFILE', payload: { periodStartPolicy: policy }})}
+                          className={`px-3 py-1 rounded-md text-xs font-bold transition-all ${state.profile.periodStartPolicy === policy ? 'bg-white shadow-sm text-slate-900' : 'text-slate-400'}`}
+                        >
+                          {label}
+                        </button>
+                      ))}
+                    </div>
+                  </div>
+                  <p className="text-[10px] text-slate-400 leading-relaxed">{t['settings.periodHint']}</p>
                 </LogCard>
-                <LogCard title="Intelligence">
+                <LogCard title={t['settings.lifeStage']}>
+                  <div className="grid grid-cols-2 gap-2">
+                    {(Object.keys(LIFE_STAGES) as LifeStage[]).map(stage => (
+                      <button key={stage} onClick={() => dispatch({type: 'UPDATE_PROFILE', payload: { lifeStage: stage }})} className={`py-3 px-2 border-2 rounded-xl text-[10px] font-bold uppercase leading-tight ${state.profile.lifeStage === stage ? 'border-slate-800 bg-slate-800 text-white' : 'border-slate-100 text-slate-400'}`}>{t[LIFE_STAGES[stage].label]}</button>
+                    ))}
+                  </div>
+                  <p className="text-[10px] text-slate-400 leading-relaxed mt-3">{t[lifeStageRules.description]}</p>
+                </LogCard>
+                <LogCard title={t['settings.intelligence']}>
                   <div className="flex items-center justify-between mb-4">
-                    <span className="text-sm font-bold text-slate-700">Activate Assistant</span>
+                    <span className="text-sm font-bold text-slate-700">{t['settings.assistant']}</span>
                     <div 
-                      onClick={() => dispatch({type: 'UPDATE_PROFILE', payload: { aiActive: !state.profile.aiActive }})}
+                      onClick={() => dispatch({type: 'UPDATE_PROFILE', payload: { aiActive: !state.profile.aiActive, aiProvider: aiConfig.provider === 'unknown' ? 'openai' : aiConfig.provider }})}
                       className={`w-12 h-7 rounded-full relative transition-colors cursor-pointer ${state.profile.aiActive ? 'bg-emerald-500' : 'bg-slate-200'}`}
                     >
                       <div className={`w-5 h-5 bg-white rounded-full shadow-sm absolute top-1 transition-all ${state.profile.aiActive ? 'left-6' : 'left-1'}`} />
                     </div>
                   </div>
-                  {state.profile.aiActive && (
-                    <input 
-                      type="password"
-                      placeholder="API Key (OpenAI)"
-                      className="w-full p-3 bg-slate-50 rounded-xl text-xs font-bold outline-none focus:ring-2 focus:ring-emerald-100"
-                      onChange={(e) => dispatch({type: 'UPDATE_PROFILE', payload: { apiKey: e.target.value }})}
-                      value={state.profile.apiKey || ''}
-                    />
+                  {state.profile.aiActive && aiConfig.provider !== 'unknown' && (
+                    <div className="space-y-3">
+                      <div className="flex bg-slate-100 rounded-lg p-1">
+                        {(Object.keys(AI_PROVIDERS) as ConfiguredProvider[]).map((provider) => (
+                          <button 
+                            key={provider} 
+                            onClick={() => dispatch({type: 'UPDATE_PROFILE', payload: { aiProvider: provider, aiModel: '' }})}
+                            className={`flex-1 py-1 rounded-md text-xs font-bold transition-all ${aiConfig.provider === provider ? 'bg-white shadow-sm text-slate-900' : 'text-slate-400'}`}
+                          >
+                            {t[`aiProvider.${provider}` as const]}
+                          </button>
+                        ))}
+                      </div>
+                      {aiConfig.provider === 'custom' && (
+                        <input 
+                          type="url"
+                          placeholder={AI_PROVIDERS.custom.baseUrl}
+                          className="w-full p-3 bg-slate-50 rounded-xl text-xs font-bold outline-none focus:ring-2 focus:ring-emerald-100"
+                          onChange={(e) => dispatch({type: 'UPDATE_PROFILE', payload: { aiBaseUrl: e.target.value }})}
+                          value={state.profile.aiBaseUrl || ''}
+                        />
+                      )}
+                      <input 
+                        list="hera-ai-models"
+                        placeholder={tf('settings.model', { model: AI_PROVIDERS[aiConfig.provider].defaultModel })}
+                        className="w-full p-3 bg-slate-50 rounded-xl text-xs font-bold outline-none focus:ring-2 focus:ring-emerald-100"
+                        onChange={(e) => dispatch({type: 'UPDATE_PROFILE', payload: { aiModel: e.target.value }})}
+                        value={state.profile.aiModel || ''}
+                      />
+                      <datalist id="hera-ai-models">
+                        {AI_PROVIDERS[aiConfig.provider].models.map(model => <option key={model} value={model} />)}
+                      </datalist>
+                      {secrets.aiApiKey && keyDraft === null ? (
+                        <div className="flex items-center justify-between p-3 bg-slate-50 rounded-xl">
+                          <span className="text-xs font-bold text-slate-600 font-mono">•••• {secrets.aiApiKey.slice(-4)}</span>
+                          <div className="flex gap-3 text-[10px] font-bold uppercase">
+                            <button onClick={() => setKeyDraft('')} className="text-slate-500">{t['settings.keyRotate']}</button>
+                            <button onClick={revokeApiKey} className="text-rose-500">{t['settings.keyRevoke']}</button>
+                          </div>
+                        </div>
+                      ) : (
+                        <div className="flex gap-2">
+                          <input 
+                            type="password"
+                            placeholder={AI_PROVIDERS[aiConfig.provider].requiresKey ? t['settings.apiKey'] : t['settings.apiKeyOptional']}
+                            className="flex-1 min-w-0 p-3 bg-slate-50 rounded-xl text-xs font-bold outline-none focus:ring-2 focus:ring-emerald-100"
+                            onChange={(e) => setKeyDraft(e.target.value)}
+                            onKeyDown={(e) => e.key === 'Enter' && saveApiKey()}
+                            value={keyDraft || ''}
+                          />
+                          <button onClick={saveApiKey} disabled={!(keyDraft || '').trim()} className="px-4 bg-slate-800 text-white rounded-xl text-xs font-bold disabled:opacity-30">{t['settings.keySave']}</button>
+                          {secrets.aiApiKey && <button onClick={() => setKeyDraft(null)} className="px-2 text-slate-400"><X size={16}/></button>}
+                        </div>
+                      )}
+                      {isConfigured(aiConfig) && (
+                        <div className="flex items-center gap-2 text-[10px] font-bold">
+                          <button onClick={testApiKey} disabled={keyTest === 'testing'} className="uppercase text-slate-500 flex items-center gap-1">{keyTest === 'testing' ? <Loader2 size={10} className="animate-spin"/> : <Check size={10}/>} {t['settings.keyTest']}</button>
+                          {keyTest === 'ok' && <span className="text-emerald-600">{t['settings.keyOk']}</span>}
+                          {keyTest && keyTest !== 'ok' && keyTest !== 'testing' && <span className="text-rose-500">{t[`ai.error.${keyTest}` as const]}</span>}
+                        </div>
+                      )}
+                      <p className="text-[10px] text-slate-400 leading-relaxed">{t['settings.keyHint']}</p>
+                      {aiConfig.provider === 'custom' && <p className="text-[10px] text-slate-400 leading-relaxed">{t['settings.customHint']}</p>}
+                      <div className="flex items-center justify-between pt-1">
+                        <span className="text-xs font-bold text-slate-600">{t['settings.includeNotes']}</span>
+                        <div 
+                          onClick={() => dispatch({type: 'UPDATE_PROFILE', payload: { aiIncludeNotes: !state.profile.aiIncludeNotes }})}
+                          className={`w-12 h-7 rounded-full relative transition-colors cursor-pointer ${state.profile.aiIncludeNotes ? 'bg-emerald-500' : 'bg-slate-200'}`}
+                        >
+                          <div className={`w-5 h-5 bg-white rounded-full shadow-sm absolute top-1 transition-all ${state.profile.aiIncludeNotes ? 'left-6' : 'left-1'}`} />
+                        </div>
+                      </div>
+                      <button onClick={() => setShowAiPreview(true)} className="w-full py-3 border border-slate-200 rounded-xl text-xs font-bold text-slate-500 hover:bg-slate-50">{t['ai.preview.open']}</button>
+                      <details className="text-[10px] text-slate-400">
+                        <summary className="font-bold uppercase tracking-wider cursor-pointer">{tf('settings.aiLog', { count: state.aiLog.length })}</summary>
+                        <p className="leading-relaxed mt-2">{t['settings.aiLogHint']}</p>
+                        <ul className="mt-2 space-y-2 max-h-64 overflow-y-auto">
+                          {state.aiLog.map(entry => (
+                            <li key={entry.at} className="p-2 bg-slate-50 rounded-lg">
+                              <details>
+                                <summary className="cursor-pointer font-bold text-slate-500">
+                                  {new Date(entry.at).toLocaleString(locale, { dateStyle: 'short', timeStyle: 'short' })} · {entry.model} · <span className={entry.outcome === 'ok' ? 'text-emerald-600' : 'text-rose-500'}>{entry.outcome}</span>
+                                </summary>
+                                <div className="mt-1 font-mono break-all">{entry.endpoint}</div>
+                                <div className="mt-1 font-mono whitespace-pre-wrap break-all text-slate-500">{entry.prompt}</div>
+                              </details>
+                            </li>
+                          ))}
+                        </ul>
+                        {state.aiLog.length > 0 && <button onClick={() => window.confirm(t['settings.aiLogClearConfirm']) && dispatch({ type: 'CLEAR_AI_LOG' })} className="mt-2 font-bold text-rose-500 uppercase">{t['settings.aiLogClear']}</button>}
+                      </details>
+                    </div>
                   )}
                 </LogCard>
-                <LogCard title="Data Management">
+                <LogCard title={t['settings.data']}>
                   <div className="space-y-3">
-                      <button onClick={() => { const blob = new Blob([JSON.stringify(state)], {type: 'application/json'}); const url = URL.createObjectURL(blob); const a = document.createElement('a'); a.href=url; a.download='hera_backup.json'; a.click(); }} className="w-full py-3 border border-slate-200 rounded-xl text-xs font-bold text-slate-500 hover:bg-slate-50 flex items-center justify-center gap-2"><Download size={14}/> Backup Data (JSON)</button>
-                      <div className="px-3 text-[10px] text-rose-500 font-bold text-center">⚠️ Warning: Backup file is NOT encrypted. Store safely.</div>
-                      <label className="w-full py-3 border border-slate-200 rounded-xl text-xs font-bold text-slate-500 hover:bg-slate-50 flex items-center justify-center gap-2 cursor-pointer"><Upload size={14}/> Restore Backup <input type="file" className="hidden" accept=".json" onChange={handleRestoreBackup} /></label>
+                      <button onClick={handleExportBackup} className="w-full py-3 border border-slate-200 rounded-xl text-xs font-bold text-slate-500 hover:bg-slate-50 flex items-center justify-center gap-2"><Download size={14}/> {t['settings.export']}</button>
+                      <div className="px-3 text-[10px] text-slate-400 font-bold text-center">{t['settings.exportHint']}</div>
+                      <label className="w-full py-3 border border-slate-200 rounded-xl text-xs font-bold text-slate-500 hover:bg-slate-50 flex items-center justify-center gap-2 cursor-pointer"><Upload size={14}/> {t['settings.restore']} <input type="file" className="hidden" accept=".json" onChange={handleRestoreBackup} /></label>
+                      {storageInfo?.estimate && (
+                        <div className="px-3 text-[10px] text-slate-400 font-bold text-center">
+                          {tf('storage.usage', { used: formatBytes(storageInfo.estimate.usage, locale), quota: formatBytes(storageInfo.estimate.quota, locale) })}
+                        </div>
+                      )}
+                      <details className="text-[10px] text-slate-400">
+                        <summary className="font-bold uppercase tracking-wider cursor-pointer">{tf('storage.snapshots', { count: storageInfo?.snapshots.length ?? 0 })}</summary>
+                        <p className="leading-relaxed mt-2">{t['storage.snapshotsHint']}</p>
+                        <ul className="mt-2 space-y-2">
+                          {storageInfo?.snapshots.map(snapshot => (
+                            <li key={snapshot.id} className="p-2 bg-slate-50 rounded-lg flex items-center justify-between gap-2">
+                              <span className="font-bold text-slate-500">{new Date(snapshot.savedAt).toLocaleString(locale, { dateStyle: 'short', timeStyle: 'short' })} · {formatBytes(snapshot.size, locale)}</span>
+                              <button onClick={() => handleRollback(snapshot)} className="font-bold text-rose-500 uppercase">{t['storage.rollback']}</button>
+                            </li>
+                          ))}
+                        </ul>
+                      </details>
+                  </div>
+                </LogCard>
+                <LogCard title={t['settings.security']}>
+                  {pwForm ? (
+                    <div className="space-y-3">
+                      {([['current', t['settings.currentPassword']], ['next', t['settings.newPassword']], ['confirm', t['auth.confirmPassword']]] as ['current' | 'next' | 'confirm', string][]).map(([field, label]) => (
+                        <input 
+                          key={field}
+                          type="password"
+                          placeholder={label}
+                          className="w-full p-3 bg-slate-50 rounded-xl text-xs font-bold outline-none focus:ring-2 focus:ring-emerald-100"
+                          onChange={(e) => setPwForm({ ...pwForm, [field]: e.target.value })}
+                          onKeyDown={(e) => e.key === 'Enter' && handleChangePassword()}
+                          value={pwForm[field]}
+                        />
+                      ))}
+                      <div className="flex gap-2">
+                        <button onClick={() => { setPwForm(null); setPwMessage(null); }} className="flex-1 py-3 border border-slate-200 rounded-xl text-xs font-bold text-slate-500">{t['common.cancel']}</button>
+                        <button onClick={handleChangePassword} disabled={pwBusy || !pwForm.current} className="flex-1 py-3 bg-slate-800 text-white rounded-xl text-xs font-bold flex items-center justify-center gap-2 disabled:opacity-30">{pwBusy && <Loader2 size={14} className="animate-spin"/>} {t['settings.changePassword']}</button>
+                      </div>
+                    </div>
+                  ) : (
+                    <button onClick={() => { setPwForm({ current: '', next: '', confirm: '' }); setPwMessage(null); }} className="w-full py-3 border border-slate-200 rounded-xl text-xs font-bold text-slate-500 hover:bg-slate-50 flex items-center justify-center gap-2"><Lock size={14}/> {t['settings.changePassword']}</button>
+                  )}
+                  {pwMessage && <p className={`text-[10px] font-bold mt-3 ${pwMessage.ok ? 'text-emerald-600' : 'text-rose-500'}`}>{pwMessage.text}</p>}
+                  <div className="mt-4 pt-4 border-t border-slate-100 space-y-3">
+                    <p className={`text-[10px] font-bold ${recoveryCount > 0 ? 'text-slate-500' : 'text-amber-600'}`}>{recoveryCount > 0 ? tf('recovery.status', { count: recoveryCount }) : t['recovery.none']}</p>
+                    {recoveryPassword !== null ? (
+                      <div className="space-y-3">
+                        {recoveryCount > 0 && <p className="text-[10px] text-slate-400 font-bold">{t['recovery.replaceNote']}</p>}
+                        <input 
+                          type="password"
+                          placeholder={t['settings.currentPassword']}
+                          className="w-full p-3 bg-slate-50 rounded-xl text-xs font-bold outline-none focus:ring-2 focus:ring-emerald-100"
+                          onChange={(e) => setRecoveryPassword(e.target.value)}
+                          onKeyDown={(e) => e.key === 'Enter' && handleCreateRecoveryCodes()}
+                          value={recoveryPassword}
+                        />
+                        <div className="flex gap-2">
+                          <button onClick={() => { setRecoveryPassword(null); setRecoveryError(''); }} className="flex-1 py-3 border border-slate-200 rounded-xl text-xs font-bold text-slate-500">{t['common.cancel']}</button>
+                          <button onClick={handleCreateRecoveryCodes} disabled={recoveryBusy || !recoveryPassword} className="flex-1 py-3 bg-slate-800 text-white rounded-xl text-xs font-bold flex items-center justify-center gap-2 disabled:opacity-30">{recoveryBusy && <Loader2 size={14} className="animate-spin"/>} {t['recovery.generate']}</button>
+                        </div>
+                      </div>
+                    ) : (
+                      <>
+                        <button onClick={() => { setRecoveryPassword(''); setRecoveryError(''); }} className="w-full py-3 border border-slate-200 rounded-xl text-xs font-bold text-slate-500 hover:bg-slate-50 flex items-center justify-center gap-2"><KeyRound size={14}/> {recoveryCount > 0 ? t['recovery.regenerate'] : t['recovery.generate']}</button>
+                        {recoveryCount > 0 && <button onClick={handleRemoveRecoveryCodes} className="w-full py-2 text-[10px] font-bold text-slate-400 hover:text-rose-500">{t['recovery.remove']}</button>}
+                      </>
+                    )}
+                    {recoveryError && <p className="text-[10px] font-bold text-rose-500">{recoveryError}</p>}
                   </div>
                 </LogCard>
                 <div className="pt-4 text-center">
                   <button onClick={() => setShowWaiver(true)} className="text-[10px] font-bold text-slate-400 uppercase tracking-widest hover:text-rose-500 transition-colors">
-                    View Legal Disclaimer
+                    {t['waiver.view']}
                   </button>
                 </div>
               </div>
@@ -992,18 +1896,21 @@ export default function HeraApp() {
             {/* HELP & FAQ (Expanded) */}
             {activeTab === 'help' && (
                 <div className="space-y-4 animate-in fade-in slide-in-from-bottom-4 duration-300">
-                    <LogCard title="Critical Information">
-                        <FAQItem important q="DATA LOSS RISK" a="If you lose your device or clear your browser cache, your data is erased forever. We have no backup. You must manually Export your Vault in Settings > Data Management weekly." />
-                        <FAQItem important q="NOT CONTRACEPTION" a="This app calculates probabilities, not certainties. It cannot see your real-time biology. Do not use this to prevent pregnancy. It is for educational logging only." />
+                    <LogCard title={t['help.critical']}>
+                        <FAQItem important q={t['help.dataLoss.q']} a={t['help.dataLoss.a']} />
+                        <FAQItem important q={t['help.contraception.q']} a={t['help.contraception.a']} />
+                    </LogCard>
+                    <LogCard title={tf('help.profile', { stage: t[lifeStageRules.label] })}>
+                        {lifeStageRules.faq.map(item => <FAQItem key={item.q} q={t[item.q]} a={tf(item.a, { count: PATCH_COUNT, days: lifeStageRules.lateGrace })} />)}
                     </LogCard>
-                    <LogCard title="Forensic FAQ">
-                        <FAQItem q="ENCRYPTION MODEL" a="We use 'Hostile Environment' encryption. Your password decrypts your data locally. If you forget your password, we cannot reset it. Write it down." />
-                        <FAQItem q="AI PRIVACY" a="The AI analysis runs exclusively on your device using your personal API key. No data is sent to Hera servers. You are paying OpenAI directly, maintaining a direct chain of custody over your data." />
-                        <FAQItem q="ALGORITHM ACCURACY" a="The prediction engine refines itself over time. The first 3 cycles are calibration. Irregular sleep, stress, or illness will skew temperature readings and affect predictions." />
+                    <LogCard title={t['help.faq']}>
+                        <FAQItem q={t['help.encryption.q']} a={t['help.encryption.a']} />
+                        <FAQItem q={t['help.ai.q']} a={t['help.ai.a']} />
+                        <FAQItem q={t['help.accuracy.q']} a={t['help.accuracy.a']} />
                     </LogCard>
                     <div className="pt-8 pb-4 text-center space-y-2">
                         <button onClick={() => setShowWaiver(true)} className="text-[10px] font-bold text-slate-400 uppercase tracking-widest hover:text-rose-500 transition-colors">
-                          View Legal Disclaimer
+                          {t['waiver.view']}
                         </button>
                         <p className="text-[9px] text-slate-300">Hera Cycle v100.6 | Sovereign Build</p>
                     </div>
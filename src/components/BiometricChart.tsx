@@ -1,26 +1,59 @@
 "use client";
 import React from 'react';
 import { 
-  ComposedChart, Line, Area, XAxis, CartesianGrid, 
-  Tooltip, ResponsiveContainer, ReferenceLine 
+  ComposedChart, Line, Area, XAxis, YAxis, CartesianGrid, 
+  Tooltip, ResponsiveContainer, ReferenceLine, ReferenceArea, Scatter 
 } from 'recharts';
+import { CyclePhase, PHASE_LABEL } from '../lib/PatternInsights';
+import { Unit, Language } from '../lib/types';
+import { I18n, LOCALE_TAG } from '../lib/i18n';
+import { Temperature } from '../lib/Temperature';
 
-interface ChartData {
-  date: string;
+export interface ChartData {
+  date: string; // display label, unique per day
+  iso: string;
   temp: number | null;
+  flagged: number | null; // reading excluded by the quality checks
   heraScore: number;
+  phase: CyclePhase | null;
 }
 
-const CustomTooltip = ({ active, payload, label }: any) => {
+export const PHASE_FILL: Record<CyclePhase, string> = {
+  menstrual: '#fda4af',
+  follicular: '#bae6fd',
+  fertile: '#99f6e4',
+  luteal: '#c7d2fe'
+};
+
+// Consecutive days in the same phase collapse into one background band. On the category axis a
+// band from A to B spans the points' centres, so each band runs on to the next day's point;
+// otherwise a one-day phase would have zero width. The last point has no next one and a one-day
+// band there reaches back to the previous point instead.
+const phaseBands = (data: ChartData[]) => {
+  const bands: { phase: CyclePhase; from: string; to: string }[] = [];
+  data.forEach((d, i) => {
+    const last = bands[bands.length - 1];
+    if (!d.phase) return;
+    const to = data[i + 1]?.date ?? d.date;
+    if (last && last.phase === d.phase && data[i - 1]?.phase === d.phase) last.to = to;
+    else bands.push({ phase: d.phase, from: to === d.date && i > 0 ? data[i - 1].date : d.date, to });
+  });
+  return bands;
+};
+
+const CustomTooltip = ({ active, payload, label, unit, lang }: any) => {
   if (active && payload && payload.length) {
     const score = payload[0].payload.heraScore;
-    const temp = payload[0].payload.temp;
-    const status = score > 5000 ? "⚠️ PEAK" : "Running";
+    const temp = payload[0].payload.temp ?? payload[0].payload.flagged;
+    const flagged = payload[0].payload.flagged !== null;
+    const phase = payload[0].payload.phase;
+    const status = I18n.t(lang, score > 5000 ? 'engine.peak' : 'engine.running');
     return (
       <div className="bg-slate-900 text-white p-3 rounded-xl shadow-2xl border border-slate-700">
         <p className="text-xs font-bold text-slate-400 mb-1">{label}</p>
-        <p className="text-lg font-black text-rose-400">Score: {score}</p>
-        <p className="text-xs font-mono text-slate-300">Temp: {temp ? temp.toFixed(2) : '--'}</p>
+        <p className="text-lg font-black text-rose-400">{I18n.t(lang, 'engine.score', { score })}</p>
+        <p className="text-xs font-mono text-slate-300">{I18n.t(lang, 'engine.temp', { value: temp ? Temperature.format(temp, unit, 2, LOCALE_TAG[lang as Language]) : '--' })}{flagged && I18n.t(lang, 'engine.flagged')}</p>
+        {phase && <p className="text-xs font-mono text-slate-300 capitalize">{I18n.t(lang, 'engine.phase', { phase: I18n.t(lang, PHASE_LABEL[phase as CyclePhase]) })}</p>}
         <p className="text-xs font-mono tracking-widest mt-1 text-emerald-400">{status}</p>
       </div>
     );
@@ -28,11 +61,19 @@ const CustomTooltip = ({ active, payload, label }: any) => {
   return null;
 };
 
-export const BiometricChart = ({ data }: { data: ChartData[] }) => {
+interface Props {
+  data: ChartData[];
+  unit: Unit;
+  coverline?: number | null;
+  onSelectDate?: (iso: string) => void;
+  lang?: Language;
+}
+
+export const BiometricChart = ({ data, unit, coverline, onSelectDate, lang = 'en' }: Props) => {
   return (
     <div className="h-64 w-full transition-all duration-500">
       <ResponsiveContainer width="100%" height="100%">
-        <ComposedChart data={data}>
+        <ComposedChart data={data} onClick={(e: any) => { const iso = e?.activePayload?.[0]?.payload?.iso; if (iso && onSelectDate) onSelectDate(iso); }} style={onSelectDate ? { cursor: 'pointer' } : undefined}>
           <defs>
             <linearGradient id="scoreGradient" x1="0" y1="0" x2="0" y2="1">
               <stop offset="5%" stopColor="#FF0066" stopOpacity={0.8}/>
@@ -45,10 +86,19 @@ export const BiometricChart = ({ data }: { data: ChartData[] }) => {
           </defs>
           <CartesianGrid strokeDasharray="3 3" vertical={false} stroke="#f1f5f9" />
           <XAxis dataKey="date" tick={{fontSize: 10, fill: '#94a3b8'}} axisLine={false} tickLine={false} minTickGap={20} />
-          <ReferenceLine y={5000} yAxisId="right" stroke="#FF0066" strokeDasharray="3 3" label={{ position: 'right', value: 'TARGET', fill: '#FF0066', fontSize: 9, fontWeight: 'bold' }} />
+          <YAxis yAxisId="left" domain={['auto', 'auto']} hide />
+          <YAxis yAxisId="right" orientation="right" domain={[0, 10000]} hide />
+          {phaseBands(data).map(b => (
+            <ReferenceArea key={`${b.phase}-${b.from}`} x1={b.from} x2={b.to} yAxisId="right" fill={PHASE_FILL[b.phase]} fillOpacity={0.25} stroke="none" />
+          ))}
+          {coverline != null && (
+            <ReferenceLine y={coverline} yAxisId="left" stroke="#5B21B6" strokeDasharray="6 3" label={{ position: 'left', value: I18n.t(lang, 'engine.coverline'), fill: '#5B21B6', fontSize: 9, fontWeight: 'bold' }} />
+          )}
+          <ReferenceLine y={5000} yAxisId="right" stroke="#FF0066" strokeDasharray="3 3" label={{ position: 'right', value: I18n.t(lang, 'engine.target'), fill: '#FF0066', fontSize: 9, fontWeight: 'bold' }} />
           <Area type="monotone" dataKey="heraScore" stroke="none" fill="url(#scoreGradient)" yAxisId="right" animationDuration={1000} />
           <Line type="monotone" dataKey="temp" stroke="url(#lineGradient)" strokeWidth={3} dot={{r: 2, fill: 'white', strokeWidth: 2}} activeDot={{r: 6, fill: '#FF0066'}} yAxisId="left" animationDuration={1500} connectNulls />
-          <Tooltip content={<CustomTooltip />} cursor={{stroke: '#cbd5e1', strokeWidth: 1}} />
+          <Scatter dataKey="flagged" yAxisId="left" fill="#cbd5e1" />
+          <Tooltip content={<CustomTooltip unit={unit} lang={lang} />} cursor={{stroke: '#cbd5e1', strokeWidth: 1}} />
         </ComposedChart>
       </ResponsiveContainer>
     </div>
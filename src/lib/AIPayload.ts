@@ -0,0 +1,77 @@
+import { CycleDay, Language, Unit, FlowIntensity, MucusType, LHResult, CervixPosition, PregnancyTestResult } from './types';
+import { ReadingAssessment } from './TemperatureQuality';
+import { LANGUAGES } from './i18n';
+import { daysBetween } from './utils';
+
+const PAYLOAD = {
+  days: 14,
+  tempStep: { C: 0.2, F: 0.4 } as Record<Unit, number>, // coarser than a thermometer, fine enough to see a shift
+  noteLength: 280
+};
+
+export type StressBand = 'low' | 'moderate' | 'high';
+
+// Everything a provider sees about one day. No dates, tracker names or notes unless opted in.
+export interface PayloadDay {
+  cycle: number | null; // 0 = current cycle, -1 = previous...; null before the first known start
+  day: number | null; // cycle day
+  temp: number | null; // rounded to PAYLOAD.tempStep
+  tempExcluded: boolean; // reading was flagged (illness, alcohol, outlier...)
+  flow: FlowIntensity;
+  mucus: MucusType;
+  lh: LHResult;
+  cervix: CervixPosition;
+  stress: StressBand;
+  pregnancyTest: PregnancyTestResult;
+  symptoms: string[]; // catalogue ids
+  notes?: string;
+}
+
+export interface PayloadInput {
+  data: CycleDay[];
+  starts: string[]; // cycle start dates, oldest first
+  quality: Map<string, ReadingAssessment>;
+  unit: Unit;
+  phase: string;
+  lang: Language;
+  includeNotes: boolean;
+}
+
+export interface AIPayloadResult {
+  days: PayloadDay[];
+  prompt: string;
+}
+
+const bucket = (value: number, step: number) => Math.round(Math.round(value / step) * step * 10) / 10;
+
+const stressBand = (level: number): StressBand => (level >= 7 ? 'high' : level >= 4 ? 'moderate' : 'low');
+
+export const AIPayload = {
+  build: (input: PayloadInput): AIPayloadResult => {
+    const step = PAYLOAD.tempStep[input.unit];
+    const current = input.starts.length - 1;
+    const days = [...input.data].sort((a, b) => a.date.localeCompare(b.date)).slice(-PAYLOAD.days).map((d): PayloadDay => {
+      let index = -1;
+      input.starts.forEach((s, i) => { if (s <= d.date) index = i; });
+      const day: PayloadDay = {
+        cycle: index < 0 ? null : index - current,
+        day: index < 0 ? null : daysBetween(input.starts[index], d.date) + 1,
+        temp: d.temperature === null ? null : bucket(d.temperature, step),
+        tempExcluded: input.quality.get(d.date)?.excluded ?? false,
+        flow: d.flow,
+        mucus: d.mucus,
+        lh: d.lhTest,
+        cervix: d.cervix,
+        stress: stressBand(d.stressLevel),
+        pregnancyTest: d.pregnancyTest,
+        symptoms: d.symptoms
+      };
+      const notes = d.notes.trim();
+      if (input.includeNotes && notes) day.notes = notes.slice(0, PAYLOAD.noteLength);
+      return day;
+    });
+
+    const prompt = `Analyze this de-identified cycle data. Days are relative to cycle start and temperatures are rounded to ${step}°${input.unit}: ${JSON.stringify(days)}. Current phase: ${input.phase}. Brief forensic health summary. Reply in ${LANGUAGES[input.lang]}.`;
+    return { days, prompt };
+  }
+};
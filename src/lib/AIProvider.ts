@@ -0,0 +1,205 @@
+import { AIProvider } from './types';
+
+export type ConfiguredProvider = Exclude<AIProvider, 'unknown'>;
+
+export interface ProviderDef {
+  models: string[]; // suggestions; any model id the endpoint accepts is allowed
+  defaultModel: string;
+  baseUrl: string;
+  requiresKey: boolean;
+}
+
+export const AI_PROVIDERS: Record<ConfiguredProvider, ProviderDef> = {
+  openai: {
+    models: ['gpt-4o-mini', 'gpt-4o', 'gpt-3.5-turbo'],
+    defaultModel: 'gpt-4o-mini',
+    baseUrl: 'https://api.openai.com/v1',
+    requiresKey: true
+  },
+  gemini: {
+    models: ['gemini-1.5-flash', 'gemini-1.5-pro'],
+    defaultModel: 'gemini-1.5-flash',
+    baseUrl: 'https://generativelanguage.googleapis.com/v1beta',
+    requiresKey: true
+  },
+  // Any OpenAI-compatible /chat/completions server: Ollama, llama.cpp, LM Studio, vLLM...
+  custom: {
+    models: [],
+    defaultModel: 'llama3.1',
+    baseUrl: 'http://localhost:11434/v1',
+    requiresKey: false
+  }
+};
+
+const AI_CONFIG = {
+  timeoutMs: 30000, // local models can be slow to load on first request
+  maxTokens: 300
+};
+
+export type AIErrorCode = 'NOT_CONFIGURED' | 'UNAUTHORIZED' | 'RATE_LIMITED' | 'MODEL_NOT_FOUND' | 'TIMEOUT' | 'ABORTED' | 'NETWORK' | 'BAD_RESPONSE';
+
+export class AIError extends Error {
+  constructor(public code: AIErrorCode, message: string) {
+    super(message);
+    this.name = 'AIError';
+  }
+}
+
+export interface AIConfig {
+  provider: AIProvider;
+  model?: string;
+  baseUrl?: string;
+  apiKey?: string;
+}
+
+export interface AIRequestOptions {
+  signal?: AbortSignal;
+  onText?: (text: string) => void; // called with the full text so far as chunks stream in
+}
+
+export const resolveConfig = (config: AIConfig) => {
+  if (config.provider === 'unknown') return null;
+  const def = AI_PROVIDERS[config.provider];
+  return {
+    provider: config.provider,
+    model: (config.model || '').trim() || def.defaultModel,
+    baseUrl: ((config.provider === 'custom' && config.baseUrl) || def.baseUrl).trim().replace(/\/+$/, ''),
+    apiKey: (config.apiKey || '').trim()
+  };
+};
+
+export const isConfigured = (config: AIConfig): boolean => {
+  const resolved = resolveConfig(config);
+  return !!resolved && (!!resolved.apiKey || !AI_PROVIDERS[resolved.provider].requiresKey);
+};
+
+const authHeaders = (config: NonNullable<ReturnType<typeof resolveConfig>>): Record<string, string> => {
+  if (config.provider === 'gemini') return { 'x-goog-api-key': config.apiKey };
+  return config.apiKey ? { Authorization: `Bearer ${config.apiKey}` } : {};
+};
+
+const buildRequest = (config: NonNullable<ReturnType<typeof resolveConfig>>, prompt: string): { url: string; init: RequestInit } => {
+  if (config.provider === 'gemini') {
+    return {
+      url: `${config.baseUrl}/models/${encodeURIComponent(config.model)}:streamGenerateContent?alt=sse`,
+      init: {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json', ...authHeaders(config) },
+        body: JSON.stringify({
+          contents: [{ role: 'user', parts: [{ text: prompt }] }],
+          generationConfig: { maxOutputTokens: AI_CONFIG.maxTokens }
+        })
+      }
+    };
+  }
+  return {
+    url: `${config.baseUrl}/chat/completions`,
+    init: {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json', ...authHeaders(config) },
+      body: JSON.stringify({
+        model: config.model,
+        messages: [{ role: 'user', content: prompt }],
+        max_tokens: AI_CONFIG.maxTokens,
+        stream: true
+      })
+    }
+  };
+};
+
+// Text carried by one streamed event, or by a whole non-streamed body.
+const extractText = (provider: ConfiguredProvider, data: any): string => {
+  if (provider === 'gemini') {
+    const parts = data?.candidates?.[0]?.content?.parts;
+    return Array.isArray(parts) ? parts.map((p: any) => (typeof p?.text === 'string' ? p.text : '')).join('') : '';
+  }
+  const choice = data?.choices?.[0];
+  return choice?.delta?.content ?? choice?.message?.content ?? '';
+};
+
+const statusError = (status: number): AIError => {
+  if (status === 401 || status === 403) return new AIError('UNAUTHORIZED', `Provider rejected the key (${status})`);
+  if (status === 429) return new AIError('RATE_LIMITED', 'Provider rate limit or quota reached');
+  if (status === 404) return new AIError('MODEL_NOT_FOUND', 'Model or endpoint not found');
+  return new AIError('BAD_RESPONSE', `Provider returned ${status}`);
+};
+
+// Runs `request` under AI_CONFIG.timeoutMs and the caller's signal, mapping every failure to an AIError.
+const withTimeout = async <T>(signal: AbortSignal | undefined, request: (signal: AbortSignal) => Promise<T>): Promise<T> => {
+  const controller = new AbortController();
+  let timedOut = false;
+  const timer = setTimeout(() => { timedOut = true; controller.abort(); }, AI_CONFIG.timeoutMs);
+  const onAbort = () => controller.abort();
+  if (signal?.aborted) controller.abort();
+  signal?.addEventListener('abort', onAbort);
+
+  try {
+    return await request(controller.signal);
+  } catch (e: any) {
+    if (e instanceof AIError) throw e;
+    if (e?.name === 'AbortError') throw timedOut ? new AIError('TIMEOUT', 'Provider did not answer in time') : new AIError('ABORTED', 'Request cancelled');
+    if (e instanceof SyntaxError) throw new AIError('BAD_RESPONSE', 'Provider returned malformed JSON');
+    throw new AIError('NETWORK', e?.message || 'Network request failed');
+  } finally {
+    clearTimeout(timer);
+    signal?.removeEventListener('abort', onAbort);
+  }
+};
+
+export const AIClient = {
+  // Streams when the server answers with SSE; servers that ignore `stream` and
+  // return a plain JSON body are handled too.
+  complete: async (config: AIConfig, prompt: string, options: AIRequestOptions = {}): Promise<string> => {
+    const resolved = resolveConfig(config);
+    if (!resolved || !isConfigured(config)) throw new AIError('NOT_CONFIGURED', 'No provider or API key set');
+
+    return withTimeout(options.signal, async (signal) => {
+      const { url, init } = buildRequest(resolved, prompt);
+      const res = await fetch(url, { ...init, signal });
+      if (!res.ok) throw statusError(res.status);
+
+      let text = '';
+      if (!res.body || !(res.headers.get('content-type') || '').includes('text/event-stream')) {
+        text = extractText(resolved.provider, await res.json()).trim();
+      } else {
+        const reader = res.body.getReader();
+        const decoder = new TextDecoder();
+        let buffer = '';
+        while (true) {
+          const { done, value } = await reader.read();
+          if (done) break;
+          buffer += decoder.decode(value, { stream: true });
+          const lines = buffer.split('\n');
+          buffer = lines.pop() || '';
+          for (const line of lines) {
+            const payload = line.trim();
+            if (!payload.startsWith('data:')) continue;
+            const data = payload.slice(5).trim();
+            if (data === '[DONE]') continue;
+            try {
+              text += extractText(resolved.provider, JSON.parse(data));
+            } catch {
+              continue; // keep-alive or partial event
+            }
+            options.onText?.(text);
+          }
+        }
+        text = text.trim();
+      }
+
+      if (!text) throw new AIError('BAD_RESPONSE', 'Provider returned no text');
+      return text;
+    });
+  },
+
+  // Checks the key and endpoint by listing models, which no provider bills for.
+  test: async (config: AIConfig, signal?: AbortSignal): Promise<void> => {
+    const resolved = resolveConfig(config);
+    if (!resolved || !isConfigured(config)) throw new AIError('NOT_CONFIGURED', 'No provider or API key set');
+
+    return withTimeout(signal, async (requestSignal) => {
+      const res = await fetch(`${resolved.baseUrl}/models`, { headers: authHeaders(resolved), signal: requestSignal });
+      if (!res.ok) throw statusError(res.status);
+    });
+  }
+};
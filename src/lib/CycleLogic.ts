@@ -0,0 +1,85 @@
+import { CycleDay, PeriodStartPolicy, LifeStage } from './types';
+import { LIFE_STAGES } from './LifeStage';
+import { CycleStats, CycleSummary, DateRange } from './CycleStats';
+import { PeriodDetection } from './PeriodDetection';
+import { addDays } from './utils';
+
+export interface CycleHistory {
+  starts: string[];
+  avgLength: number;
+  lastStart: string | undefined;
+  stats: CycleSummary;
+}
+
+export interface CyclePrediction {
+  nextPeriod: string | null;
+  ovulation: string | null;
+  fertileWindow: string[];
+  ovulationConfirmed: boolean;
+  nextPeriodRange: DateRange | null;
+  ovulationRange: DateRange | null;
+}
+
+export const CycleLogic = {
+  analyzeHistory: (data: CycleDay[], fallbackLength: number = 28, policy?: PeriodStartPolicy): CycleHistory => {
+    const periods = PeriodDetection.detect(data, policy);
+    const starts = periods.map(p => p.start);
+    
+    const stats = CycleStats.summarize(CycleStats.buildCycles(data, periods));
+    const avgLength = stats.mean !== null ? Math.round(stats.mean) : fallbackLength;
+
+    return { starts, avgLength, lastStart: starts[starts.length - 1], stats };
+  },
+
+  // A thermally confirmed ovulation date overrides the calendar estimate
+  // (nextPeriod = ovulation + luteal length instead of ovulation = nextPeriod - 14).
+  // Life stages that require a confirmed ovulation get a period projection only.
+  predict: (lastStart: string | undefined, avgLength: number, confirmedOvulation?: string | null, lutealLength: number = 14, stats: CycleSummary | null = null, lifeStage: LifeStage = 'regular'): CyclePrediction => {
+    if (!lastStart) return { nextPeriod: null, ovulation: null, fertileWindow: [], ovulationConfirmed: false, nextPeriodRange: null, ovulationRange: null };
+    const projectOvulation = !!confirmedOvulation || !LIFE_STAGES[lifeStage].requireConfirmedOvulation;
+    
+    const start = new Date(lastStart);
+    const nextPeriodDate = new Date(start);
+    const ovulationDate = new Date(start);
+    if (confirmedOvulation) {
+      ovulationDate.setTime(new Date(confirmedOvulation).getTime());
+      nextPeriodDate.setTime(ovulationDate.getTime());
+      nextPeriodDate.setDate(ovulationDate.getDate() + lutealLength);
+    } else {
+      nextPeriodDate.setDate(start.getDate() + avgLength);
+      ovulationDate.setTime(nextPeriodDate.getTime());
+      ovulationDate.setDate(nextPeriodDate.getDate() - lutealLength);
+    }
+
+    const fertileWindow: string[] = [];
+    for(let i=5; i>=0; i--) {
+        const d = new Date(ovulationDate);
+        d.setDate(ovulationDate.getDate() - i);
+        fertileWindow.push(d.toISOString().split('T')[0]);
+    }
+    const d = new Date(ovulationDate);
+    d.setDate(ovulationDate.getDate() + 1);
+    fertileWindow.push(d.toISOString().split('T')[0]);
+
+    const nextPeriod = nextPeriodDate.toISOString().split('T')[0];
+    const ovulation = ovulationDate.toISOString().split('T')[0];
+
+    // Once ovulation is confirmed only luteal variation remains, which is narrow.
+    if (!projectOvulation) {
+      return { nextPeriod, ovulation: null, fertileWindow: [], ovulationConfirmed: false, nextPeriodRange: CycleStats.range(nextPeriod, stats), ovulationRange: null };
+    }
+
+    return {
+      nextPeriod,
+      ovulation,
+      fertileWindow,
+      ovulationConfirmed: !!confirmedOvulation,
+      nextPeriodRange: confirmedOvulation 
+        ? { earliest: addDays(nextPeriod, -1), likely: nextPeriod, latest: addDays(nextPeriod, 1) } 
+        : CycleStats.range(nextPeriod, stats),
+      ovulationRange: confirmedOvulation 
+        ? { earliest: ovulation, likely: ovulation, latest: ovulation } 
+        : CycleStats.range(ovulation, stats)
+    };
+  }
+};
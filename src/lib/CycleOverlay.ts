@@ -0,0 +1,78 @@
+import { CycleDay } from './types';
+import { OvulationResult } from './ThermalShift';
+import { daysBetween } from './utils';
+import { TemperatureQuality } from './TemperatureQuality';
+
+export type OverlayAlignment = 'cycle_day' | 'ovulation';
+
+export interface OverlayCycle {
+  key: string; // cycle start date, also the series dataKey
+  start: string;
+  end: string | null; // exclusive; null for the open cycle
+  ovulationDate: string | null;
+  current: boolean;
+}
+
+// One row per x position. Cycle series are keyed by OverlayCycle.key.
+export interface OverlayRow {
+  x: number;
+  mean: number | null;
+  band: [number, number] | null; // mean ± 1 SD across visible cycles
+  [cycleKey: string]: number | null | [number, number];
+}
+
+export interface OverlayResult {
+  alignment: OverlayAlignment;
+  cycles: OverlayCycle[]; // oldest first; excludes cycles that cannot be aligned
+  rows: OverlayRow[];
+}
+
+const OVERLAY = {
+  defaultCount: 6,
+  minBandSamples: 2
+};
+
+const round2 = (v: number) => Math.round(v * 100) / 100;
+
+export const CycleOverlay = {
+  // Cycle-day alignment puts day 1 of every cycle at x = 1. Ovulation alignment puts each
+  // cycle's thermally confirmed ovulation at x = 0, so cycles without one are left out.
+  build: (data: CycleDay[], starts: string[], ovulations: OvulationResult[], alignment: OverlayAlignment = 'cycle_day', count: number = OVERLAY.defaultCount, hidden: string[] = []): OverlayResult => {
+    const cycles: OverlayCycle[] = starts.map((start, i) => {
+      const ovulation = ovulations.find(o => o.cycleStart === start);
+      return {
+        key: start, start, end: starts[i + 1] || null,
+        ovulationDate: ovulation?.confirmed ? ovulation.ovulationDate : null,
+        current: i === starts.length - 1
+      };
+    })
+      .filter(c => alignment === 'cycle_day' || c.ovulationDate)
+      .slice(-count);
+
+    const excluded = TemperatureQuality.excluded(data);
+    const byX = new Map<number, OverlayRow>();
+    cycles.forEach(cycle => {
+      const origin = alignment === 'ovulation' ? cycle.ovulationDate! : cycle.start;
+      const offset = alignment === 'ovulation' ? 0 : 1;
+      data
+        .filter(d => d.temperature !== null && !excluded.has(d.date) && d.date >= cycle.start && (!cycle.end || d.date < cycle.end))
+        .forEach(d => {
+          const x = daysBetween(origin, d.date) + offset;
+          if (!byX.has(x)) byX.set(x, { x, mean: null, band: null });
+          byX.get(x)![cycle.key] = d.temperature;
+        });
+    });
+
+    const rows = Array.from(byX.values()).sort((a, b) => a.x - b.x);
+    rows.forEach(row => {
+      const values = cycles.filter(c => !hidden.includes(c.key)).map(c => row[c.key]).filter((v): v is number => typeof v === 'number');
+      if (values.length < OVERLAY.minBandSamples) return;
+      const mean = values.reduce((s, v) => s + v, 0) / values.length;
+      const sd = Math.sqrt(values.reduce((s, v) => s + (v - mean) ** 2, 0) / (values.length - 1));
+      row.mean = round2(mean);
+      row.band = [round2(mean - sd), round2(mean + sd)];
+    });
+
+    return { alignment, cycles, rows };
+  }
+};
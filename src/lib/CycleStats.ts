@@ -0,0 +1,132 @@
+import { CycleDay } from './types';
+import { ThermalShift } from './ThermalShift';
+import { PeriodEpisode } from './PeriodDetection';
+import { addDays, daysBetween } from './utils';
+
+// Cycle lengths outside this span are kept in the statistics but flagged, since
+// they usually mean a missed log or an anovulatory cycle rather than a typo.
+const TYPICAL_LENGTH = { min: 21, max: 35 };
+const DEFAULT_SPREAD = 3;
+
+export type Regularity = 'insufficient_data' | 'regular' | 'somewhat_irregular' | 'irregular';
+export type TrendDirection = 'insufficient_data' | 'stable' | 'lengthening' | 'shortening';
+
+export interface CycleRecord {
+  start: string;
+  length: number | null; // null for the running cycle
+  periodLength: number;
+  ovulationDay: number | null; // cycle day of the detected ovulation
+  lutealLength: number | null;
+  complete: boolean;
+  atypical: boolean;
+}
+
+export interface CycleSummary {
+  cycles: CycleRecord[];
+  count: number; // complete cycles only
+  mean: number | null;
+  median: number | null;
+  stdDev: number | null;
+  min: number | null;
+  max: number | null;
+  lutealMean: number | null;
+  regularity: Regularity;
+  trend: { direction: TrendDirection; slope: number; window: number };
+}
+
+export interface DateRange {
+  earliest: string;
+  likely: string;
+  latest: string;
+}
+
+const mean = (xs: number[]) => xs.reduce((a, b) => a + b, 0) / xs.length;
+
+const median = (xs: number[]) => {
+  const s = [...xs].sort((a, b) => a - b);
+  const mid = Math.floor(s.length / 2);
+  return s.length % 2 ? s[mid] : (s[mid - 1] + s[mid]) / 2;
+};
+
+const stdDev = (xs: number[]) => {
+  if (xs.length < 2) return 0;
+  const m = mean(xs);
+  return Math.sqrt(xs.reduce((a, x) => a + (x - m) ** 2, 0) / (xs.length - 1));
+};
+
+// Least-squares slope of cycle length against cycle index (days per cycle).
+const slope = (xs: number[]) => {
+  const n = xs.length;
+  const mx = (n - 1) / 2;
+  const my = mean(xs);
+  let num = 0, den = 0;
+  xs.forEach((y, x) => { num += (x - mx) * (y - my); den += (x - mx) ** 2; });
+  return den === 0 ? 0 : num / den;
+};
+
+const round1 = (n: number) => Math.round(n * 10) / 10;
+
+export const CycleStats = {
+  buildCycles: (data: CycleDay[], periods: PeriodEpisode[]): CycleRecord[] => {
+    const starts = periods.map(p => p.start);
+    const ovulations = ThermalShift.detectAll(data, starts);
+
+    return periods.map((period, i) => {
+      const start = period.start;
+      const next = starts[i + 1];
+      const length = next ? daysBetween(start, next) : null;
+      const periodLength = daysBetween(period.start, period.end) + 1;
+
+      const ovulationDay = ovulations[i].ovulationCycleDay;
+      return {
+        start,
+        length,
+        periodLength,
+        ovulationDay,
+        lutealLength: length !== null && ovulationDay !== null ? length - ovulationDay : null,
+        complete: length !== null,
+        atypical: length !== null && (length < TYPICAL_LENGTH.min || length > TYPICAL_LENGTH.max)
+      };
+    });
+  },
+
+  summarize: (cycles: CycleRecord[], trendWindow: number = 6): CycleSummary => {
+    const lengths = cycles.filter(c => c.complete).map(c => c.length as number);
+    const luteal = cycles.map(c => c.lutealLength).filter((l): l is number => l !== null);
+
+    let regularity: Regularity = 'insufficient_data';
+    if (lengths.length >= 3) {
+      // Spread between shortest and longest cycle (ACOG-style thresholds).
+      const spread = Math.max(...lengths) - Math.min(...lengths);
+      regularity = spread <= 7 ? 'regular' : spread <= 20 ? 'somewhat_irregular' : 'irregular';
+    }
+
+    const recent = lengths.slice(-trendWindow);
+    let direction: TrendDirection = 'insufficient_data';
+    const trendSlope = recent.length >= 3 ? slope(recent) : 0;
+    if (recent.length >= 3) {
+      direction = Math.abs(trendSlope) < 0.5 ? 'stable' : trendSlope > 0 ? 'lengthening' : 'shortening';
+    }
+
+    return {
+      cycles,
+      count: lengths.length,
+      mean: lengths.length ? round1(mean(lengths)) : null,
+      median: lengths.length ? median(lengths) : null,
+      stdDev: lengths.length ? round1(stdDev(lengths)) : null,
+      min: lengths.length ? Math.min(...lengths) : null,
+      max: lengths.length ? Math.max(...lengths) : null,
+      lutealMean: luteal.length ? round1(mean(luteal)) : null,
+      regularity,
+      trend: { direction, slope: round1(trendSlope), window: recent.length }
+    };
+  },
+
+  // ±1 standard deviation around the likely date; a fixed spread until two cycles exist.
+  range: (likely: string, summary: CycleSummary | null): DateRange => {
+    const spread = summary && summary.count >= 2 && summary.stdDev !== null
+      ? Math.max(1, Math.ceil(summary.stdDev))
+      : DEFAULT_SPREAD;
+    return { earliest: addDays(likely, -spread), likely, latest: addDays(likely, spread) };
+  }
+};
@@ -0,0 +1,199 @@
+import { CycleDay, MucusType, LifeStage } from './types';
+import { LIFE_STAGES, PATCH_COUNT } from './LifeStage';
+import { CycleSummary } from './CycleStats';
+import { OvulationResult } from './ThermalShift';
+import { addDays, daysBetween } from './utils';
+
+// Per-cycle conception probability by day relative to ovulation, for intercourse
+// on that day only (Wilcox et al., NEJM 1995). Days outside the table are ~0.
+const BASE_CURVE: Record<string, number> = {
+  '-5': 0.10, '-4': 0.16, '-3': 0.14, '-2': 0.27, '-1': 0.31, '0': 0.33, '1': 0.02
+};
+
+// Likelihood multipliers for same-day observations.
+const MUCUS_FACTOR: Record<MucusType, number> = {
+  none: 1, dry: 0.5, sticky: 0.8, creamy: 1.1, watery: 1.4, eggwhite: 1.6
+};
+const POST_SHIFT_FACTOR = 0.05;
+// Flat "potentially fertile" value for mucus patches when no ovulation is projected.
+const PATCH_PROBABILITY = 0.15;
+const PEAK_MUCUS: MucusType[] = ['watery', 'eggwhite'];
+
+const DEFAULT_CYCLE_SD = 3;
+const LUTEAL_SD = 1.5;
+const LH_SD = 0.8;
+const MAX_PROBABILITY = 0.5;
+export const FERTILE_THRESHOLD = 0.05;
+
+export type OvulationSource = 'thermal' | 'lh' | 'calendar';
+
+export interface FertilityDay {
+  date: string;
+  cycle: 'current' | 'next';
+  cycleDay: number;
+  probability: number; // conception probability for intercourse on this day
+  ovulationProbability: number;
+  signals: string[];
+}
+
+export interface ModelAssumptions {
+  source: OvulationSource;
+  lifeStage: LifeStage;
+  projecting: boolean; // false until ovulation is confirmed for life stages that require it
+  ovulationMean: string;
+  ovulationSd: number;
+  nextOvulationMean: string;
+  nextOvulationSd: number;
+  cycleLength: number;
+  cycleLengthSd: number;
+  cyclesUsed: number;
+  lutealLength: number;
+  lutealSd: number;
+  threshold: number;
+  baseCurve: Record<string, number>;
+  mucusFactors: Record<MucusType, number>;
+  postShiftFactor: number;
+}
+
+export interface FertilityForecast {
+  days: FertilityDay[];
+  window: { start: string; end: string } | null; // current cycle, probability >= threshold
+  peak: FertilityDay | null;
+  assumptions: ModelAssumptions;
+}
+
+export interface FertilityInput {
+  data: CycleDay[];
+  lastStart: string;
+  avgLength: number;
+  lutealLength: number;
+  stats: CycleSummary | null;
+  ovulation: OvulationResult | null;
+  lifeStage?: LifeStage;
+}
+
+// Discretized normal distribution over ovulation day offsets from `mean`.
+const ovulationDistribution = (mean: number, sd: number): Map<number, number> => {
+  const dist = new Map<number, number>();
+  const span = Math.ceil(3 * sd);
+  let total = 0;
+  for (let o = Math.round(mean) - span; o <= Math.round(mean) + span; o++) {
+    const w = Math.exp(-((o - mean) ** 2) / (2 * sd * sd));
+    dist.set(o, w);
+    total += w;
+  }
+  dist.forEach((w, o) => dist.set(o, w / total));
+  return dist;
+};
+
+const conception = (day: number, dist: Map<number, number>) => {
+  let p = 0;
+  dist.forEach((w, o) => { p += w * (BASE_CURVE[String(day - o)] || 0); });
+  return p;
+};
+
+const round3 = (n: number) => Math.round(n * 1000) / 1000;
+
+export const FertilityModel = {
+  forecast: ({ data, lastStart, avgLength, lutealLength, stats, ovulation, lifeStage = 'regular' }: FertilityInput): FertilityForecast => {
+    const rules = LIFE_STAGES[lifeStage];
+    const byDate = new Map(data.map(d => [d.date, d]));
+    const cycleSd = stats && stats.count >= 2 && stats.stdDev !== null ? Math.max(stats.stdDev, 1) : DEFAULT_CYCLE_SD;
+
+    // Ovulation offset (days since lastStart), best evidence first.
+    let source: OvulationSource = 'calendar';
+    let mean = avgLength - lutealLength;
+    let sd = Math.sqrt(cycleSd ** 2 + LUTEAL_SD ** 2);
+
+    const lhPositive = data
+      .filter(d => d.date >= lastStart && (d.lhTest === 'peak' || d.lhTest === 'equal'))
+      .sort((a, b) => a.date.localeCompare(b.date))
+      .pop();
+    if (ovulation?.confirmed && ovulation.ovulationDate) {
+      source = 'thermal';
+      mean = daysBetween(lastStart, ovulation.ovulationDate);
+      sd = 0.6;
+    } else if (lhPositive) {
+      source = 'lh';
+      mean = daysBetween(lastStart, lhPositive.date) + 1;
+      sd = LH_SD;
+    }
+
+    // The next cycle starts after the current one's luteal phase.
+    const nextStartOffset = Math.round(mean) + lutealLength;
+    const nextMean = nextStartOffset + avgLength - lutealLength;
+    const nextSd = Math.sqrt(sd ** 2 + cycleSd ** 2 + LUTEAL_SD ** 2);
+
+    const projecting = source === 'thermal' || !rules.requireConfirmedOvulation;
+    const current = projecting ? ovulationDistribution(mean, sd) : new Map<number, number>();
+    const next = projecting ? ovulationDistribution(nextMean, nextSd) : new Map<number, number>();
+    const horizon = nextStartOffset + avgLength;
+
+    // Without a projection, only observed mucus (plus the count of days after it) marks fertility.
+    const patchDays = new Set<string>();
+    if (!projecting) {
+      data.filter(d => d.date >= lastStart && (rules.patchOfMucus ? !['none', 'dry'].includes(d.mucus) : PEAK_MUCUS.includes(d.mucus)))
+        .forEach(d => { for (let i = 0; i <= PATCH_COUNT; i++) patchDays.add(addDays(d.date, i)); });
+    }
+
+    const days: FertilityDay[] = [];
+    for (let offset = 0; offset < horizon; offset++) {
+      const date = addDays(lastStart, offset);
+      const isCurrent = offset < nextStartOffset;
+      const dist = isCurrent ? current : next;
+      let probability = conception(offset, dist);
+      const signals: string[] = [];
+
+      const entry = byDate.get(date);
+      if (entry && entry.mucus !== 'none') {
+        probability *= MUCUS_FACTOR[entry.mucus];
+        signals.push(`mucus:${entry.mucus}`);
+      }
+      if (entry && (entry.lhTest === 'peak' || entry.lhTest === 'equal')) signals.push(`lh:${entry.lhTest}`);
+      if (patchDays.has(date)) {
+        probability = Math.max(probability, PATCH_PROBABILITY);
+        signals.push('patch');
+      }
+      if (ovulation?.confirmed && ovulation.shiftDate && isCurrent && date > ovulation.shiftDate) {
+        probability *= POST_SHIFT_FACTOR;
+        signals.push('post-shift');
+      }
+
+      days.push({
+        date,
+        cycle: isCurrent ? 'current' : 'next',
+        cycleDay: isCurrent ? offset + 1 : offset - nextStartOffset + 1,
+        probability: round3(Math.min(probability, MAX_PROBABILITY)),
+        ovulationProbability: round3(dist.get(offset) || 0),
+        signals
+      });
+    }
+
+    const fertile = days.filter(d => d.cycle === 'current' && d.probability >= FERTILE_THRESHOLD);
+    const peak = fertile.reduce<FertilityDay | null>((best, d) => (!best || d.probability > best.probability ? d : best), null);
+
+    return {
+      days,
+      window: fertile.length ? { start: fertile[0].date, end: fertile[fertile.length - 1].date } : null,
+      peak,
+      assumptions: {
+        source,
+        lifeStage,
+        projecting,
+        ovulationMean: addDays(lastStart, Math.round(mean)),
+        ovulationSd: round3(sd),
+        nextOvulationMean: addDays(lastStart, Math.round(nextMean)),
+        nextOvulationSd: round3(nextSd),
+        cycleLength: avgLength,
+        cycleLengthSd: cycleSd,
+        cyclesUsed: stats?.count || 0,
+        lutealLength,
+        lutealSd: LUTEAL_SD,
+        threshold: FERTILE_THRESHOLD,
+        baseCurve: BASE_CURVE,
+        mucusFactors: MUCUS_FACTOR,
+        postShiftFactor: POST_SHIFT_FACTOR
+      }
+    };
+  }
+};
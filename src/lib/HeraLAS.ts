@@ -1,6 +1,9 @@
-import { CycleDay, MucusType, LHResult, CervixPosition } from './types';
+import { CycleDay, MucusType, LHResult, CervixPosition, LifeStage, Unit, Language } from './types';
+import { LIFE_STAGES, EngineWeights } from './LifeStage';
+import { Temperature, BASELINE_TEMP } from './Temperature';
+import { I18n } from './i18n';
 
-const WEIGHTS = {
+const WEIGHTS: EngineWeights = {
   MUCUS: 2.5,
   TEMP: 2.2,
   LH: 1.9,
@@ -40,53 +43,60 @@ export class HeraEngine {
     return map[c] || 1;
   }
 
-  private static normalizeTemp(t: number, day: number): number {
-    if (t < 36.1) return 2; 
-    if (t > 36.4 && t < 36.7 && day < 14) return 8; 
-    if (t >= 36.7 && day >= 14) return 9; 
+  // With a detected coverline the reading is judged against the user's own
+  // baseline; the fixed cutoffs (°C, converted) are only a fallback before the first shift.
+  private static normalizeTemp(t: number, day: number, coverline: number | null | undefined, unit: Unit): number {
+    if (coverline != null) {
+      if (t > coverline) return 9;
+      if (t > coverline - Temperature.delta(0.2, unit)) return 8;
+      return 5;
+    }
+    const c = (celsius: number) => Temperature.fromC(celsius, unit);
+    if (t < c(36.1)) return 2; 
+    if (t > c(36.4) && t < c(36.7) && day < 14) return 8; 
+    if (t >= c(36.7) && day >= 14) return 9; 
     return 5;
   }
 
-  public static compute(input: Partial<CycleDay> & { cycleDay: number }): ForensicOutput {
-    
+  // `probability` should come from FertilityModel; without it the output falls
+  // back to the normalized score, which is a ranking, not a calibrated chance.
+  public static compute(input: Partial<CycleDay> & { cycleDay: number; coverline?: number | null; probability?: number; lifeStage?: LifeStage; lang?: Language }): ForensicOutput {
+    const W = { ...WEIGHTS, ...LIFE_STAGES[input.lifeStage || 'regular'].engineWeights };
+
     const M = this.normalizeMucus(input.mucus || 'none');
     const L = this.normalizeLH(input.lhTest || 'negative');
     const P = this.normalizeCervix(input.cervix || 'low_hard');
-    const T = this.normalizeTemp(input.temperature || 36.5, input.cycleDay);
+    const unit = input.temperatureUnit || 'C';
+    const T = this.normalizeTemp(input.temperature || BASELINE_TEMP[unit], input.cycleDay, input.coverline, unit);
     const S = Math.max(input.stressLevel || 1, 1);
 
-    const mFac = Math.pow(M, WEIGHTS.MUCUS);
-    const tFac = Math.pow(T, WEIGHTS.TEMP);
-    const lFac = Math.pow(L || 1, WEIGHTS.LH); 
-    const pFac = Math.pow(P, WEIGHTS.CERVIX);
-    const sFac = Math.pow(S, WEIGHTS.STRESS);
+    const mFac = Math.pow(M, W.MUCUS);
+    const tFac = Math.pow(T, W.TEMP);
+    const lFac = Math.pow(L || 1, W.LH); 
+    const pFac = Math.pow(P, W.CERVIX);
+    const sFac = Math.pow(S, W.STRESS);
 
     let rawScore = (mFac * tFac * lFac * pFac) / sFac;
     const logScore = Math.log10(rawScore + 1) * 2000; 
     const finalScore = Math.min(Math.round(logScore), 10000);
 
     let status: ForensicOutput['status'] = 'WAITING';
-    let directive = "Maintain baseline monitoring.";
     
     if (S > 7) {
         status = 'STRESS_BLOCK';
-        directive = "CRITICAL: Cortisol override detected. HPO axis suppressed. Initiate regulation protocol.";
     } else if (finalScore >= 7500) {
         status = 'FERTILE_PEAK';
-        directive = "WINDOW OPEN: Biometric Probability >90%. Connection recommended.";
     } else if (finalScore >= 5000) {
         status = 'HIGH_FERTILITY';
-        directive = "WINDOW OPENING: Probability rising. Monitor LH every 4 hours.";
     } else if (input.cycleDay > 20 && T > 8) {
         status = 'LUTEAL_LOCK';
-        directive = "Window closed. Progesterone dominance confirmed.";
     }
 
     return {
       score: finalScore,
       status: status,
-      actionDirective: directive,
-      probability: finalScore / 10000,
+      actionDirective: I18n.t(input.lang || 'en', `engine.directive.${status}`),
+      probability: input.probability ?? finalScore / 10000,
       vectorAnalysis: `M:${M} T:${T} L:${L} S:${S}`
     };
   }
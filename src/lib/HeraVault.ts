@@ -1,4 +1,4 @@
-import { AppState } from './types';
+import { AppState, VaultSecrets } from './types';
 
 const VAULT_CONFIG = {
   algo: 'AES-GCM',
@@ -9,114 +9,417 @@ const VAULT_CONFIG = {
   ivLen: 12
 };
 
-export class HeraVault {
-  
-  private static async deriveKey(password: string, salt: Uint8Array): Promise<CryptoKey> {
-    // SSR Guard: Prevent server-side crash during build
-    if (typeof window === 'undefined') {
-       // Return a dummy key or throw during build time if needed, 
-       // but typically we just want to avoid the crash.
-       throw new Error("Crypto unavailable on server");
-    }
+export const VAULT_VERSION = 'v101-wrapped';
+
+// Written by the first HeraVault implementation: no authHash, stored under its own key.
+const LEGACY_VAULT_VERSION = 'v1.0-forensic';
+
+// Recovery codes carry 100 random bits, so the KDF only has to be a formality: guessing a
+// code is infeasible at any speed, and unlocking has to try every code in turn.
+const RECOVERY_CONFIG = {
+  count: 8,
+  groups: 4,
+  groupLen: 5,
+  alphabet: 'ABCDEFGHJKLMNPQRSTUVWXYZ23456789', // 32 symbols, no I/O/0/1
+  iterations: 10000
+};
+
+const BACKUP_FORMAT = 'hera-backup';
+const BACKUP_VERSION = 1;
+
+interface BackupHeader {
+  format: typeof BACKUP_FORMAT;
+  version: number;
+  cipher: string;
+  kdf: { name: 'PBKDF2'; hash: string; iterations: number };
+  createdAt: number;
+}
+
+interface KdfParams {
+  name: 'PBKDF2';
+  hash: string;
+  iterations: number;
+  salt: string;
+}
+
+// The data key wrapped (AES-GCM) under a PBKDF2 key-encryption key.
+interface KeyWrap {
+  kdf: KdfParams;
+  wrap: { iv: string; key: string };
+}
+
+// Everything needed to recover the data key. The data key is random and only ever stored
+// wrapped, once under the password and once per recovery code, so a wrong secret shows up
+// as a failed GCM tag on unwrap and nothing password-derived is stored in the clear.
+export interface VaultHeader extends KeyWrap {
+  version: typeof VAULT_VERSION;
+  recovery?: KeyWrap[]; // one per unused recovery code
+}
+
+// Reported while unlocking: the KDF is by far the slowest step, so each stage is worth showing.
+export type UnlockStage = 'deriving' | 'decrypting' | 'upgrading';
+
+// An unlocked vault: the header to write back and a non-extractable handle to the data key.
+export interface VaultSession {
+  header: VaultHeader;
+  dataKey: CryptoKey;
+}
+
+export const EMPTY_SECRETS: VaultSecrets = { aiApiKey: null };
+
+// 'encrypted' = passphrase-protected export, 'vault' = raw copy of the stored vault,
+// 'plaintext' = legacy JSON.stringify(state) export.
+export type BackupKind = 'encrypted' | 'vault' | 'plaintext';
+
+// Shape check only; field-level validation happens in schema.migrateState.
+const looksLikeAppState = (obj: any): boolean => 
+  !!obj && typeof obj === 'object' && !!obj.profile && typeof obj.profile === 'object' && Array.isArray(obj.cycleData);
+
+export class HeraSecurity {
+  private static bufferToBase64(buffer: ArrayBuffer | Uint8Array): string {
+    const bytes = buffer instanceof Uint8Array ? buffer : new Uint8Array(buffer);
+    let binary = '';
+    for (let i = 0; i < bytes.byteLength; i++) binary += String.fromCharCode(bytes[i]);
+    return btoa(binary);
+  }
+
+  private static base64ToBuffer(base64: string): ArrayBuffer {
+    const binary_string = atob(base64);
+    const len = binary_string.length;
+    const bytes = new Uint8Array(len);
+    for (let i = 0; i < len; i++) bytes[i] = binary_string.charCodeAt(i);
+    return bytes.buffer;
+  }
+
+  private static async deriveKey(password: string, salt: Uint8Array, iterations: number = VAULT_CONFIG.iterations, usages: KeyUsage[] = ["encrypt", "decrypt"], extractable: boolean = false): Promise<CryptoKey> {
+    // SSR Guard: Prevent server-side crash during build. Runs in a window or a worker.
+    if (typeof crypto === 'undefined' || !crypto.subtle) throw new Error("Crypto unavailable on server");
 
     const enc = new TextEncoder();
-    const keyMaterial = await window.crypto.subtle.importKey(
+    const keyMaterial = await crypto.subtle.importKey(
       "raw", enc.encode(password), { name: "PBKDF2" }, false, ["deriveKey"]
     );
-
-    return window.crypto.subtle.deriveKey(
-      // @ts-ignore - TS definition mismatch workaround
-      { name: "PBKDF2", salt: salt, iterations: VAULT_CONFIG.iterations, hash: VAULT_CONFIG.hash },
-      keyMaterial, { name: "AES-GCM", length: 256 }, true, ["encrypt", "decrypt"]
+    return crypto.subtle.deriveKey(
+      // @ts-ignore
+      { name: "PBKDF2", salt: salt, iterations: iterations, hash: VAULT_CONFIG.hash },
+      keyMaterial, { name: "AES-GCM", length: 256 }, extractable, usages
     );
   }
 
-  public static async lock(data: AppState, password: string): Promise<void> {
-    if (typeof window === 'undefined') return;
+  // --- KEY WRAPPING ---
+
+  private static async wrapDataKey(dataKey: CryptoKey, password: string, iterations: number = VAULT_CONFIG.iterations): Promise<KeyWrap> {
+    const salt = crypto.getRandomValues(new Uint8Array(VAULT_CONFIG.saltLen));
+    const iv = crypto.getRandomValues(new Uint8Array(VAULT_CONFIG.ivLen));
+    const kek = await this.deriveKey(password, salt, iterations, ["wrapKey", "unwrapKey"]);
+    // @ts-ignore
+    const wrapped = await crypto.subtle.wrapKey("raw", dataKey, kek, { name: "AES-GCM", iv: iv });
+    return {
+      kdf: { name: "PBKDF2", hash: VAULT_CONFIG.hash, iterations, salt: this.bufferToBase64(salt) },
+      wrap: { iv: this.bufferToBase64(iv), key: this.bufferToBase64(wrapped) }
+    };
+  }
 
+  // Extractable only while re-wrapping under a new password or iteration count.
+  private static async unwrapDataKey(keyWrap: KeyWrap, password: string, extractable: boolean = false): Promise<CryptoKey> {
+    const kek = await this.deriveKey(password, new Uint8Array(this.base64ToBuffer(keyWrap.kdf.salt)), keyWrap.kdf.iterations, ["wrapKey", "unwrapKey"]);
     try {
-      const salt = window.crypto.getRandomValues(new Uint8Array(VAULT_CONFIG.saltLen));
-      const iv = window.crypto.getRandomValues(new Uint8Array(VAULT_CONFIG.ivLen));
-      const key = await this.deriveKey(password, salt);
-      const enc = new TextEncoder();
-      const encodedData = enc.encode(JSON.stringify(data));
-      
-      const ciphertext = await window.crypto.subtle.encrypt(
-        // @ts-ignore - TS definition mismatch workaround
-        { name: "AES-GCM", iv: iv }, 
-        key, 
-        encodedData
+      return await crypto.subtle.unwrapKey(
+        "raw", this.base64ToBuffer(keyWrap.wrap.key), kek,
+        // @ts-ignore
+        { name: "AES-GCM", iv: new Uint8Array(this.base64ToBuffer(keyWrap.wrap.iv)) },
+        { name: "AES-GCM", length: VAULT_CONFIG.length }, extractable, ["encrypt", "decrypt"]
       );
+    } catch (e) {
+      throw new Error("INVALID_CREDENTIALS");
+    }
+  }
+
+  // Same data key, new password and/or KDF parameters. Existing ciphertext and recovery codes stay valid.
+  private static async rewrap(header: VaultHeader, oldPassword: string, newPassword: string): Promise<VaultHeader> {
+    const exportable = await this.unwrapDataKey(header, oldPassword, true);
+    return { ...header, ...await this.wrapDataKey(exportable, newPassword) };
+  }
+
+  // Uppercase, separators dropped: 'abcde-fghjk…' and 'ABCDE FGHJK…' are the same code.
+  private static normalizeCode(code: string): string {
+    return code.toUpperCase().replace(/[^A-Z0-9]/g, '');
+  }
 
-      const vaultArtifact = {
-        // @ts-ignore - Force acceptance of Uint8Array
-        salt: this.bufferToBase64(salt),
-        // @ts-ignore - Force acceptance of Uint8Array
-        iv: this.bufferToBase64(iv),
-        // @ts-ignore - Force acceptance of ArrayBuffer
-        data: this.bufferToBase64(ciphertext),
-        version: "v1.0-forensic",
-        timestamp: Date.now()
-      };
-
-      localStorage.setItem('HERA_VAULT_CORE', JSON.stringify(vaultArtifact));
-    } catch (error) {
-      console.error("VAULT_LOCK_FAILURE", error);
-      throw new Error("Security Breach: Encryption Failed.");
+  private static generateCode(): string {
+    const bytes = crypto.getRandomValues(new Uint8Array(RECOVERY_CONFIG.groups * RECOVERY_CONFIG.groupLen));
+    const chars = Array.from(bytes, b => RECOVERY_CONFIG.alphabet[b % RECOVERY_CONFIG.alphabet.length]); // 256 % 32 = 0, so unbiased
+    const groups: string[] = [];
+    for (let i = 0; i < chars.length; i += RECOVERY_CONFIG.groupLen) groups.push(chars.slice(i, i + RECOVERY_CONFIG.groupLen).join(''));
+    return groups.join('-');
+  }
+
+  private static async openPayload(vault: any, dataKey: CryptoKey): Promise<{ payload: unknown; secrets: VaultSecrets }> {
+    try {
+      const payload = await this.openJSON(dataKey, vault.iv, vault.data);
+      const secrets = vault.secrets ? this.readSecrets(await this.openJSON(dataKey, vault.secretsIv, vault.secrets)) : { ...EMPTY_SECRETS };
+      return { payload, secrets };
+    } catch (e) {
+      // The data key unwrapped, so the secret was right and the ciphertext is damaged.
+      throw new Error("DECRYPTION_FAILED");
     }
   }
 
-  public static async unlock(password: string): Promise<AppState | null> {
-    if (typeof window === 'undefined') return null;
-    
-    const stored = localStorage.getItem('HERA_VAULT_CORE');
-    if (!stored) return null; 
+  // Encrypts a JSON value under `key` with a fresh IV.
+  private static async sealJSON(key: CryptoKey, value: unknown): Promise<{ iv: string; data: string }> {
+    const iv = crypto.getRandomValues(new Uint8Array(VAULT_CONFIG.ivLen));
+    const ciphertext = await crypto.subtle.encrypt(
+      // @ts-ignore
+      { name: "AES-GCM", iv: iv }, key, new TextEncoder().encode(JSON.stringify(value))
+    );
+    return { iv: this.bufferToBase64(iv), data: this.bufferToBase64(ciphertext) };
+  }
 
+  private static async openJSON(key: CryptoKey, iv: string, data: string): Promise<any> {
+    const decrypted = await crypto.subtle.decrypt(
+      // @ts-ignore
+      { name: "AES-GCM", iv: new Uint8Array(this.base64ToBuffer(iv)) }, key, this.base64ToBuffer(data)
+    );
+    return JSON.parse(new TextDecoder().decode(decrypted));
+  }
+
+  private static readSecrets(raw: any): VaultSecrets {
+    return { aiApiKey: raw && typeof raw.aiApiKey === 'string' && raw.aiApiKey ? raw.aiApiKey : null };
+  }
+
+  // True when the stored vault should be re-locked in the current format after unlock:
+  // an older generation, or KDF parameters weaker than VAULT_CONFIG.
+  public static needsUpgrade(vaultStr: string): boolean {
     try {
-      const vault = JSON.parse(stored);
-      const salt = new Uint8Array(this.base64ToBuffer(vault.salt));
-      const iv = new Uint8Array(this.base64ToBuffer(vault.iv));
-      const data = this.base64ToBuffer(vault.data);
-      const key = await this.deriveKey(password, salt);
-
-      const decrypted = await window.crypto.subtle.decrypt(
-        // @ts-ignore - TS definition mismatch workaround
-        { name: "AES-GCM", iv: iv }, 
-        key, 
-        data
-      );
+      const vault = JSON.parse(vaultStr);
+      return vault.version !== VAULT_VERSION || !(vault.kdf?.iterations >= VAULT_CONFIG.iterations);
+    } catch { return false; }
+  }
+
+  // --- VAULT ---
 
-      const dec = new TextDecoder();
-      return JSON.parse(dec.decode(decrypted));
-    } catch (error) {
-      throw new Error("ACCESS_DENIED: Decryption Failed."); 
+  // A fresh vault: random data key, wrapped under `password`.
+  public static async create(password: string): Promise<VaultSession> {
+    if (!password || password.trim().length === 0) throw new Error("Invalid Password");
+    const raw = crypto.getRandomValues(new Uint8Array(VAULT_CONFIG.length / 8));
+    const exportable = await crypto.subtle.importKey("raw", raw, { name: "AES-GCM" }, true, ["encrypt", "decrypt"]);
+    const dataKey = await crypto.subtle.importKey("raw", raw, { name: "AES-GCM" }, false, ["encrypt", "decrypt"]);
+    raw.fill(0);
+    return { header: { version: VAULT_VERSION, ...await this.wrapDataKey(exportable, password) }, dataKey };
+  }
+
+  // No key derivation here, so autosave stays cheap. Secrets are sealed separately
+  // (own IV) so state and credentials never share a plaintext.
+  public static async lock(session: VaultSession, data: AppState, secrets: VaultSecrets = EMPTY_SECRETS): Promise<string> {
+    const sealedData = await this.sealJSON(session.dataKey, data);
+    const sealedSecrets = await this.sealJSON(session.dataKey, secrets);
+    return JSON.stringify({
+      ...session.header,
+      iv: sealedData.iv,
+      data: sealedData.data,
+      secretsIv: sealedSecrets.iv,
+      secrets: sealedSecrets.data
+    });
+  }
+
+  // Only the data key is re-wrapped, so this costs two key derivations whatever the history size.
+  // Throws INVALID_CREDENTIALS when `currentPassword` does not open the session's header.
+  public static async changePassword(session: VaultSession, currentPassword: string, newPassword: string): Promise<VaultSession> {
+    if (!newPassword || newPassword.trim().length === 0) throw new Error("Invalid Password");
+    return { header: await this.rewrap(session.header, currentPassword, newPassword), dataKey: session.dataKey };
+  }
+
+  // Reads v101-wrapped, v100-platinum (authHash checked) and v1.0-forensic (GCM tag only) vaults.
+  // Returns the raw payload (run it through migrateState before use), the secrets compartment and
+  // a session in the current format; older vaults get a fresh data key, so re-lock them (see needsUpgrade).
+  public static async unlock(vaultStr: string, password: string, onProgress?: (stage: UnlockStage) => void): Promise<{ payload: unknown; secrets: VaultSecrets; session: VaultSession }> {
+    const vault = JSON.parse(vaultStr);
+    onProgress?.('deriving');
+    if (vault.version !== VAULT_VERSION) {
+      const { payload, secrets } = await this.unlockLegacy(vault, password);
+      onProgress?.('upgrading');
+      return { payload, secrets, session: await this.create(password) };
+    }
+
+    const header = this.readHeader(vault);
+    const dataKey = await this.unwrapDataKey(header, password);
+    onProgress?.('decrypting');
+    const { payload, secrets } = await this.openPayload(vault, dataKey);
+    // Raise the work factor as soon as the password is known.
+    const weak = header.kdf.iterations < VAULT_CONFIG.iterations;
+    if (weak) onProgress?.('upgrading');
+    const upgraded = weak ? await this.rewrap(header, password, password) : header;
+    return { payload, secrets, session: { header: upgraded, dataKey } };
+  }
+
+  private static readHeader(vault: any): VaultHeader {
+    return { version: vault.version, kdf: vault.kdf, wrap: vault.wrap, ...(Array.isArray(vault.recovery) ? { recovery: vault.recovery } : {}) };
+  }
+
+  // --- RECOVERY ---
+
+  public static recoveryCount(session: VaultSession): number {
+    return session.header.recovery?.length || 0;
+  }
+
+  // Replaces any existing set: codes handed out earlier stop working. Needs the password
+  // because the session's data key is not extractable.
+  public static async createRecoveryCodes(session: VaultSession, password: string): Promise<{ session: VaultSession; codes: string[] }> {
+    const exportable = await this.unwrapDataKey(session.header, password, true);
+    const codes = Array.from({ length: RECOVERY_CONFIG.count }, () => this.generateCode());
+    const recovery: KeyWrap[] = [];
+    for (const code of codes) recovery.push(await this.wrapDataKey(exportable, this.normalizeCode(code), RECOVERY_CONFIG.iterations));
+    return { session: { ...session, header: { ...session.header, recovery } }, codes };
+  }
+
+  public static removeRecoveryCodes(session: VaultSession): VaultSession {
+    const { recovery, ...header } = session.header;
+    return { ...session, header };
+  }
+
+  // Opens the vault with one recovery code and re-wraps the data key under `newPassword`.
+  // The code used is consumed; the others keep working. Re-lock the returned session right away.
+  public static async recover(vaultStr: string, code: string, newPassword: string, onProgress?: (stage: UnlockStage) => void): Promise<{ payload: unknown; secrets: VaultSecrets; session: VaultSession; remaining: number }> {
+    if (!newPassword || newPassword.trim().length === 0) throw new Error("Invalid Password");
+    const vault = JSON.parse(vaultStr);
+    const header = vault.version === VAULT_VERSION ? this.readHeader(vault) : null;
+    const normalized = this.normalizeCode(code);
+    if (!header?.recovery || normalized.length !== RECOVERY_CONFIG.groups * RECOVERY_CONFIG.groupLen) throw new Error("INVALID_RECOVERY_CODE");
+
+    onProgress?.('deriving');
+    for (let i = 0; i < header.recovery.length; i++) {
+      let exportable: CryptoKey;
+      try {
+        exportable = await this.unwrapDataKey(header.recovery[i], normalized, true);
+      } catch (e) {
+        continue;
+      }
+      const raw = new Uint8Array(await crypto.subtle.exportKey("raw", exportable));
+      const dataKey = await crypto.subtle.importKey("raw", raw, { name: "AES-GCM" }, false, ["encrypt", "decrypt"]);
+      raw.fill(0);
+      onProgress?.('decrypting');
+      const { payload, secrets } = await this.openPayload(vault, dataKey);
+      onProgress?.('upgrading');
+      const recovery = header.recovery.filter((_, j) => j !== i);
+      const session: VaultSession = { header: { ...header, ...await this.wrapDataKey(exportable, newPassword), recovery }, dataKey };
+      return { payload, secrets, session, remaining: recovery.length };
     }
+    throw new Error("INVALID_RECOVERY_CODE");
   }
 
-  // Relaxed type to 'any' to swallow all buffer type mismatches
-  private static bufferToBase64(buffer: any): string {
-    let bytes: Uint8Array;
-    if (buffer instanceof Uint8Array) {
-      bytes = buffer;
-    } else {
-      bytes = new Uint8Array(buffer);
+  private static async unlockLegacy(vault: any, password: string): Promise<{ payload: unknown; secrets: VaultSecrets }> {
+    const salt = new Uint8Array(this.base64ToBuffer(vault.salt));
+    const iv = new Uint8Array(this.base64ToBuffer(vault.iv));
+    const data = this.base64ToBuffer(vault.data);
+
+    // v100-platinum stored SHA-256(rawKey) as authHash; checking it needs the raw key bytes.
+    const key = await this.deriveKey(password, salt, VAULT_CONFIG.iterations, ["encrypt", "decrypt"], vault.version !== LEGACY_VAULT_VERSION);
+
+    // Strict Key Verification
+    if (vault.version !== LEGACY_VAULT_VERSION) {
+      const exportedKey = await crypto.subtle.exportKey("raw", key);
+      const authHashBuffer = await crypto.subtle.digest("SHA-256", exportedKey);
+      const computedHash = this.bufferToBase64(authHashBuffer);
+
+      if (computedHash !== vault.authHash) {
+        throw new Error("INVALID_CREDENTIALS");
+      }
     }
-    
-    let binary = '';
-    const len = bytes.byteLength;
-    for (let i = 0; i < len; i++) {
-      binary += String.fromCharCode(bytes[i]);
+
+    let decrypted: ArrayBuffer;
+    try {
+      decrypted = await crypto.subtle.decrypt(
+        // @ts-ignore
+        { name: "AES-GCM", iv: iv }, key, data
+      );
+    } catch (e) {
+      // Legacy vaults have no auth hash, so a wrong password surfaces here.
+      throw new Error(vault.version === LEGACY_VAULT_VERSION ? "INVALID_CREDENTIALS" : "DECRYPTION_FAILED");
     }
-    return window.btoa(binary);
+
+    const dec = new TextDecoder();
+    const payload = JSON.parse(dec.decode(decrypted));
+    // Platinum vaults written before the compartment existed have no secrets field.
+    const secrets = vault.secrets ? this.readSecrets(await this.openJSON(key, vault.secretsIv, vault.secrets)) : { ...EMPTY_SECRETS };
+    return { payload, secrets };
   }
 
-  private static base64ToBuffer(base64: string): ArrayBuffer {
-    const binary_string = window.atob(base64);
-    const len = binary_string.length;
-    const bytes = new Uint8Array(len);
-    for (let i = 0; i < len; i++) bytes[i] = binary_string.charCodeAt(i);
-    return bytes.buffer;
+  // --- BACKUPS ---
+
+  // Backup files are self-describing: the header carries the KDF parameters so
+  // a backup stays restorable even if VAULT_CONFIG changes later. Secrets are left out
+  // unless passed explicitly, and then sealed under the backup passphrase.
+  public static async exportBackup(data: AppState, passphrase: string, secrets: VaultSecrets | null = null): Promise<string> {
+    if (!passphrase || passphrase.trim().length === 0) throw new Error("Invalid Passphrase");
+
+    const salt = crypto.getRandomValues(new Uint8Array(VAULT_CONFIG.saltLen));
+    const iv = crypto.getRandomValues(new Uint8Array(VAULT_CONFIG.ivLen));
+    const key = await this.deriveKey(passphrase, salt);
+
+    const enc = new TextEncoder();
+    const encodedData = enc.encode(JSON.stringify({ ...data, unsavedChanges: false }));
+    const ciphertext = await crypto.subtle.encrypt(
+      // @ts-ignore
+      { name: "AES-GCM", iv: iv }, key, encodedData
+    );
+
+    const header: BackupHeader = {
+      format: BACKUP_FORMAT,
+      version: BACKUP_VERSION,
+      cipher: VAULT_CONFIG.algo,
+      kdf: { name: "PBKDF2", hash: VAULT_CONFIG.hash, iterations: VAULT_CONFIG.iterations },
+      createdAt: Date.now()
+    };
+
+    const sealed = secrets ? await this.sealJSON(key, secrets) : null;
+
+    return JSON.stringify({
+      ...header,
+      salt: this.bufferToBase64(salt),
+      iv: this.bufferToBase64(iv),
+      data: this.bufferToBase64(ciphertext),
+      ...(sealed ? { secretsIv: sealed.iv, secrets: sealed.data } : {})
+    }, null, 2);
+  }
+
+  public static detectBackup(content: string): BackupKind {
+    let parsed: any;
+    try { parsed = JSON.parse(content); } catch { throw new Error("INVALID_BACKUP"); }
+    if (!parsed || typeof parsed !== 'object') throw new Error("INVALID_BACKUP");
+
+    if (parsed.format === BACKUP_FORMAT) {
+      if (parsed.version > BACKUP_VERSION) throw new Error("UNSUPPORTED_BACKUP_VERSION");
+      if (!parsed.salt || !parsed.iv || !parsed.data) throw new Error("INVALID_BACKUP");
+      return 'encrypted';
+    }
+    if (parsed.version === VAULT_VERSION && parsed.kdf && parsed.wrap && parsed.iv && parsed.data) return 'vault';
+    if (parsed.salt && parsed.iv && parsed.data && (parsed.authHash || parsed.version === LEGACY_VAULT_VERSION)) return 'vault';
+    if (looksLikeAppState(parsed)) return 'plaintext';
+    throw new Error("INVALID_BACKUP");
   }
-}
 
+  // `secrets` is null when the backup was exported without them.
+  public static async importBackup(content: string, passphrase: string): Promise<{ payload: unknown; secrets: VaultSecrets | null }> {
+    const backup = JSON.parse(content);
+    const salt = new Uint8Array(this.base64ToBuffer(backup.salt));
+    const iv = new Uint8Array(this.base64ToBuffer(backup.iv));
+    const data = this.base64ToBuffer(backup.data);
+    const key = await this.deriveKey(passphrase, salt, backup.kdf?.iterations || VAULT_CONFIG.iterations);
 
+    let restored: unknown;
+    let secrets: VaultSecrets | null = null;
+    try {
+      const decrypted = await crypto.subtle.decrypt(
+        // @ts-ignore
+        { name: "AES-GCM", iv: iv }, key, data
+      );
+      restored = JSON.parse(new TextDecoder().decode(decrypted));
+      if (backup.secrets) secrets = this.readSecrets(await this.openJSON(key, backup.secretsIv, backup.secrets));
+    } catch (e) {
+      throw new Error("INVALID_CREDENTIALS");
+    }
+
+    if (!looksLikeAppState(restored)) throw new Error("INVALID_BACKUP");
+    return { payload: restored, secrets };
+  }
+}
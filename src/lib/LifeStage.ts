@@ -0,0 +1,79 @@
+import { LifeStage } from './types';
+import { MessageKey } from './i18n';
+
+export interface EngineWeights {
+  MUCUS: number;
+  TEMP: number;
+  LH: number;
+  CERVIX: number;
+  STRESS: number;
+}
+
+// Texts are catalogue keys; FAQ answers may use {count} (PATCH_COUNT) and {days} (lateGrace).
+export interface LifeStageRules {
+  label: MessageKey;
+  description: MessageKey;
+  // No fertile-window projection until a thermal shift has been confirmed in the current cycle.
+  requireConfirmedOvulation: boolean;
+  // Billings "patch of mucus": any change from the basic infertile pattern counts as
+  // potentially fertile, through PATCH_COUNT days after the patch ends.
+  patchOfMucus: boolean;
+  // Days past the projected period before switching to "late" mode (Infinity = never).
+  lateGrace: number;
+  engineWeights: Partial<EngineWeights>;
+  faq: { q: MessageKey; a: MessageKey }[];
+}
+
+export const PATCH_COUNT = 3;
+
+export const LIFE_STAGES: Record<LifeStage, LifeStageRules> = {
+  regular: {
+    label: 'lifeStage.regular',
+    description: 'lifeStage.regular.description',
+    requireConfirmedOvulation: false,
+    patchOfMucus: false,
+    lateGrace: 2,
+    engineWeights: {},
+    faq: [
+      { q: 'lifeStage.regular.q1', a: 'lifeStage.regular.a1' }
+    ]
+  },
+  postpartum: {
+    label: 'lifeStage.postpartum',
+    description: 'lifeStage.postpartum.description',
+    requireConfirmedOvulation: true,
+    patchOfMucus: true,
+    lateGrace: Infinity,
+    engineWeights: { TEMP: 1.4, LH: 1.2 },
+    faq: [
+      { q: 'lifeStage.postpartum.q1', a: 'lifeStage.postpartum.a1' },
+      { q: 'lifeStage.postpartum.q2', a: 'lifeStage.postpartum.a2' },
+      { q: 'lifeStage.postpartum.q3', a: 'lifeStage.postpartum.a3' }
+    ]
+  },
+  perimenopause: {
+    label: 'lifeStage.perimenopause',
+    description: 'lifeStage.perimenopause.description',
+    requireConfirmedOvulation: true,
+    patchOfMucus: true,
+    lateGrace: 60,
+    engineWeights: { TEMP: 1.6, LH: 1.0 },
+    faq: [
+      { q: 'lifeStage.perimenopause.q1', a: 'lifeStage.perimenopause.a1' },
+      { q: 'lifeStage.perimenopause.q2', a: 'lifeStage.perimenopause.a2' },
+      { q: 'lifeStage.perimenopause.q3', a: 'lifeStage.perimenopause.a3' }
+    ]
+  },
+  post_hormonal: {
+    label: 'lifeStage.post_hormonal',
+    description: 'lifeStage.post_hormonal.description',
+    requireConfirmedOvulation: true,
+    patchOfMucus: false,
+    lateGrace: 21,
+    engineWeights: {},
+    faq: [
+      { q: 'lifeStage.post_hormonal.q1', a: 'lifeStage.post_hormonal.a1' },
+      { q: 'lifeStage.post_hormonal.q2', a: 'lifeStage.post_hormonal.a2' }
+    ]
+  }
+};
@@ -0,0 +1,218 @@
+import { CycleDay, CustomTracker, Unit, Language } from './types';
+import { CycleHistory } from './CycleLogic';
+import { OvulationResult } from './ThermalShift';
+import { symptomLabel } from './Symptoms';
+import { addDays, daysBetween } from './utils';
+import { Temperature } from './Temperature';
+import { TemperatureQuality } from './TemperatureQuality';
+import { I18n, MessageKey, LOCALE_TAG } from './i18n';
+
+export type CyclePhase = 'menstrual' | 'follicular' | 'fertile' | 'luteal';
+
+export interface AlignedDay {
+  day: CycleDay;
+  cycleStart: string;
+  cycleIndex: number;
+  cycleDay: number; // 1-based
+  ovulation: string; // confirmed or estimated for this cycle
+  phase: CyclePhase;
+}
+
+export interface Insight {
+  id: string;
+  kind: 'cycle_day' | 'phase' | 'lag';
+  signal: string;
+  text: string;
+  hits: number;
+  total: number;
+  strength: number; // 0-1, used for ordering only
+}
+
+export interface InsightInput {
+  data: CycleDay[];
+  history: CycleHistory;
+  ovulations: OvulationResult[];
+  periodDays: Set<string>;
+  customTrackers: CustomTracker[];
+  lutealLength: number;
+  unit: Unit;
+  lang: Language;
+}
+
+const RULES = {
+  maxCycles: 6, // only the most recent cycles count as "recurring"
+  windowWidth: 3, // cycle-day window for clustering
+  minCycleHits: 3,
+  minCycleShare: 0.6,
+  minPhaseEvents: 4,
+  minPhaseLift: 1.5,
+  minLagEvents: 3,
+  maxLag: 3,
+  lagDelta: 0.15, // °C
+  highStress: 7,
+  highScale: 4,
+  maxInsights: 5
+};
+
+export const PHASE_LABEL: Record<CyclePhase, MessageKey> = {
+  menstrual: 'cyclePhase.menstrual',
+  follicular: 'cyclePhase.follicular',
+  fertile: 'cyclePhase.fertile',
+  luteal: 'cyclePhase.luteal'
+};
+
+// Words that say nothing on their own; everything else of 4+ letters in notes is a candidate signal.
+const NOTE_STOPWORDS = new Set([
+  'this', 'that', 'with', 'have', 'from', 'were', 'very', 'today', 'after', 'before', 'some', 'much',
+  'feel', 'feeling', 'felt', 'really', 'again', 'still', 'just', 'been', 'more', 'less', 'than', 'what',
+  'when', 'into', 'about', 'there', 'their', 'they', 'then', 'also', 'night', 'morning', 'evening', 'little', 'bit',
+  // es / fr
+  'para', 'pero', 'como', 'esta', 'este', 'todo', 'mucho', 'poco', 'muy', 'hoy', 'noche', 'tarde', 'después', 'antes',
+  'pour', 'mais', 'avec', 'dans', 'très', 'tout', 'beaucoup', 'peu', 'nuit', 'matin', 'soir', 'après', 'avant', 'encore'
+]);
+
+interface Signal { key: string; label: string; }
+
+const daySignals = (day: CycleDay, trackers: CustomTracker[], lang: Language): Signal[] => {
+  const t = (key: MessageKey, params?: Record<string, string | number>) => I18n.t(lang, key, params);
+  const signals: Signal[] = day.symptoms.map(id => ({ key: `symptom:${id}`, label: symptomLabel(id, lang) }));
+  trackers.forEach(tr => {
+    const v = day.trackers[tr.id];
+    if (tr.kind === 'boolean' && v === true) signals.push({ key: `tracker:${tr.id}`, label: tr.name });
+    if (tr.kind === 'scale' && typeof v === 'number' && v >= RULES.highScale) signals.push({ key: `tracker:${tr.id}`, label: t('patterns.highTracker', { name: tr.name.toLowerCase() }) });
+  });
+  if (day.stressLevel >= RULES.highStress) signals.push({ key: 'stress:high', label: t('patterns.highStress', { level: RULES.highStress }) });
+  if (day.mucus === 'eggwhite' || day.mucus === 'watery') signals.push({ key: 'mucus:fertile', label: t('patterns.fertileMucus') });
+  const words = new Set((day.notes || '').toLowerCase().match(/[a-zà-ÿ]{4,}/g) || []);
+  words.forEach(w => { if (!NOTE_STOPWORDS.has(w)) signals.push({ key: `note:${w}`, label: t('patterns.noteWord', { word: w }) }); });
+  return signals;
+};
+
+const rangeText = (from: number, to: number, lang: Language) =>
+  (from === to ? I18n.t(lang, 'patterns.rangeOne', { day: from }) : I18n.t(lang, 'patterns.range', { from, to }));
+
+export const PatternInsights = {
+  // Each logged day gets its cycle and phase. Ovulation is the thermal shift when confirmed,
+  // otherwise next start minus the luteal length (or the average length for the open cycle).
+  // The fertile phase spans the same -5..+1 days around ovulation as FertilityModel's curve.
+  align: (input: Pick<InsightInput, 'data' | 'history' | 'ovulations' | 'periodDays' | 'lutealLength'>): AlignedDay[] => {
+    const { data, history, ovulations, periodDays, lutealLength } = input;
+    const starts = history.starts;
+    const aligned: AlignedDay[] = [];
+    starts.forEach((start, i) => {
+      const end = starts[i + 1];
+      const confirmed = ovulations.find(o => o.cycleStart === start && o.confirmed)?.ovulationDate;
+      const ovulation = confirmed || addDays(end || addDays(start, history.avgLength), -lutealLength);
+      data
+        .filter(d => d.date >= start && (!end || d.date < end))
+        .forEach(day => {
+          const offset = daysBetween(ovulation, day.date);
+          const phase: CyclePhase = periodDays.has(day.date) ? 'menstrual'
+            : offset >= -5 && offset <= 1 ? 'fertile'
+            : offset > 1 ? 'luteal' : 'follicular';
+          aligned.push({ day, cycleStart: start, cycleIndex: i, cycleDay: daysBetween(start, day.date) + 1, ovulation, phase });
+        });
+    });
+    return aligned;
+  },
+
+  analyze: (input: InsightInput): Insight[] => {
+    if (input.history.starts.length < 2) return [];
+    const aligned = PatternInsights.align(input);
+    const firstCycle = Math.max(0, input.history.starts.length - RULES.maxCycles);
+    const recent = aligned.filter(a => a.cycleIndex >= firstCycle);
+    const cyclesLogged = new Set(recent.map(a => a.cycleIndex)).size;
+
+    const occurrences = new Map<string, { label: string; days: AlignedDay[] }>();
+    recent.forEach(a => daySignals(a.day, input.customTrackers, input.lang).forEach(s => {
+      if (!occurrences.has(s.key)) occurrences.set(s.key, { label: s.label, days: [] });
+      occurrences.get(s.key)!.days.push(a);
+    }));
+
+    const insights: Insight[] = [];
+
+    // 1. Recurring cycle-day windows: the same signal in the same few days of most cycles.
+    const clustered = new Set<string>();
+    occurrences.forEach(({ label, days }, key) => {
+      const maxDay = Math.max(...days.map(d => d.cycleDay));
+      let best = { hits: 0, from: 0, to: 0 };
+      for (let k = 1; k <= maxDay; k++) {
+        const inWindow = days.filter(d => d.cycleDay >= k && d.cycleDay < k + RULES.windowWidth);
+        const hits = new Set(inWindow.map(d => d.cycleIndex)).size;
+        if (hits > best.hits) {
+          best = { hits, from: Math.min(...inWindow.map(d => d.cycleDay)), to: Math.max(...inWindow.map(d => d.cycleDay)) };
+        }
+      }
+      if (best.hits >= RULES.minCycleHits && best.hits / cyclesLogged >= RULES.minCycleShare) {
+        clustered.add(key);
+        insights.push({
+          id: `cycle_day:${key}`, kind: 'cycle_day', signal: key,
+          text: I18n.t(input.lang, 'patterns.cycleDay', { signal: label, range: rangeText(best.from, best.to, input.lang), hits: best.hits, total: cyclesLogged }),
+          hits: best.hits, total: cyclesLogged, strength: best.hits / cyclesLogged
+        });
+      }
+    });
+
+    // 2. Phase association: share of a signal's days in one phase vs that phase's share of all logged days.
+    const phaseDays = new Map<CyclePhase, number>();
+    recent.forEach(a => phaseDays.set(a.phase, (phaseDays.get(a.phase) || 0) + 1));
+    occurrences.forEach(({ label, days }, key) => {
+      if (clustered.has(key) || days.length < RULES.minPhaseEvents) return;
+      const counts = new Map<CyclePhase, number>();
+      days.forEach(d => counts.set(d.phase, (counts.get(d.phase) || 0) + 1));
+      const [phase, count] = Array.from(counts.entries()).sort((a, b) => b[1] - a[1])[0];
+      const share = count / days.length;
+      const lift = share / ((phaseDays.get(phase) || 1) / recent.length);
+      if (share >= 0.5 && lift >= RULES.minPhaseLift) {
+        insights.push({
+          id: `phase:${key}`, kind: 'phase', signal: key,
+          text: I18n.t(input.lang, 'patterns.phase', { signal: label, phase: I18n.t(input.lang, PHASE_LABEL[phase]), count, total: days.length }),
+          hits: count, total: days.length, strength: Math.min(1, share * (lift / 3))
+        });
+      }
+    });
+
+    // 3. Lagged temperature response: mean change from the day before a trigger to N days after,
+    //    compared with the same change on non-trigger days. Windows spanning ovulation or a new
+    //    cycle are skipped so the normal thermal shift is not mistaken for a response.
+    const byDate = new Map(aligned.map(a => [a.day.date, a]));
+    const excluded = TemperatureQuality.excluded(input.data);
+    const tempOn = (date: string) => (excluded.has(date) ? null : byDate.get(date)?.day.temperature ?? null);
+    const triggers = Array.from(occurrences.entries()).filter(([key]) => key === 'stress:high' || key.startsWith('tracker:'));
+    triggers.forEach(([key, { label, days }]) => {
+      const triggerDates = new Set(days.map(d => d.day.date));
+      let best: { lag: number; diff: number; n: number } | null = null;
+      for (let lag = 1; lag <= RULES.maxLag; lag++) {
+        const change = (a: AlignedDay): number | null => {
+          const before = tempOn(addDays(a.day.date, -1));
+          const after = tempOn(addDays(a.day.date, lag));
+          const later = byDate.get(addDays(a.day.date, lag));
+          if (before === null || after === null || !later || later.cycleStart !== a.cycleStart) return null;
+          if (a.ovulation >= addDays(a.day.date, -1) && a.ovulation <= later.day.date) return null;
+          return after - before;
+        };
+        const hit: number[] = [];
+        const rest: number[] = [];
+        recent.forEach(a => {
+          const c = change(a);
+          if (c !== null) (triggerDates.has(a.day.date) ? hit : rest).push(c);
+        });
+        if (hit.length < RULES.minLagEvents || rest.length < RULES.minLagEvents) continue;
+        const mean = (xs: number[]) => xs.reduce((s, x) => s + x, 0) / xs.length;
+        const diff = mean(hit) - mean(rest);
+        if (diff >= Temperature.delta(RULES.lagDelta, input.unit) && (!best || diff > best.diff)) best = { lag, diff, n: hit.length };
+      }
+      if (best) {
+        insights.push({
+          id: `lag:${key}`, kind: 'lag', signal: key,
+          text: I18n.t(input.lang, best.lag > 1 ? 'patterns.lag' : 'patterns.lagOne', {
+            signal: label, delta: Temperature.format(best.diff, input.unit, 2, LOCALE_TAG[input.lang]), lag: best.lag, count: best.n
+          }),
+          hits: best.n, total: days.length, strength: Math.min(1, best.diff / (Temperature.delta(RULES.lagDelta, input.unit) * 3))
+        });
+      }
+    });
+
+    return insights.sort((a, b) => b.strength - a.strength || b.hits - a.hits).slice(0, RULES.maxInsights);
+  }
+};
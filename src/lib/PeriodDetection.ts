@@ -0,0 +1,80 @@
+import { CycleDay, FlowIntensity, PeriodStartPolicy } from './types';
+import { addDays, daysBetween } from './utils';
+
+// Spotting never starts or extends a period. Bleeding after more than EPISODE_GAP dry days
+// either starts a new episode or, when it cannot, is intermenstrual and left out entirely.
+// A new episode needs MIN_CYCLE days since the last start, and before LIGHT_MIN_CYCLE it also
+// needs medium flow or a marker: light bleeding mid-cycle is not a period.
+const BLEEDING: FlowIntensity[] = ['light', 'medium', 'heavy'];
+const STRONG: FlowIntensity[] = ['medium', 'heavy'];
+const EPISODE_GAP = 3;
+const MIN_CYCLE = 14;
+const LIGHT_MIN_CYCLE = 21;
+
+export interface PeriodEpisode {
+  start: string;
+  end: string; // last bleeding day (inclusive)
+  days: string[];
+  marked: boolean; // start came from the user's "period started" marker
+}
+
+export const PeriodDetection = {
+  detect: (data: CycleDay[], policy: PeriodStartPolicy = 'first_light'): PeriodEpisode[] => {
+    const sorted = [...data].sort((a, b) => a.date.localeCompare(b.date));
+    const markers = new Set(sorted.filter(d => d.periodStart).map(d => d.date));
+
+    // 1. Split bleeding days (and marker days) into runs at dry gaps and markers.
+    const runs: CycleDay[][] = [];
+    sorted.forEach(d => {
+      if (!BLEEDING.includes(d.flow) && !markers.has(d.date)) return;
+      const run = runs[runs.length - 1];
+      const prev = run?.[run.length - 1];
+      if (!prev || markers.has(d.date) || daysBetween(prev.date, d.date) > EPISODE_GAP) runs.push([d]);
+      else run.push(d);
+    });
+
+    // 2. Each run either starts an episode or is intermenstrual bleeding and is dropped.
+    const groups: CycleDay[][] = [];
+    runs.forEach(run => {
+      const last = groups[groups.length - 1];
+      const since = last ? daysBetween(last[0].date, run[0].date) : Infinity;
+      const startsEpisode = markers.has(run[0].date) ||
+        (since >= MIN_CYCLE && (since >= LIGHT_MIN_CYCLE || run.some(d => STRONG.includes(d.flow))));
+      if (startsEpisode) groups.push(run);
+    });
+
+    // 3. Pick each episode's start by marker, then by policy.
+    const episodes: PeriodEpisode[] = [];
+    groups.forEach(group => {
+      const marked = markers.has(group[0].date);
+      const first = marked 
+        ? group[0] 
+        : group.find(d => (policy === 'first_medium' ? STRONG : BLEEDING).includes(d.flow));
+      if (!first) return; // e.g. light-only bleeding under the first_medium policy
+
+      const days = group.filter(d => d.date >= first.date && BLEEDING.includes(d.flow)).map(d => d.date);
+      if (!days.includes(first.date)) days.unshift(first.date);
+      episodes.push({ start: first.date, end: days[days.length - 1], days, marked });
+    });
+    return episodes;
+  },
+
+  starts: (data: CycleDay[], policy?: PeriodStartPolicy): string[] => 
+    PeriodDetection.detect(data, policy).map(e => e.start),
+
+  // 1-based day of the cycle containing targetDate; 1 when no start precedes it.
+  cycleDay: (data: CycleDay[], targetDate: string, policy?: PeriodStartPolicy): number => {
+    const starts = PeriodDetection.starts(data, policy).filter(s => s <= targetDate);
+    if (starts.length === 0) return 1;
+    return daysBetween(starts[starts.length - 1], targetDate) + 1;
+  },
+
+  // Every calendar day from each start through its last bleeding day.
+  periodDays: (data: CycleDay[], policy?: PeriodStartPolicy): Set<string> => {
+    const result = new Set<string>();
+    PeriodDetection.detect(data, policy).forEach(e => {
+      for (let d = e.start; d <= e.end; d = addDays(d, 1)) result.add(d);
+    });
+    return result;
+  }
+};
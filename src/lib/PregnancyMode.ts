@@ -0,0 +1,86 @@
+import { CycleDay, PregnancyRecord } from './types';
+import { OvulationResult } from './ThermalShift';
+import { addDays, daysBetween } from './utils';
+import { TemperatureQuality } from './TemperatureQuality';
+import { MessageKey } from './i18n';
+
+// 18+ days above the coverline is the classic sympto-thermal pregnancy sign;
+// a period is "late" once it is past the projected range by LATE_GRACE days.
+const HIGH_PHASE_DAYS = 18;
+const LATE_GRACE = 2;
+const GESTATION_DAYS = 280;
+const OVULATION_TO_DUE = 266;
+
+export type CycleMode = 'tracking' | 'late' | 'possible_pregnancy' | 'pregnant';
+
+export interface Gestation {
+  lmp: string;
+  days: number;
+  weeks: number;
+  extraDays: number;
+  dueDate: string;
+}
+
+export interface ModeState {
+  mode: CycleMode;
+  reason: MessageKey | null; // filled with daysLate / highPhaseDays as {days}
+  daysLate: number;
+  highPhaseDays: number;
+  positiveTest: string | null; // date of the latest positive test this cycle
+  gestation: Gestation | null;
+}
+
+export interface ModeInput {
+  data: CycleDay[];
+  lastStart: string | undefined;
+  avgLength: number;
+  latestExpected: string | null; // upper end of the next-period range
+  ovulation: OvulationResult | null;
+  pregnancy: PregnancyRecord | null;
+  today: string;
+  lateGrace?: number; // life-stage override of LATE_GRACE
+}
+
+export const PregnancyMode = {
+  // Naegele's rule adjusted for cycle length; a confirmed ovulation date wins.
+  gestation: (pregnancy: PregnancyRecord, today: string): Gestation => {
+    const days = Math.max(0, daysBetween(pregnancy.lmp, today));
+    const dueDate = pregnancy.ovulationDate
+      ? addDays(pregnancy.ovulationDate, OVULATION_TO_DUE)
+      : addDays(pregnancy.lmp, GESTATION_DAYS + (pregnancy.cycleLength - 28));
+    return { lmp: pregnancy.lmp, days, weeks: Math.floor(days / 7), extraDays: days % 7, dueDate };
+  },
+
+  evaluate: ({ data, lastStart, avgLength, latestExpected, ovulation, pregnancy, today, lateGrace = LATE_GRACE }: ModeInput): ModeState => {
+    const base: ModeState = { mode: 'tracking', reason: null, daysLate: 0, highPhaseDays: 0, positiveTest: null, gestation: null };
+
+    // A pregnancy stays active until a new period is marked by hand (or via startNewCycle):
+    // auto-detected starts after the LMP may just be early-pregnancy spotting.
+    if (pregnancy && !data.some(d => d.periodStart && d.date > pregnancy.lmp)) {
+      return { ...base, mode: 'pregnant', reason: 'mode.pregnancy', gestation: PregnancyMode.gestation(pregnancy, today) };
+    }
+    if (!lastStart) return base;
+
+    const cycleDays = data.filter(d => d.date >= lastStart);
+    const positive = cycleDays.filter(d => d.pregnancyTest === 'positive').map(d => d.date).sort().pop() || null;
+    const expected = latestExpected || addDays(lastStart, avgLength);
+    // The grace period decides when to call it late; the full overdue count is what gets shown.
+    const overdue = daysBetween(expected, today);
+    const daysLate = isFinite(lateGrace) && overdue > lateGrace ? overdue : 0;
+
+    // Sustained high phase: shift confirmed and the latest reading still above the coverline.
+    let highPhaseDays = 0;
+    if (ovulation?.confirmed && ovulation.shiftDate && ovulation.coverline !== null) {
+      const excluded = TemperatureQuality.excluded(data);
+      const latest = cycleDays.filter(d => d.temperature !== null && !excluded.has(d.date)).sort((a, b) => a.date.localeCompare(b.date)).pop();
+      if (latest && latest.temperature! > ovulation.coverline) highPhaseDays = daysBetween(ovulation.shiftDate, latest.date) + 1;
+    }
+
+    if (positive) return { ...base, mode: 'possible_pregnancy', reason: 'mode.positiveTest', daysLate, highPhaseDays, positiveTest: positive };
+    if (highPhaseDays >= HIGH_PHASE_DAYS) {
+      return { ...base, mode: 'possible_pregnancy', reason: 'mode.highPhase', daysLate, highPhaseDays };
+    }
+    if (daysLate > 0) return { ...base, mode: 'late', reason: daysLate === 1 ? 'mode.lateOne' : 'mode.late', daysLate, highPhaseDays };
+    return { ...base, daysLate, highPhaseDays };
+  }
+};
@@ -0,0 +1,85 @@
+import { CustomTracker, TrackerKind, Language } from './types';
+import { I18n, MessageKey } from './i18n';
+
+export type SymptomCategory = 'pain' | 'mood' | 'body' | 'sleep' | 'sex' | 'meds';
+
+// Labels live in the catalogues under `symptom.<id>`.
+export interface SymptomDef {
+  id: string;
+  category: SymptomCategory;
+}
+
+export const SYMPTOM_CATEGORIES: Record<SymptomCategory, MessageKey> = {
+  pain: 'symptomCategory.pain',
+  mood: 'symptomCategory.mood',
+  body: 'symptomCategory.body',
+  sleep: 'symptomCategory.sleep',
+  sex: 'symptomCategory.sex',
+  meds: 'symptomCategory.meds'
+};
+
+// Ids are persisted in CycleDay.symptoms: never rename, only add.
+export const SYMPTOMS: SymptomDef[] = [
+  { id: 'headache', category: 'pain' },
+  { id: 'migraine', category: 'pain' },
+  { id: 'cramps', category: 'pain' },
+  { id: 'back_pain', category: 'pain' },
+  { id: 'breast_tenderness', category: 'pain' },
+  { id: 'ovulation_pain', category: 'pain' },
+  { id: 'calm', category: 'mood' },
+  { id: 'happy', category: 'mood' },
+  { id: 'irritable', category: 'mood' },
+  { id: 'anxious', category: 'mood' },
+  { id: 'low', category: 'mood' },
+  { id: 'mood_swings', category: 'mood' },
+  { id: 'bloating', category: 'body' },
+  { id: 'acne', category: 'body' },
+  { id: 'fatigue', category: 'body' },
+  { id: 'nausea', category: 'body' },
+  { id: 'cravings', category: 'body' },
+  { id: 'hot_flush', category: 'body' },
+  { id: 'slept_well', category: 'sleep' },
+  { id: 'poor_sleep', category: 'sleep' },
+  { id: 'insomnia', category: 'sleep' },
+  { id: 'sex_protected', category: 'sex' },
+  { id: 'sex_unprotected', category: 'sex' },
+  { id: 'high_libido', category: 'sex' },
+  { id: 'painkiller', category: 'meds' },
+  { id: 'supplement', category: 'meds' },
+  { id: 'antibiotic', category: 'meds' },
+  { id: 'other_medication', category: 'meds' }
+];
+
+const BY_ID = new Map(SYMPTOMS.map(s => [s.id, s]));
+
+// Unknown ids (from a newer version) are shown as stored.
+export const symptomLabel = (id: string, lang: Language = 'en'): string =>
+  BY_ID.has(id) ? I18n.t(lang, `symptom.${id}` as MessageKey) : id;
+
+export const TRACKER_KINDS: Record<TrackerKind, MessageKey> = {
+  boolean: 'trackerKind.boolean',
+  scale: 'trackerKind.scale',
+  numeric: 'trackerKind.numeric'
+};
+
+export const createTracker = (name: string, kind: TrackerKind, unit?: string): CustomTracker => ({
+  id: `t_${Date.now().toString(36)}_${Math.random().toString(36).slice(2, 6)}`,
+  name: name.trim(),
+  kind,
+  ...(kind === 'numeric' && unit ? { unit: unit.trim() } : {}),
+  ...(kind === 'scale' ? { min: 1, max: 5 } : {})
+});
+
+export const formatTrackerValue = (tracker: CustomTracker, value: boolean | number, lang: Language = 'en'): string => {
+  if (tracker.kind === 'boolean') return I18n.t(lang, value ? 'common.yes' : 'common.no');
+  if (tracker.kind === 'scale') return `${value}/${tracker.max ?? 5}`;
+  return `${I18n.number(value as number, lang)}${tracker.unit ? ` ${tracker.unit}` : ''}`;
+};
+
+// A tracker value is valid only if it matches the tracker's kind (and range for scales).
+export const isValidTrackerValue = (tracker: CustomTracker, value: unknown): value is boolean | number => {
+  if (tracker.kind === 'boolean') return typeof value === 'boolean';
+  if (typeof value !== 'number' || !isFinite(value)) return false;
+  if (tracker.kind === 'scale') return value >= (tracker.min ?? 1) && value <= (tracker.max ?? 5);
+  return true;
+};
@@ -0,0 +1,32 @@
+import { Unit } from './types';
+
+// Plausible basal readings; anything outside is a typo or the other unit.
+export const TEMP_RANGE: Record<Unit, [number, number]> = { C: [34, 43], F: [93, 109] };
+
+// Starting value for the log stepper before anything is entered.
+export const BASELINE_TEMP: Record<Unit, number> = { C: 36.5, F: 97.7 };
+
+const round2 = (n: number) => Math.round(n * 100) / 100;
+
+// Engine thresholds are written in °C. Absolute cutoffs go through `fromC`,
+// differences (coverline offsets, rises) through `delta`.
+export const Temperature = {
+  convert: (value: number, from: Unit, to: Unit): number => {
+    if (from === to) return value;
+    return round2(to === 'F' ? value * 9 / 5 + 32 : (value - 32) * 5 / 9);
+  },
+
+  fromC: (celsius: number, unit: Unit): number => Temperature.convert(celsius, 'C', unit),
+
+  delta: (celsiusDelta: number, unit: Unit): number => (unit === 'F' ? celsiusDelta * 9 / 5 : celsiusDelta),
+
+  inRange: (value: number, unit: Unit): boolean => value >= TEMP_RANGE[unit][0] && value <= TEMP_RANGE[unit][1],
+
+  // Used for untagged legacy readings: the two plausible ranges do not overlap.
+  guessUnit: (value: number): Unit | null => 
+    Temperature.inRange(value, 'C') ? 'C' : Temperature.inRange(value, 'F') ? 'F' : null,
+
+  // `locale` is a BCP 47 tag (see LOCALE_TAG) so the decimal separator follows the UI language.
+  format: (value: number, unit: Unit, digits: number = 1, locale: string = 'en-US'): string =>
+    `${value.toLocaleString(locale, { minimumFractionDigits: digits, maximumFractionDigits: digits })}°${unit}`
+};
@@ -0,0 +1,106 @@
+import { CycleDay, ReadingQuality } from './types';
+import { Temperature } from './Temperature';
+import { MessageKey } from './i18n';
+
+// BBT needs 3+ hours of unbroken sleep and a consistent waking time (~0.1°C per hour later).
+// Outliers are judged against the median of the last few usable readings; a reading
+// the next one agrees with is a level change (e.g. the thermal shift), not an outlier.
+const QUALITY = {
+  minSleepHours: 3,
+  maxTimeDriftMinutes: 90,
+  minTimesForUsual: 5,
+  baselineReadings: 6,
+  minBaselineReadings: 3,
+  outlierDelta: 0.5, // °C
+  followerTolerance: 0.2 // °C
+};
+
+export type QualityFlag = 'illness' | 'alcohol' | 'travel' | 'disturbed' | 'short_sleep' | 'time_drift' | 'outlier';
+
+export const QUALITY_FLAG_LABEL: Record<QualityFlag, MessageKey> = {
+  illness: 'quality.illness',
+  alcohol: 'quality.alcohol',
+  travel: 'quality.travel',
+  disturbed: 'quality.disturbed',
+  short_sleep: 'quality.short_sleep',
+  time_drift: 'quality.time_drift',
+  outlier: 'quality.outlier'
+};
+
+export const DEFAULT_QUALITY: ReadingQuality = {
+  time: null, sleepHours: null, illness: false, alcohol: false, travel: false, disturbed: false, confirmed: false
+};
+
+export interface Outlier {
+  baseline: number;
+  deviation: number; // signed, in the reading's unit
+}
+
+export interface ReadingAssessment {
+  flags: QualityFlag[];
+  outlier: Outlier | null;
+  excluded: boolean; // left out of shift detection and drawn as a flagged point
+}
+
+const toMinutes = (time: string) => {
+  const [h, m] = time.split(':').map(Number);
+  return h * 60 + m;
+};
+
+const median = (values: number[]) => {
+  const sorted = [...values].sort((a, b) => a - b);
+  const mid = Math.floor(sorted.length / 2);
+  return sorted.length % 2 ? sorted[mid] : (sorted[mid - 1] + sorted[mid]) / 2;
+};
+
+export const TemperatureQuality = {
+  // Median logged measurement time, or null until enough times are logged.
+  usualTime: (data: CycleDay[]): number | null => {
+    const times = data.map(d => d.temperatureQuality?.time).filter((t): t is string => !!t).map(toMinutes);
+    return times.length >= QUALITY.minTimesForUsual ? median(times) : null;
+  },
+
+  // Assesses every reading in `data` (any order). Days without a temperature are omitted.
+  assess: (data: CycleDay[]): Map<string, ReadingAssessment> => {
+    const usual = TemperatureQuality.usualTime(data);
+    const readings = data.filter(d => d.temperature !== null).sort((a, b) => a.date.localeCompare(b.date));
+    const result = new Map<string, ReadingAssessment>();
+    const usable: number[] = [];
+
+    readings.forEach((day, i) => {
+      const q = { ...DEFAULT_QUALITY, ...day.temperatureQuality };
+      const unit = day.temperatureUnit;
+      const flags: QualityFlag[] = [];
+      if (q.illness) flags.push('illness');
+      if (q.alcohol) flags.push('alcohol');
+      if (q.travel) flags.push('travel');
+      if (q.disturbed) flags.push('disturbed');
+      if (q.sleepHours !== null && q.sleepHours < QUALITY.minSleepHours) flags.push('short_sleep');
+      if (usual !== null && q.time && Math.abs(toMinutes(q.time) - usual) > QUALITY.maxTimeDriftMinutes) flags.push('time_drift');
+
+      let outlier: Outlier | null = null;
+      const recent = usable.slice(-QUALITY.baselineReadings);
+      if (flags.length === 0 && recent.length >= QUALITY.minBaselineReadings) {
+        const baseline = median(recent);
+        const deviation = day.temperature! - baseline;
+        const next = readings[i + 1]?.temperature ?? null;
+        const followed = next !== null && Math.abs(next - day.temperature!) <= Temperature.delta(QUALITY.followerTolerance, unit);
+        if (Math.abs(deviation) >= Temperature.delta(QUALITY.outlierDelta, unit) && !followed) {
+          outlier = { baseline: Math.round(baseline * 100) / 100, deviation: Math.round(deviation * 100) / 100 };
+          if (!q.confirmed) flags.push('outlier');
+        }
+      }
+
+      const excluded = flags.length > 0;
+      if (!excluded) usable.push(day.temperature!);
+      result.set(day.date, { flags, outlier, excluded });
+    });
+    return result;
+  },
+
+  excluded: (data: CycleDay[]): Set<string> => {
+    const excluded = new Set<string>();
+    TemperatureQuality.assess(data).forEach((a, date) => { if (a.excluded) excluded.add(date); });
+    return excluded;
+  }
+};
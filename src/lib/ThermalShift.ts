@@ -0,0 +1,92 @@
+import { CycleDay, MucusType } from './types';
+import { addDays, daysBetween } from './utils';
+import { Temperature } from './Temperature';
+import { TemperatureQuality } from './TemperatureQuality';
+
+// Sympto-thermal "3 over 6" rule: the coverline sits just above the highest of
+// six consecutive low readings; three readings above it confirm the shift, the
+// third at least THIRD_HIGH_MIN above (otherwise a fourth high reading is needed).
+// Offsets are in °C and scaled to the readings' unit.
+const RULES = {
+  lowCount: 6,
+  highCount: 3,
+  coverlineOffset: 0.05,
+  thirdHighMin: 0.2,
+  peakTolerance: 2
+};
+
+const PEAK_MUCUS: MucusType[] = ['eggwhite', 'watery'];
+
+export type MucusAgreement = 'agrees' | 'conflicts' | 'unavailable';
+
+export interface OvulationResult {
+  cycleStart: string;
+  confirmed: boolean;
+  ovulationDate: string | null;
+  ovulationCycleDay: number | null;
+  coverline: number | null;
+  shiftDate: string | null;
+  peakMucusDate: string | null;
+  mucusAgreement: MucusAgreement;
+}
+
+const round2 = (n: number) => Math.round(n * 100) / 100;
+
+export const ThermalShift = {
+  // cycleEnd is exclusive (the next cycle's start); omit it for the running cycle.
+  // Flagged readings (illness, short sleep, unconfirmed outliers...) never count as lows or highs.
+  detect: (data: CycleDay[], cycleStart: string, cycleEnd?: string, excluded: Set<string> = TemperatureQuality.excluded(data)): OvulationResult => {
+    const days = data
+      .filter(d => d.date >= cycleStart && (!cycleEnd || d.date < cycleEnd))
+      .sort((a, b) => a.date.localeCompare(b.date));
+    const temps = days.filter(d => d.temperature !== null && !excluded.has(d.date)) as (CycleDay & { temperature: number })[];
+    const unit = temps[0]?.temperatureUnit || 'C';
+    const offset = Temperature.delta(RULES.coverlineOffset, unit);
+    const thirdHighMin = Temperature.delta(RULES.thirdHighMin, unit);
+
+    let coverline: number | null = null;
+    let shiftDate: string | null = null;
+
+    for (let i = RULES.lowCount; i + RULES.highCount - 1 < temps.length; i++) {
+      const lows = temps.slice(i - RULES.lowCount, i).map(d => d.temperature);
+      const line = round2(Math.max(...lows) + offset);
+      const highs = temps.slice(i, i + RULES.highCount);
+      if (!highs.every(d => d.temperature > line)) continue;
+
+      const third = highs[RULES.highCount - 1];
+      const fourth = temps[i + RULES.highCount];
+      const strongThird = third.temperature >= line + thirdHighMin;
+      if (!strongThird && !(fourth && fourth.temperature > line)) continue;
+
+      coverline = line;
+      shiftDate = highs[0].date;
+      break;
+    }
+
+    // Peak day = last day of the most fertile-quality mucus, up to the shift (if any).
+    const peakCandidates = days.filter(d => PEAK_MUCUS.includes(d.mucus) && (!shiftDate || d.date <= addDays(shiftDate, 1)));
+    const peakMucusDate = peakCandidates.length > 0 ? peakCandidates[peakCandidates.length - 1].date : null;
+
+    const ovulationDate = shiftDate ? addDays(shiftDate, -1) : null;
+    let mucusAgreement: MucusAgreement = 'unavailable';
+    if (ovulationDate && peakMucusDate) {
+      mucusAgreement = Math.abs(daysBetween(peakMucusDate, ovulationDate)) <= RULES.peakTolerance ? 'agrees' : 'conflicts';
+    }
+
+    return {
+      cycleStart,
+      confirmed: shiftDate !== null,
+      ovulationDate,
+      ovulationCycleDay: ovulationDate ? daysBetween(cycleStart, ovulationDate) + 1 : null,
+      coverline,
+      shiftDate,
+      peakMucusDate,
+      mucusAgreement
+    };
+  },
+
+  detectAll: (data: CycleDay[], starts: string[]): OvulationResult[] => {
+    const excluded = TemperatureQuality.excluded(data);
+    return starts.map((start, i) => ThermalShift.detect(data, start, starts[i + 1], excluded));
+  }
+};
@@ -0,0 +1,94 @@
+import { AppState, VaultSecrets } from './types';
+import { HeraSecurity, UnlockStage, VaultSession } from './HeraVault';
+
+// Argument lists of the HeraSecurity methods that run in the vault worker. Every slot is
+// spelled out so the worker can append the progress callback after the last one.
+export interface VaultMethods {
+  create: [password: string];
+  lock: [session: VaultSession, data: AppState, secrets: VaultSecrets];
+  unlock: [vaultStr: string, password: string];
+  recover: [vaultStr: string, code: string, newPassword: string];
+  changePassword: [session: VaultSession, currentPassword: string, newPassword: string];
+  createRecoveryCodes: [session: VaultSession, password: string];
+  exportBackup: [data: AppState, passphrase: string, secrets: VaultSecrets | null];
+  importBackup: [content: string, passphrase: string];
+}
+
+export type VaultMethod = keyof VaultMethods;
+export type VaultResult<M extends VaultMethod> = Awaited<ReturnType<(typeof HeraSecurity)[M]>>;
+
+export type VaultRequest = { [M in VaultMethod]: { id: number; method: M; args: VaultMethods[M] } }[VaultMethod];
+
+// HeraSecurity throws `new Error(CODE)`; only the message crosses the worker boundary.
+export type VaultResponse =
+  | { id: number; progress: UnlockStage }
+  | { id: number; result: unknown }
+  | { id: number; error: string };
+
+interface PendingCall {
+  request: VaultRequest;
+  resolve: (value: any) => void;
+  reject: (error: Error) => void;
+  onProgress?: (stage: UnlockStage) => void;
+}
+
+// Runs `request` on this thread. Used when workers are unavailable or the worker failed to load.
+const runHere = (request: VaultRequest, onProgress?: (stage: UnlockStage) => void): Promise<unknown> =>
+  (HeraSecurity[request.method] as (...args: unknown[]) => Promise<unknown>).call(HeraSecurity, ...request.args, onProgress);
+
+let worker: Worker | null | undefined; // undefined = not started yet, null = unavailable
+let nextId = 0;
+const pending = new Map<number, PendingCall>();
+
+const startWorker = (): Worker | null => {
+  if (worker !== undefined) return worker;
+  try {
+    worker = typeof Worker === 'undefined' ? null : new Worker(new URL('./VaultWorker.ts', import.meta.url));
+  } catch (e) {
+    worker = null;
+  }
+  if (!worker) return null;
+
+  worker.onmessage = (e: MessageEvent<VaultResponse>) => {
+    const call = pending.get(e.data.id);
+    if (!call) return;
+    if ('progress' in e.data) return call.onProgress?.(e.data.progress);
+    pending.delete(e.data.id);
+    if ('error' in e.data) call.reject(new Error(e.data.error));
+    else call.resolve(e.data.result);
+  };
+
+  // The script failed to load or crashed: finish what was in flight here and stop using it.
+  worker.onerror = () => {
+    worker?.terminate();
+    worker = null;
+    const calls = Array.from(pending.values());
+    pending.clear();
+    calls.forEach(call => runHere(call.request, call.onProgress).then(call.resolve, call.reject));
+  };
+  return worker;
+};
+
+const call = <M extends VaultMethod>(method: M, args: VaultMethods[M], onProgress?: (stage: UnlockStage) => void): Promise<VaultResult<M>> => {
+  const request = { id: ++nextId, method, args } as VaultRequest;
+  const target = startWorker();
+  if (!target) return runHere(request, onProgress) as Promise<VaultResult<M>>;
+  return new Promise((resolve, reject) => {
+    pending.set(request.id, { request, resolve, reject, onProgress });
+    target.postMessage(request);
+  });
+};
+
+// Same contract as the HeraSecurity methods of the same name, run off the main thread.
+// Sessions cross the boundary by structured clone, which keeps the data key non-extractable,
+// so autosave is one AES-GCM encrypt in the worker and the KDF only runs on unlock and re-keys.
+export const VaultClient = {
+  create: (password: string) => call('create', [password]),
+  lock: (session: VaultSession, data: AppState, secrets: VaultSecrets) => call('lock', [session, data, secrets]),
+  unlock: (vaultStr: string, password: string, onProgress?: (stage: UnlockStage) => void) => call('unlock', [vaultStr, password], onProgress),
+  recover: (vaultStr: string, code: string, newPassword: string, onProgress?: (stage: UnlockStage) => void) => call('recover', [vaultStr, code, newPassword], onProgress),
+  changePassword: (session: VaultSession, currentPassword: string, newPassword: string) => call('changePassword', [session, currentPassword, newPassword]),
+  createRecoveryCodes: (session: VaultSession, password: string) => call('createRecoveryCodes', [session, password]),
+  exportBackup: (data: AppState, passphrase: string, secrets: VaultSecrets | null) => call('exportBackup', [data, passphrase, secrets]),
+  importBackup: (content: string, passphrase: string) => call('importBackup', [content, passphrase])
+};
@@ -0,0 +1,218 @@
+import { HeraSecurity } from './HeraVault';
+
+const STORAGE_CONFIG = {
+  dbName: 'hera',
+  dbVersion: 1,
+  snapshots: 5,
+  snapshotIntervalMs: 15 * 60 * 1000 // autosave fires on every edit; keep points worth rolling back to
+};
+
+const VAULT_STORE = 'vault';
+const SNAPSHOT_STORE = 'snapshots';
+const CURRENT = 'current';
+
+// localStorage keys used before IndexedDB. Read once to migrate, then removed.
+export const VAULT_KEY = 'hera_vault';
+const LEGACY_VAULT_KEY = 'HERA_VAULT_CORE';
+
+export type StorageErrorCode = 'UNAVAILABLE' | 'QUOTA_EXCEEDED' | 'WRITE_FAILED' | 'NOT_FOUND';
+
+export class StorageError extends Error {
+  constructor(public code: StorageErrorCode, message: string) {
+    super(message);
+    this.name = 'StorageError';
+  }
+}
+
+interface VaultRecord {
+  vault: string; // encrypted vault JSON, exactly as HeraSecurity.lock returns it
+  savedAt: string;
+}
+
+interface SnapshotRecord extends VaultRecord {
+  id?: number;
+}
+
+export interface VaultSnapshot {
+  id: number;
+  savedAt: string;
+  size: number; // characters
+}
+
+export interface WriteOptions {
+  keepPrevious?: boolean; // snapshot the outgoing vault regardless of the interval
+  dropSnapshots?: boolean; // delete every snapshot instead: they still open with the old password or codes
+}
+
+export interface StorageEstimate {
+  usage: number; // bytes
+  quota: number;
+}
+
+const toStorageError = (e: any): StorageError => {
+  if (e instanceof StorageError) return e;
+  if (e?.name === 'QuotaExceededError') return new StorageError('QUOTA_EXCEEDED', 'Storage quota exceeded');
+  return new StorageError('WRITE_FAILED', e?.message || 'Storage transaction failed');
+};
+
+let database: Promise<IDBDatabase> | null = null;
+
+const openDatabase = (): Promise<IDBDatabase> => {
+  if (typeof indexedDB === 'undefined') return Promise.reject(new StorageError('UNAVAILABLE', 'IndexedDB is not available'));
+  if (!database) {
+    database = new Promise<IDBDatabase>((resolve, reject) => {
+      const req = indexedDB.open(STORAGE_CONFIG.dbName, STORAGE_CONFIG.dbVersion);
+      req.onupgradeneeded = () => {
+        const db = req.result;
+        if (!db.objectStoreNames.contains(VAULT_STORE)) db.createObjectStore(VAULT_STORE);
+        if (!db.objectStoreNames.contains(SNAPSHOT_STORE)) db.createObjectStore(SNAPSHOT_STORE, { keyPath: 'id', autoIncrement: true });
+      };
+      req.onsuccess = () => {
+        const db = req.result;
+        // Another tab upgrading the schema: let it, and reopen on next use.
+        db.onversionchange = () => { db.close(); database = null; };
+        resolve(db);
+      };
+      req.onerror = () => reject(new StorageError('UNAVAILABLE', req.error?.message || 'IndexedDB could not be opened'));
+    });
+    database.catch(() => { database = null; });
+  }
+  return database;
+};
+
+// Runs `body` in one transaction and settles when it commits. Any failed request aborts the
+// whole transaction, so the stored vault is either entirely the old one or entirely the new one.
+const transact = async <T>(stores: string[], mode: IDBTransactionMode, body: (tx: IDBTransaction) => () => T): Promise<T> => {
+  const db = await openDatabase();
+  return new Promise<T>((resolve, reject) => {
+    let tx: IDBTransaction;
+    try {
+      tx = db.transaction(stores, mode);
+    } catch (e) {
+      reject(toStorageError(e));
+      return;
+    }
+    const result = body(tx);
+    tx.oncomplete = () => resolve(result());
+    tx.onabort = () => reject(toStorageError(tx.error));
+  });
+};
+
+// Replaces the current vault, first keeping the outgoing one as a snapshot when the newest
+// snapshot is older than the interval (or always, with `keepPrevious`), then prunes to the limit.
+// With `dropSnapshots` the snapshot store is emptied in the same transaction instead. An outgoing
+// vault in an older format or with weaker KDF parameters is never kept: rolling back to it would
+// undo the upgrade.
+const replaceCurrent = (tx: IDBTransaction, next: VaultRecord, { keepPrevious = false, dropSnapshots = false }: WriteOptions = {}) => {
+  const vaults = tx.objectStore(VAULT_STORE);
+  const snapshots = tx.objectStore(SNAPSHOT_STORE);
+  if (dropSnapshots) {
+    snapshots.clear();
+    vaults.put(next, CURRENT);
+    return;
+  }
+
+  vaults.get(CURRENT).onsuccess = (e) => {
+    const previous = (e.target as IDBRequest<VaultRecord | undefined>).result;
+    vaults.put(next, CURRENT);
+    if (!previous || previous.vault === next.vault || HeraSecurity.needsUpgrade(previous.vault)) return;
+
+    snapshots.openCursor(null, 'prev').onsuccess = (ev) => {
+      const newest = (ev.target as IDBRequest<IDBCursorWithValue | null>).result?.value as SnapshotRecord | undefined;
+      const due = !newest || Date.parse(next.savedAt) - Date.parse(newest.savedAt) >= STORAGE_CONFIG.snapshotIntervalMs;
+      if (!keepPrevious && !due) return;
+
+      const snapshot: SnapshotRecord = { vault: previous.vault, savedAt: previous.savedAt };
+      snapshots.add(snapshot).onsuccess = () => {
+        snapshots.getAllKeys().onsuccess = (kv) => {
+          const keys = (kv.target as IDBRequest<IDBValidKey[]>).result;
+          keys.slice(0, Math.max(0, keys.length - STORAGE_CONFIG.snapshots)).forEach(key => snapshots.delete(key));
+        };
+      };
+    };
+  };
+};
+
+// Vaults written before IndexedDB live in localStorage. They are copied over once and only
+// removed from localStorage after the copy has committed. When both keys exist, hera_vault is the
+// live vault; HERA_VAULT_CORE is an older copy in the weakest format, under a password that may
+// no longer match, so it is dropped rather than kept as a snapshot.
+const migrateLocalStorage = async (): Promise<string | null> => {
+  const legacy = localStorage.getItem(VAULT_KEY) || localStorage.getItem(LEGACY_VAULT_KEY);
+  if (!legacy) return null;
+  await transact([VAULT_STORE, SNAPSHOT_STORE], 'readwrite', (tx) => {
+    replaceCurrent(tx, { vault: legacy, savedAt: new Date().toISOString() });
+    return () => undefined;
+  });
+  localStorage.removeItem(VAULT_KEY);
+  localStorage.removeItem(LEGACY_VAULT_KEY);
+  return legacy;
+};
+
+export const VaultStorage = {
+  read: async (): Promise<string | null> => {
+    if (typeof window === 'undefined') return null;
+    const stored = await transact([VAULT_STORE], 'readonly', (tx) => {
+      const req = tx.objectStore(VAULT_STORE).get(CURRENT);
+      return () => (req.result as VaultRecord | undefined)?.vault ?? null;
+    });
+    return stored ?? migrateLocalStorage();
+  },
+
+  // Use `keepPrevious` before anything the user may want to undo, like restoring a backup.
+  // Snapshots carry the key header they were saved with, so pass `dropSnapshots` whenever the
+  // password or recovery codes change; otherwise a rollback would bring the revoked ones back.
+  write: (encrypted: string, options: WriteOptions = {}): Promise<void> =>
+    transact([VAULT_STORE, SNAPSHOT_STORE], 'readwrite', (tx) => {
+      replaceCurrent(tx, { vault: encrypted, savedAt: new Date().toISOString() }, options);
+      return () => undefined;
+    }),
+
+  // Newest first.
+  snapshots: (): Promise<VaultSnapshot[]> =>
+    transact([SNAPSHOT_STORE], 'readonly', (tx) => {
+      const req = tx.objectStore(SNAPSHOT_STORE).getAll();
+      return () => (req.result as SnapshotRecord[])
+        .map(s => ({ id: s.id!, savedAt: s.savedAt, size: s.vault.length }))
+        .reverse();
+    }),
+
+  // The snapshot becomes the current vault; the vault it replaces is kept as a snapshot, so a
+  // rollback can itself be rolled back. Unlocks with the password in use when it was saved.
+  rollback: async (id: number): Promise<void> => {
+    let missing = false;
+    try {
+      await transact([VAULT_STORE, SNAPSHOT_STORE], 'readwrite', (tx) => {
+        tx.objectStore(SNAPSHOT_STORE).get(id).onsuccess = (e) => {
+          const snapshot = (e.target as IDBRequest<SnapshotRecord | undefined>).result;
+          if (!snapshot) {
+            missing = true;
+            tx.abort();
+            return;
+          }
+          tx.objectStore(SNAPSHOT_STORE).delete(id);
+          replaceCurrent(tx, { vault: snapshot.vault, savedAt: snapshot.savedAt }, { keepPrevious: true });
+        };
+        return () => undefined;
+      });
+    } catch (e) {
+      throw missing ? new StorageError('NOT_FOUND', `No snapshot ${id}`) : e;
+    }
+  },
+
+  clear: async (): Promise<void> => {
+    localStorage.removeItem(VAULT_KEY);
+    localStorage.removeItem(LEGACY_VAULT_KEY);
+    await transact([VAULT_STORE, SNAPSHOT_STORE], 'readwrite', (tx) => {
+      tx.objectStore(VAULT_STORE).clear();
+      tx.objectStore(SNAPSHOT_STORE).clear();
+      return () => undefined;
+    });
+  },
+
+  estimate: async (): Promise<StorageEstimate | null> => {
+    if (typeof navigator === 'undefined' || !navigator.storage?.estimate) return null;
+    const { usage, quota } = await navigator.storage.estimate();
+    return usage === undefined || quota === undefined ? null : { usage, quota };
+  }
+};
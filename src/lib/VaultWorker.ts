@@ -0,0 +1,18 @@
+import { HeraSecurity, UnlockStage } from './HeraVault';
+import type { VaultRequest, VaultResponse } from './VaultClient';
+
+// Entry point of the vault worker started by VaultClient. Stateless: every request carries
+// the session it needs, so a crashed worker loses nothing.
+const ctx = self as unknown as Worker;
+
+ctx.onmessage = async (e: MessageEvent<VaultRequest>) => {
+  const { id, method, args } = e.data;
+  const post = (response: VaultResponse) => ctx.postMessage(response);
+  const onProgress = (stage: UnlockStage) => post({ id, progress: stage });
+  try {
+    const result = await (HeraSecurity[method] as (...args: unknown[]) => Promise<unknown>).call(HeraSecurity, ...args, onProgress);
+    post({ id, result });
+  } catch (err: any) {
+    post({ id, error: err?.message || 'VAULT_WORKER_FAILED' });
+  }
+};
@@ -0,0 +1,65 @@
+import { Language } from './types';
+import { en, Catalogue, MessageKey } from './locales/en';
+import { es } from './locales/es';
+import { fr } from './locales/fr';
+
+export type { Catalogue, MessageKey };
+
+export const CATALOGUES: Record<Language, Catalogue> = { en, es, fr };
+
+// Names are shown in their own language so the picker works whatever is selected.
+export const LANGUAGES: Record<Language, string> = {
+  en: 'English',
+  es: 'Español',
+  fr: 'Français'
+};
+
+// BCP 47 tags for Intl date and number formatting.
+export const LOCALE_TAG: Record<Language, string> = {
+  en: 'en-US',
+  es: 'es-ES',
+  fr: 'fr-FR'
+};
+
+// Stored outside the vault so the lock screen can be shown in the user's language.
+const LANG_KEY = 'hera_lang';
+
+export type MessageParams = Record<string, string | number>;
+
+const isLanguage = (value: unknown): value is Language =>
+  typeof value === 'string' && Object.prototype.hasOwnProperty.call(CATALOGUES, value);
+
+export const I18n = {
+  catalogue: (lang: Language): Catalogue => CATALOGUES[lang] || en,
+
+  // Fills {name} placeholders; unknown placeholders are left as written.
+  format: (template: string, params: MessageParams = {}): string =>
+    template.replace(/\{(\w+)\}/g, (match, name) => (name in params ? String(params[name]) : match)),
+
+  // Falls back to English for a blank entry, then to the key itself. `npm run check:i18n` fails
+  // on blank or missing entries, so the fallback only covers catalogues changed since.
+  t: (lang: Language, key: MessageKey, params?: MessageParams): string =>
+    I18n.format(I18n.catalogue(lang)[key] || en[key] || key, params),
+
+  number: (value: number, lang: Language, digits?: number): string =>
+    new Intl.NumberFormat(LOCALE_TAG[lang], digits === undefined ? {} : { minimumFractionDigits: digits, maximumFractionDigits: digits }).format(value),
+
+  percent: (fraction: number, lang: Language): string =>
+    new Intl.NumberFormat(LOCALE_TAG[lang], { style: 'percent', maximumFractionDigits: 0 }).format(fraction),
+
+  date: (dateStr: string, lang: Language, options: Intl.DateTimeFormatOptions = { month: 'short', day: 'numeric' }): string =>
+    new Intl.DateTimeFormat(LOCALE_TAG[lang], options).format(new Date(dateStr + 'T12:00:00')),
+
+  // Remembered choice first, then the browser language, then English.
+  preferred: (): Language => {
+    if (typeof window === 'undefined') return 'en';
+    const stored = window.localStorage.getItem(LANG_KEY);
+    if (isLanguage(stored)) return stored;
+    const browser = (window.navigator.language || '').slice(0, 2).toLowerCase();
+    return isLanguage(browser) ? browser : 'en';
+  },
+
+  remember: (lang: Language) => {
+    if (typeof window !== 'undefined') window.localStorage.setItem(LANG_KEY, lang);
+  }
+};
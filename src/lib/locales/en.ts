@@ -0,0 +1,492 @@
+// Source catalogue. Every other catalogue is typed against these keys, so a
+// missing or misspelled key fails the type-check. Placeholders use {name}.
+export const en = {
+  // Log cards & navigation
+  saved: "Entry Logged Successfully",
+  status: "Status",
+  temp: "Basal Temp",
+  mens: "Menstruation",
+  mucus: "Cervical Mucus",
+  lh: "LH Test",
+  cervix: "Cervix Position",
+  stress: "Stress Level",
+  engine: "Engine Readout",
+  pregTest: "Pregnancy Test",
+  symptoms: "Symptoms & Mood",
+  trackers: "Custom Trackers",
+  notes: "Clinical Notes",
+  save: "Confirm & Save Entry",
+  home: "Home", cal: "Cal", log: "Log", set: "Set", help: "Help",
+
+  'common.yes': "Yes",
+  'common.no': "No",
+  'common.cancel': "Cancel",
+  'common.retry': "Retry",
+  'common.health': "Health",
+
+  // Waiver & auth
+  'waiver.title': "Legal Disclaimer",
+  'waiver.accept': "I Understand",
+  'waiver.view': "View Legal Disclaimer",
+  'waiver.text': `
+1. PURPOSE: Hera's Cycle is a biometric data logging tool designed for informational and educational purposes only. It uses mathematical algorithms to estimate cycle phases based on user-provided data.
+
+2. NO MEDICAL ADVICE: This software is NOT a medical device. It is NOT a contraceptive. It must NOT be used to prevent pregnancy, facilitate conception without medical oversight, or diagnose any health condition.
+
+3. DATA SOVEREIGNTY: Your data is encrypted locally using AES-256-GCM. If you lose your password, your data is mathematically unrecoverable unless you kept one of your own recovery codes. We do not have your keys.
+
+4. LIABILITY: By using this software, you agree to hold the creators, developers, and affiliates harmless from any claims, damages, or outcomes resulting from the use or misuse of this software, including but not limited to unintended pregnancy or missed diagnosis.
+
+5. BACKUPS: You are solely responsible for backing up your data. We strongly recommend weekly exports.
+`,
+  'auth.tagline': "Cycle Tracker",
+  'auth.password': "Password",
+  'auth.confirmPassword': "Confirm Password",
+  'auth.agreeBefore': "I agree to the",
+  'auth.agreeLink': "Liability Waiver",
+  'auth.agreeAfter': ". Use at your own risk.",
+  'auth.create': "Create Secure Vault",
+  'auth.unlock': "Unlock Journal",
+  'auth.restore': "Restore Existing Vault",
+  'auth.reset': "Emergency Reset",
+  'auth.resetConfirm': "WARNING: This will permanently ERASE all your data to reset the app. This cannot be undone.",
+  'auth.tooShort': "Password too short",
+  'auth.mismatch': "Passwords mismatch",
+  'auth.acceptTerms': "Please accept terms",
+  'auth.incorrect': "Incorrect Password",
+  'auth.unreadable': "Vault unreadable: {message}",
+  'auth.timedOut': "Session timed out.",
+  'auth.vaultCheck': "Vault check: {summary}",
+  'auth.useCode': "Use a Recovery Code",
+  'auth.usePassword': "Back to Password",
+  'auth.recoveryCode': "Recovery Code",
+  'auth.recoverHint': "Enter one of your recovery codes and choose a new password. Each code works once.",
+  'auth.recover': "Reset Password & Unlock",
+  'auth.invalidCode': "Recovery code not recognised",
+  'auth.progress.deriving': "Deriving key…",
+  'auth.progress.decrypting': "Decrypting journal…",
+  'auth.progress.upgrading': "Securing vault…",
+
+  // Vault / backup validation
+  'schema.notObject': "Not an object",
+  'schema.invalidDate': "Invalid date \"{value}\"",
+  'schema.unknownValue': "Unknown value \"{value}\"",
+  'schema.notNumber': "Not a number: {value}",
+  'schema.tempOutOfRange': "{value}°{unit} is outside {min}-{max}",
+  'schema.tempConverted': "{value}°{from} converted to {converted}°{unit}",
+  'schema.invalidTime': "Invalid time \"{value}\"",
+  'schema.invalidSleep': "Invalid sleep hours \"{value}\"",
+  'schema.notBoolean': "Not a yes/no value",
+  'schema.clamped': "{value} clamped to {min}-{max}",
+  'schema.notList': "Not a list",
+  'schema.nonText': "Non-text entries removed",
+  'schema.notMap': "Not a map",
+  'schema.invalidTrackers': "Invalid values removed for {names}",
+  'schema.notText': "Not text",
+  'schema.duplicate': "Duplicate entry, earlier one replaced",
+  'schema.badTracker': "Malformed tracker definition",
+  'schema.badPregnancy': "Pregnancy record has no valid LMP date",
+  'schema.action.repaired': "repaired",
+  'schema.action.dropped': "dropped",
+  'schema.more': "…and {count} more",
+  'schema.summary': "Fields repaired: {repaired}. Entries dropped: {dropped}.",
+  'schema.error.notObject': "Vault payload is not an object",
+  'schema.error.noProfile': "Missing profile",
+  'schema.error.noHistory': "Missing cycle history",
+  'schema.error.newer': "Data uses schema v{version}; this build supports up to v{supported}",
+  'schema.error.noMigration': "No migration registered from v{version}",
+
+  // Backup & restore
+  'backup.imageFailed': "Image failed to load",
+  'backup.exportPrompt': "Backup passphrase (leave blank to use your unlock password):",
+  'backup.exportFailed': "Backup failed. Please try again.",
+  'backup.newerVersion': "This backup was made by a newer version of Hera.",
+  'backup.invalid': "Invalid Backup File",
+  'backup.invalidDetail': "Invalid Backup File: {message}",
+  'backup.vaultConfirm': "WARNING: This will overwrite the current vault. You will need the password that was used when this vault was created.",
+  'backup.includeKey': "Include your AI API key in this backup? It is encrypted with the backup passphrase. Choose Cancel to leave it out.",
+  'backup.passphrase': "Enter the backup passphrase:",
+  'backup.legacyConfirm': "This is an unencrypted legacy backup. It will be encrypted when restored. Continue?",
+  'backup.dataCheck': "Data check: {summary}",
+  'backup.overwriteConfirm': "WARNING: This will overwrite the current vault with {count} logged days. Continue?",
+  'backup.choosePassword': "Choose a password for the restored vault:",
+  'backup.restored': "Backup restored.",
+  'backup.wrongPassphrase': "Incorrect backup passphrase.",
+
+  // Current phase (hero card)
+  'phase.pregnant': "Pregnant",
+  'phase.possiblePregnancy': "Possible Pregnancy",
+  'phase.late': "Period Late",
+  'phase.noData': "Not Enough Data",
+  'phase.menstruation': "Menstruation",
+  'phase.luteal': "Luteal Phase",
+  'phase.fertile': "Fertile Window",
+  'phase.follicular': "Follicular Phase",
+
+  // Cycle phases used by charts and pattern insights
+  'cyclePhase.menstrual': "menstrual",
+  'cyclePhase.follicular': "follicular",
+  'cyclePhase.fertile': "fertile",
+  'cyclePhase.luteal': "luteal",
+
+  'mode.pregnancy': "Pregnancy recorded",
+  'mode.positiveTest': "Positive pregnancy test",
+  'mode.highPhase': "{days} days of elevated temperature",
+  'mode.lateOne': "Period 1 day late",
+  'mode.late': "Period {days} days late",
+
+  'home.currentPhase': "Current Phase",
+  'home.gestation': "Week {weeks} + {days} days",
+  'home.dueDate': "Due Date",
+  'home.trimester': "Trimester",
+  'home.trimester1': "First",
+  'home.trimester2': "Second",
+  'home.trimester3': "Third",
+  'home.endPregnancy': "End pregnancy tracking / new cycle",
+  'home.cycleDay': "Cycle Day {day}",
+  'home.paused': "Fertility predictions are paused. Log a pregnancy test, or mark a new cycle when your period starts.",
+  'home.logTest': "Log Test",
+  'home.pregnant': "I'm Pregnant",
+  'home.newCycle': "New Cycle",
+  'home.newCycleConfirm': "Mark today as the first day of a new cycle? Fertility predictions will resume.",
+  'home.ovulationConfirmed': "Ovulation confirmed on day {day}",
+  'home.mucusAgrees': " · mucus peak agrees",
+  'home.mucusConflicts': " · mucus peak differs",
+  'home.nextPeriod': "Next Period",
+  'home.ovulated': "Ovulated",
+  'home.fertileWindow': "Fertile Window",
+  'home.peak': "Peak {percent} on {date}",
+
+  // Trends
+  'trends.title': "Trends",
+  'trends.days': "30 Days",
+  'trends.cycles': "Cycles",
+  'trends.alignCycleDay': "Align by cycle day",
+  'trends.alignOvulation': "Align by ovulation",
+  'trends.current': "Current",
+  'trends.needData': "Log more data to see chart",
+  'trends.needShifts': "Need 2+ cycles with a confirmed shift",
+  'trends.needCycles': "Log 2+ cycles to compare",
+  'trends.ovulationTick': "Ov",
+  'trends.dayTick': "D{day}",
+  'trends.ovulationLabel': "Ovulation {offset}",
+  'trends.cycleDayLabel': "Cycle day {day}",
+  'trends.band': "Mean ± 1 SD",
+  'trends.mean': "Mean",
+  'trends.coverline': "Coverline {value}",
+  'trends.flagged': "Flagged",
+
+  // Cycle statistics
+  'stats.title': "Cycle Statistics",
+  'stats.count': "{count} Cycles",
+  'stats.mean': "Mean",
+  'stats.median': "Median",
+  'stats.stdDev': "Std Dev",
+  'stats.shortest': "Shortest",
+  'stats.longest': "Longest",
+  'stats.luteal': "Luteal",
+  'stats.trendWindow': " (last {count})",
+  'regularity.insufficient_data': "Need 3+ cycles",
+  'regularity.regular': "Regular",
+  'regularity.somewhat_irregular': "Somewhat irregular",
+  'regularity.irregular': "Irregular",
+  'trend.insufficient_data': "No trend yet",
+  'trend.stable': "Stable",
+  'trend.lengthening': "Lengthening",
+  'trend.shortening': "Shortening",
+
+  // Engine
+  'engine.chance': "{percent} chance",
+  'engine.history': "Engine History",
+  'engine.historyDays': "{count} Days",
+  'engine.historyHint': "Tap a day to see what was logged.",
+  'engine.score': "Score: {score}",
+  'engine.temp': "Temp: {value}",
+  'engine.flagged': " (flagged)",
+  'engine.phase': "Phase: {phase}",
+  'engine.peak': "⚠️ PEAK",
+  'engine.running': "Running",
+  'engine.coverline': "COVERLINE",
+  'engine.target': "TARGET",
+  'engine.status.FERTILE_PEAK': "FERTILE PEAK",
+  'engine.status.HIGH_FERTILITY': "HIGH FERTILITY",
+  'engine.status.WAITING': "WAITING",
+  'engine.status.LUTEAL_LOCK': "LUTEAL LOCK",
+  'engine.status.STRESS_BLOCK': "STRESS BLOCK",
+  'engine.directive.FERTILE_PEAK': "WINDOW OPEN: Biometric Probability >90%. Connection recommended.",
+  'engine.directive.HIGH_FERTILITY': "WINDOW OPENING: Probability rising. Monitor LH every 4 hours.",
+  'engine.directive.WAITING': "Maintain baseline monitoring.",
+  'engine.directive.LUTEAL_LOCK': "Window closed. Progesterone dominance confirmed.",
+  'engine.directive.STRESS_BLOCK': "CRITICAL: Cortisol override detected. HPO axis suppressed. Initiate regulation protocol.",
+
+  // Conception chance
+  'fertility.title': "Conception Chance",
+  'fertility.next14': "Next 14 Days",
+  'fertility.assumptions': "Model assumptions",
+  'fertility.lifeStage': "life stage: {stage}",
+  'fertility.noProjection': " (no projection until ovulation is confirmed)",
+  'fertility.source': "ovulation source: {source}",
+  'fertility.ovulation': "ovulation: {mean} ± {sd}d",
+  'fertility.nextOvulation': "next ovulation: {mean} ± {sd}d",
+  'fertility.cycle': "cycle: {length}d ± {sd}d ({count} cycles)",
+  'fertility.luteal': "luteal: {length}d ± {sd}d",
+  'fertility.dayCurve': "day curve: {curve}",
+  'fertility.mucusFactors': "mucus ×: {factors}",
+  'fertility.postShift': "post-shift ×{factor}, fertile ≥ {threshold}",
+
+  // Patterns & AI
+  'patterns.title': "Your Patterns",
+  'patterns.empty': "Patterns appear once symptoms, stress or notes recur across at least three cycles.",
+  'patterns.local': "Computed on this device · no AI",
+  'patterns.range': "cycle days {from}–{to}",
+  'patterns.rangeOne': "cycle day {day}",
+  'patterns.cycleDay': "{signal} on {range} in {hits} of the last {total} cycles",
+  'patterns.phase': "{signal} is logged mostly in the {phase} phase ({count} of {total} days)",
+  'patterns.lag': "{signal} is followed by a {delta} higher temperature {lag} days later ({count} times)",
+  'patterns.lagOne': "{signal} is followed by a {delta} higher temperature 1 day later ({count} times)",
+  'patterns.highStress': "Stress ≥{level}",
+  'patterns.fertileMucus': "Fertile-quality mucus",
+  'patterns.highTracker': "High {name}",
+  'patterns.noteWord': "\"{word}\" in notes",
+  'ai.title': "AI Insight",
+  'ai.thinking': "Analysis in progress...",
+  'ai.waiting': "Waiting for data...",
+  'ai.disabled': "Enable AI in Settings for advanced analysis.",
+  'ai.stop': "Stop",
+  'ai.refresh': "Refresh",
+  'ai.retry': "Retry",
+  'ai.cached': "Saved for today · {model}",
+  'ai.preview.title': "What will be sent",
+  'ai.preview.intro': "Only derived features leave this device: cycle days instead of dates, rounded temperatures, and no notes unless you opt in. Custom trackers are never sent. This is the exact request.",
+  'ai.preview.open': "Review what will be sent",
+  'ai.preview.send': "Send",
+  'ai.preview.cancel': "Cancel",
+  'ai.error.NOT_CONFIGURED': "Choose a provider and add an API key in Settings.",
+  'ai.error.UNAUTHORIZED': "The provider rejected your API key.",
+  'ai.error.RATE_LIMITED': "Rate limit or quota reached. Try again later.",
+  'ai.error.MODEL_NOT_FOUND': "Model or server URL not found. Check Settings.",
+  'ai.error.TIMEOUT': "The provider took too long to answer.",
+  'ai.error.ABORTED': "Request cancelled.",
+  'ai.error.NETWORK': "Could not reach the provider. Check your connection or server URL.",
+  'ai.error.BAD_RESPONSE': "The provider sent an unexpected response.",
+
+  // Log tab
+  'log.logging': "Logging",
+  'log.outlier': "This reading is {delta} {direction} your recent baseline ({baseline}). It is left out of shift detection until you confirm it.",
+  'log.above': "above",
+  'log.below': "below",
+  'log.keepReading': "Keep reading",
+  'log.markDisturbed': "Mark disturbed",
+  'log.measuredAt': "Measured at",
+  'log.hoursSlept': "Hours slept",
+  'log.flaggedHint': "Flagged readings are shown grey in charts and ignored when detecting the temperature shift.",
+  'log.periodStarted': "Period started today",
+  'log.calm': "Calm",
+  'log.overloaded': "Overloaded",
+  'log.newTracker': "New tracker (e.g. Caffeine)",
+  'log.trackerUnit': "Unit",
+  'log.trackerExists': "A tracker named \"{name}\" already exists.",
+  'log.removeTracker': "Remove the \"{name}\" tracker? Values already logged stay in your vault but are hidden.",
+
+  'flow.none': "None",
+  'flow.spotting': "Spotting",
+  'flow.light': "Light",
+  'flow.medium': "Medium",
+  'flow.heavy': "Heavy",
+  'mucus.none': "None",
+  'mucus.dry': "Dry",
+  'mucus.sticky': "Sticky",
+  'mucus.creamy': "Creamy",
+  'mucus.watery': "Watery",
+  'mucus.eggwhite': "Eggwhite",
+  'lhTest.negative': "Negative",
+  'lhTest.faint': "Faint",
+  'lhTest.equal': "Equal",
+  'lhTest.peak': "Peak",
+  'cervix.low_hard': "Low / Hard",
+  'cervix.med_firm': "Mid / Firm",
+  'cervix.high_soft': "High / Soft",
+  'pregTest.none': "Not taken",
+  'pregTest.negative': "Negative",
+  'pregTest.positive': "Positive",
+
+  'quality.illness': "Illness",
+  'quality.alcohol': "Alcohol",
+  'quality.travel': "Travel / time zone",
+  'quality.disturbed': "Disturbed",
+  'quality.short_sleep': "Short sleep",
+  'quality.time_drift': "Unusual time",
+  'quality.outlier': "Unconfirmed outlier",
+
+  'symptomCategory.pain': "Pain",
+  'symptomCategory.mood': "Mood",
+  'symptomCategory.body': "Body",
+  'symptomCategory.sleep': "Sleep",
+  'symptomCategory.sex': "Sex",
+  'symptomCategory.meds': "Medication",
+  'symptom.headache': "Headache",
+  'symptom.migraine': "Migraine",
+  'symptom.cramps': "Cramps",
+  'symptom.back_pain': "Back pain",
+  'symptom.breast_tenderness': "Breast tenderness",
+  'symptom.ovulation_pain': "Ovulation pain",
+  'symptom.calm': "Calm",
+  'symptom.happy': "Happy",
+  'symptom.irritable': "Irritable",
+  'symptom.anxious': "Anxious",
+  'symptom.low': "Low",
+  'symptom.mood_swings': "Mood swings",
+  'symptom.bloating': "Bloating",
+  'symptom.acne': "Acne",
+  'symptom.fatigue': "Fatigue",
+  'symptom.nausea': "Nausea",
+  'symptom.cravings': "Cravings",
+  'symptom.hot_flush': "Hot flush",
+  'symptom.slept_well': "Slept well",
+  'symptom.poor_sleep': "Poor sleep",
+  'symptom.insomnia': "Insomnia",
+  'symptom.sex_protected': "Protected",
+  'symptom.sex_unprotected': "Unprotected",
+  'symptom.high_libido': "High libido",
+  'symptom.painkiller': "Painkiller",
+  'symptom.supplement': "Supplement",
+  'symptom.antibiotic': "Antibiotic",
+  'symptom.other_medication': "Other medication",
+  'trackerKind.boolean': "Yes / No",
+  'trackerKind.scale': "Scale 1-5",
+  'trackerKind.numeric': "Number",
+
+  // Day summary
+  'summary.empty': "No data logged for this day.",
+  'summary.temp': "Temp",
+  'summary.excluded': "Excluded: {flags}",
+  'summary.flow': "Flow",
+  'summary.mucus': "Mucus",
+  'summary.lh': "LH",
+  'summary.cervix': "Cervix",
+  'summary.stress': "Stress",
+  'summary.edit': "Edit Entry",
+
+  // Calendar
+  'calendar.pattern': "Pattern",
+  'calendar.period': "Period",
+  'calendar.fertile': "Fertile",
+
+  // Settings
+  'settings.appearance': "Appearance",
+  'settings.preferences': "Preferences",
+  'settings.language': "Language",
+  'settings.unit': "Temperature Unit",
+  'settings.unitConfirm': "Convert {count} logged temperatures to °{unit}?",
+  'settings.periodStart': "Period Starts On",
+  'settings.periodLight': "Light",
+  'settings.periodMedium': "Medium",
+  'settings.periodHint': "First day of this flow (or a day marked \"Period started\") begins a new cycle. Spotting is ignored.",
+  'settings.lifeStage': "Life Stage",
+  'settings.intelligence': "Intelligence",
+  'settings.assistant': "Activate Assistant",
+  'settings.apiKey': "API Key",
+  'settings.apiKeyOptional': "API Key (optional)",
+  'settings.model': "Model (default {model})",
+  'settings.keySave': "Save",
+  'settings.keyTest': "Test connection",
+  'settings.keyOk': "Key works.",
+  'settings.keyRotate': "Replace",
+  'settings.keyRevoke': "Remove",
+  'settings.keyRevokeConfirm': "Remove the stored API key from this device? To revoke it completely, also delete it in your provider's dashboard.",
+  'settings.keyHint': "The key is stored in a separate encrypted compartment of your vault and is left out of backups unless you choose to include it.",
+  'settings.customHint': "Any OpenAI-compatible server, e.g. Ollama at http://localhost:11434/v1. The server must allow requests from this page (CORS).",
+  'settings.includeNotes': "Include notes in AI requests",
+  'settings.aiLog': "Request log ({count})",
+  'settings.aiLogHint': "Every AI request is recorded here, inside your encrypted vault.",
+  'settings.aiLogClear': "Clear log",
+  'settings.aiLogClearConfirm': "Delete the AI request log?",
+  'aiProvider.openai': "OpenAI",
+  'aiProvider.gemini': "Gemini",
+  'aiProvider.custom': "Custom",
+  'settings.data': "Data Management",
+  'settings.security': "Security",
+  'settings.changePassword': "Change Password",
+  'settings.currentPassword': "Current Password",
+  'settings.newPassword': "New Password",
+  'settings.passwordChanged': "Password changed. Use the new password next time you unlock.",
+  'settings.wrongPassword': "Current password is incorrect.",
+  'settings.passwordFailed': "Could not change the password. Your vault was not modified.",
+  'recovery.title': "Recovery Codes",
+  'recovery.intro': "Print these or write them down and keep them away from this device. Each code can unlock your vault once if you forget your password. They will not be shown again.",
+  'recovery.print': "Print",
+  'recovery.copy': "Copy",
+  'recovery.copied': "Copied",
+  'recovery.saved': "I Saved Them",
+  'recovery.offer': "Generate printable recovery codes now? Without your password or a recovery code, your data cannot be recovered.",
+  'recovery.status': "Unused recovery codes: {count}",
+  'recovery.none': "No recovery codes. Losing your password means losing your data.",
+  'recovery.generate': "Generate Recovery Codes",
+  'recovery.regenerate': "Replace Recovery Codes",
+  'recovery.remove': "Remove Recovery Codes",
+  'recovery.removeConfirm': "Remove all recovery codes? Codes you printed will stop working.",
+  'recovery.replaceNote': "New codes replace any you generated before.",
+  'recovery.failed': "Could not update recovery codes. Your vault was not modified.",
+  'recovery.used': "Password reset. Unused recovery codes left: {count}.",
+  'settings.export': "Export Encrypted Backup",
+  'settings.exportHint': "🔒 Backups are AES-256 encrypted. Without the passphrase they cannot be restored.",
+  'settings.restore': "Restore Backup",
+  'storage.usage': "Storage used: {used} of {quota}",
+  'storage.snapshots': "Rollback snapshots ({count})",
+  'storage.snapshotsHint': "Earlier encrypted copies of your vault kept on this device. Rolling back replaces the current vault and locks the app; unlock with the password in use when the snapshot was saved. Changing your password or recovery codes deletes all snapshots, so revoked credentials cannot open them.",
+  'storage.rollback': "Roll back",
+  'storage.rollbackConfirm': "Replace the current vault with the snapshot from {date}? The current vault is kept as a snapshot.",
+  'storage.error.UNAVAILABLE': "This browser's storage is unavailable (private mode or blocked site data). Changes cannot be saved.",
+  'storage.error.QUOTA_EXCEEDED': "Device storage is full. Your changes are NOT saved. Free up space or remove your avatar, then retry.",
+  'storage.error.WRITE_FAILED': "Saving failed. Your changes are NOT saved yet; the last saved vault is intact.",
+  'storage.error.NOT_FOUND': "That snapshot no longer exists.",
+  'theme.blush': "Blush",
+  'theme.serenity': "Serenity",
+  'theme.nature': "Nature",
+
+  // Life stages
+  'lifeStage.regular': "Regular cycles",
+  'lifeStage.regular.description': "Ovulatory cycles; predictions use your cycle history.",
+  'lifeStage.regular.q1': "HOW ARE PREDICTIONS MADE?",
+  'lifeStage.regular.a1': "Your average cycle and luteal lengths set a calendar estimate. A confirmed temperature shift or positive LH test replaces it for the current cycle.",
+  'lifeStage.postpartum': "Postpartum / breastfeeding",
+  'lifeStage.postpartum.description': "Long anovulatory stretches; fertility is judged day by day from mucus.",
+  'lifeStage.postpartum.q1': "WHY NO FERTILE WINDOW?",
+  'lifeStage.postpartum.a1': "While breastfeeding, ovulation can return before your first period. Hera will not project a fertile window until a temperature shift confirms ovulation has resumed.",
+  'lifeStage.postpartum.q2': "THE PATCH OF MUCUS RULE",
+  'lifeStage.postpartum.a2': "Any mucus that differs from your usual dry or unchanging pattern is treated as potentially fertile, together with the {count} days after it ends.",
+  'lifeStage.postpartum.q3': "TEMPERATURES LOOK ERRATIC",
+  'lifeStage.postpartum.a3': "Night feeds break up sleep, so basal temperatures are less reliable postpartum. The engine weights them lower in this profile.",
+  'lifeStage.perimenopause': "Perimenopause",
+  'lifeStage.perimenopause.description': "Cycles lengthen and vary; some are anovulatory.",
+  'lifeStage.perimenopause.q1': "WHY ARE MY CYCLES IRREGULAR?",
+  'lifeStage.perimenopause.a1': "Ovulation becomes less frequent in perimenopause, so cycle lengths vary widely. Hera only projects a fertile window after ovulation is confirmed.",
+  'lifeStage.perimenopause.q2': "LH TESTS KEEP READING HIGH",
+  'lifeStage.perimenopause.a2': "LH levels rise naturally in perimenopause, which makes strip tests less specific. Their weight is reduced in this profile.",
+  'lifeStage.perimenopause.q3': "WHEN IS A PERIOD 'LATE'?",
+  'lifeStage.perimenopause.a3': "Gaps of two months are common, so late-period mode only triggers after {days} days past the projection.",
+  'lifeStage.post_hormonal': "Coming off hormonal contraception",
+  'lifeStage.post_hormonal.description': "The first cycles can be long or anovulatory while your own rhythm returns.",
+  'lifeStage.post_hormonal.q1': "HOW LONG UNTIL CYCLES SETTLE?",
+  'lifeStage.post_hormonal.a1': "Most people ovulate within three months of stopping, but the first cycles are often longer. Predictions wait for a confirmed temperature shift.",
+  'lifeStage.post_hormonal.q2': "IS MY FIRST BLEED A PERIOD?",
+  'lifeStage.post_hormonal.a2': "The first bleed after stopping the pill is usually a withdrawal bleed, not a true period. Consider marking the next bleed as the cycle start instead.",
+
+  // Help
+  'help.critical': "Critical Information",
+  'help.dataLoss.q': "DATA LOSS RISK",
+  'help.dataLoss.a': "If you lose your device or clear your browser cache, your data is erased forever. We have no backup. You must manually Export your Vault in Settings > Data Management weekly.",
+  'help.contraception.q': "NOT CONTRACEPTION",
+  'help.contraception.a': "This app calculates probabilities, not certainties. It cannot see your real-time biology. Do not use this to prevent pregnancy. It is for educational logging only.",
+  'help.profile': "Your Profile: {stage}",
+  'help.faq': "Forensic FAQ",
+  'help.encryption.q': "ENCRYPTION MODEL",
+  'help.encryption.a': "We use 'Hostile Environment' encryption. Your password decrypts your data locally. If you forget your password, we cannot reset it. Write it down, and keep printed recovery codes (Settings > Security) somewhere safe: each one can unlock the vault once and set a new password.",
+  'help.ai.q': "AI PRIVACY",
+  'help.ai.a': "Hera only contacts the provider you choose, with your own API key; nothing goes to Hera servers. Requests carry de-identified features (cycle days instead of dates, rounded temperatures, no notes unless you opt in), you can preview them in Settings, and each one is logged in your encrypted vault. You pay your chosen provider directly, or point Hera at a model on your own machine, maintaining a direct chain of custody over your data.",
+  'help.accuracy.q': "ALGORITHM ACCURACY",
+  'help.accuracy.a': "The prediction engine refines itself over time. The first 3 cycles are calibration. Irregular sleep, stress, or illness will skew temperature readings and affect predictions."
+};
+
+export type MessageKey = keyof typeof en;
+export type Catalogue = Record<MessageKey, string>;
@@ -0,0 +1,489 @@
+import { Catalogue } from './en';
+
+export const es: Catalogue = {
+  // Log cards & navigation
+  saved: "Registro guardado",
+  status: "Estado",
+  temp: "Temp. basal",
+  mens: "Menstruación",
+  mucus: "Moco cervical",
+  lh: "Test de LH",
+  cervix: "Posición del cérvix",
+  stress: "Nivel de estrés",
+  engine: "Lectura del motor",
+  pregTest: "Test de embarazo",
+  symptoms: "Síntomas y ánimo",
+  trackers: "Seguimientos propios",
+  notes: "Notas clínicas",
+  save: "Confirmar y guardar",
+  home: "Inicio", cal: "Cal", log: "Anotar", set: "Ajustes", help: "Ayuda",
+
+  'common.yes': "Sí",
+  'common.no': "No",
+  'common.cancel': "Cancelar",
+  'common.retry': "Reintentar",
+  'common.health': "Salud",
+
+  // Waiver & auth
+  'waiver.title': "Aviso legal",
+  'waiver.accept': "Entendido",
+  'waiver.view': "Ver aviso legal",
+  'waiver.text': `
+1. FINALIDAD: Hera's Cycle es una herramienta de registro de datos biométricos con fines exclusivamente informativos y educativos. Utiliza algoritmos matemáticos para estimar las fases del ciclo a partir de los datos que introduces.
+
+2. SIN CONSEJO MÉDICO: Este software NO es un producto sanitario. NO es un anticonceptivo. NO debe usarse para evitar un embarazo, buscar la concepción sin supervisión médica ni diagnosticar ninguna afección.
+
+3. SOBERANÍA DE LOS DATOS: Tus datos se cifran localmente con AES-256-GCM. Si pierdes tu contraseña, tus datos son matemáticamente irrecuperables salvo que conserves uno de tus códigos de recuperación. No tenemos tus claves.
+
+4. RESPONSABILIDAD: Al usar este software aceptas eximir a sus creadores, desarrolladores y afiliados de cualquier reclamación, daño o consecuencia derivados del uso o mal uso del software, incluidos, entre otros, un embarazo no deseado o un diagnóstico omitido.
+
+5. COPIAS DE SEGURIDAD: Eres la única persona responsable de hacer copias de tus datos. Recomendamos encarecidamente exportarlos cada semana.
+`,
+  'auth.tagline': "Seguimiento del ciclo",
+  'auth.password': "Contraseña",
+  'auth.confirmPassword': "Confirmar contraseña",
+  'auth.agreeBefore': "Acepto la",
+  'auth.agreeLink': "exención de responsabilidad",
+  'auth.agreeAfter': ". Uso bajo mi propio riesgo.",
+  'auth.create': "Crear bóveda segura",
+  'auth.unlock': "Abrir diario",
+  'auth.restore': "Restaurar bóveda existente",
+  'auth.reset': "Restablecimiento de emergencia",
+  'auth.resetConfirm': "ATENCIÓN: Esto BORRARÁ de forma permanente todos tus datos para restablecer la app. No se puede deshacer.",
+  'auth.tooShort': "Contraseña demasiado corta",
+  'auth.mismatch': "Las contraseñas no coinciden",
+  'auth.acceptTerms': "Acepta las condiciones",
+  'auth.incorrect': "Contraseña incorrecta",
+  'auth.unreadable': "Bóveda ilegible: {message}",
+  'auth.timedOut': "La sesión ha caducado.",
+  'auth.vaultCheck': "Revisión de la bóveda: {summary}",
+  'auth.useCode': "Usar un código de recuperación",
+  'auth.usePassword': "Volver a la contraseña",
+  'auth.recoveryCode': "Código de recuperación",
+  'auth.recoverHint': "Introduce uno de tus códigos de recuperación y elige una contraseña nueva. Cada código funciona una sola vez.",
+  'auth.recover': "Restablecer contraseña y desbloquear",
+  'auth.invalidCode': "Código de recuperación no reconocido",
+  'auth.progress.deriving': "Derivando la clave…",
+  'auth.progress.decrypting': "Descifrando el diario…",
+  'auth.progress.upgrading': "Protegiendo la bóveda…",
+
+  // Vault / backup validation
+  'schema.notObject': "No es un objeto",
+  'schema.invalidDate': "Fecha no válida \"{value}\"",
+  'schema.unknownValue': "Valor desconocido \"{value}\"",
+  'schema.notNumber': "No es un número: {value}",
+  'schema.tempOutOfRange': "{value}°{unit} está fuera de {min}-{max}",
+  'schema.tempConverted': "{value}°{from} convertido a {converted}°{unit}",
+  'schema.invalidTime': "Hora no válida \"{value}\"",
+  'schema.invalidSleep': "Horas de sueño no válidas \"{value}\"",
+  'schema.notBoolean': "No es un valor sí/no",
+  'schema.clamped': "{value} ajustado a {min}-{max}",
+  'schema.notList': "No es una lista",
+  'schema.nonText': "Entradas que no son texto eliminadas",
+  'schema.notMap': "No es un mapa",
+  'schema.invalidTrackers': "Valores no válidos eliminados de {names}",
+  'schema.notText': "No es texto",
+  'schema.duplicate': "Entrada duplicada; se sustituyó la anterior",
+  'schema.badTracker': "Definición de seguimiento mal formada",
+  'schema.badPregnancy': "El registro de embarazo no tiene una FUR válida",
+  'schema.action.repaired': "reparado",
+  'schema.action.dropped': "descartado",
+  'schema.more': "…y {count} más",
+  'schema.summary': "Campos reparados: {repaired}. Entradas descartadas: {dropped}.",
+  'schema.error.notObject': "El contenido de la bóveda no es un objeto",
+  'schema.error.noProfile': "Falta el perfil",
+  'schema.error.noHistory': "Falta el historial de ciclos",
+  'schema.error.newer': "Los datos usan el esquema v{version}; esta versión admite hasta v{supported}",
+  'schema.error.noMigration': "No hay migración registrada desde v{version}",
+
+  // Backup & restore
+  'backup.imageFailed': "No se pudo cargar la imagen",
+  'backup.exportPrompt': "Frase de la copia (déjala vacía para usar tu contraseña de desbloqueo):",
+  'backup.exportFailed': "La copia ha fallado. Inténtalo de nuevo.",
+  'backup.newerVersion': "Esta copia se creó con una versión más reciente de Hera.",
+  'backup.invalid': "Archivo de copia no válido",
+  'backup.invalidDetail': "Archivo de copia no válido: {message}",
+  'backup.vaultConfirm': "ATENCIÓN: Esto sobrescribirá la bóveda actual. Necesitarás la contraseña con la que se creó esa bóveda.",
+  'backup.includeKey': "¿Incluir tu clave API de IA en esta copia? Se cifra con la contraseña de la copia. Elige Cancelar para excluirla.",
+  'backup.passphrase': "Introduce la frase de la copia:",
+  'backup.legacyConfirm': "Es una copia antigua sin cifrar. Se cifrará al restaurarla. ¿Continuar?",
+  'backup.dataCheck': "Revisión de datos: {summary}",
+  'backup.overwriteConfirm': "ATENCIÓN: Esto sobrescribirá la bóveda actual con {count} días registrados. ¿Continuar?",
+  'backup.choosePassword': "Elige una contraseña para la bóveda restaurada:",
+  'backup.restored': "Copia restaurada.",
+  'backup.wrongPassphrase': "Frase de la copia incorrecta.",
+
+  // Current phase (hero card)
+  'phase.pregnant': "Embarazo",
+  'phase.possiblePregnancy': "Posible embarazo",
+  'phase.late': "Regla retrasada",
+  'phase.noData': "Datos insuficientes",
+  'phase.menstruation': "Menstruación",
+  'phase.luteal': "Fase lútea",
+  'phase.fertile': "Ventana fértil",
+  'phase.follicular': "Fase folicular",
+
+  // Cycle phases used by charts and pattern insights
+  'cyclePhase.menstrual': "menstrual",
+  'cyclePhase.follicular': "folicular",
+  'cyclePhase.fertile': "fértil",
+  'cyclePhase.luteal': "lútea",
+
+  'mode.pregnancy': "Embarazo registrado",
+  'mode.positiveTest': "Test de embarazo positivo",
+  'mode.highPhase': "{days} días de temperatura elevada",
+  'mode.lateOne': "Regla con 1 día de retraso",
+  'mode.late': "Regla con {days} días de retraso",
+
+  'home.currentPhase': "Fase actual",
+  'home.gestation': "Semana {weeks} + {days} días",
+  'home.dueDate': "Fecha prevista",
+  'home.trimester': "Trimestre",
+  'home.trimester1': "Primero",
+  'home.trimester2': "Segundo",
+  'home.trimester3': "Tercero",
+  'home.endPregnancy': "Terminar seguimiento del embarazo / nuevo ciclo",
+  'home.cycleDay': "Día {day} del ciclo",
+  'home.paused': "Las predicciones de fertilidad están en pausa. Anota un test de embarazo o marca un nuevo ciclo cuando empiece la regla.",
+  'home.logTest': "Anotar test",
+  'home.pregnant': "Estoy embarazada",
+  'home.newCycle': "Nuevo ciclo",
+  'home.newCycleConfirm': "¿Marcar hoy como el primer día de un nuevo ciclo? Se reanudarán las predicciones de fertilidad.",
+  'home.ovulationConfirmed': "Ovulación confirmada el día {day}",
+  'home.mucusAgrees': " · el pico de moco coincide",
+  'home.mucusConflicts': " · el pico de moco difiere",
+  'home.nextPeriod': "Próxima regla",
+  'home.ovulated': "Ovulación",
+  'home.fertileWindow': "Ventana fértil",
+  'home.peak': "Pico del {percent} el {date}",
+
+  // Trends
+  'trends.title': "Tendencias",
+  'trends.days': "30 días",
+  'trends.cycles': "Ciclos",
+  'trends.alignCycleDay': "Alinear por día del ciclo",
+  'trends.alignOvulation': "Alinear por ovulación",
+  'trends.current': "Actual",
+  'trends.needData': "Registra más datos para ver el gráfico",
+  'trends.needShifts': "Hacen falta 2+ ciclos con un cambio confirmado",
+  'trends.needCycles': "Registra 2+ ciclos para comparar",
+  'trends.ovulationTick': "Ov",
+  'trends.dayTick': "D{day}",
+  'trends.ovulationLabel': "Ovulación {offset}",
+  'trends.cycleDayLabel': "Día {day} del ciclo",
+  'trends.band': "Media ± 1 DE",
+  'trends.mean': "Media",
+  'trends.coverline': "Línea base {value}",
+  'trends.flagged': "Marcada",
+
+  // Cycle statistics
+  'stats.title': "Estadísticas del ciclo",
+  'stats.count': "{count} ciclos",
+  'stats.mean': "Media",
+  'stats.median': "Mediana",
+  'stats.stdDev': "Desv. est.",
+  'stats.shortest': "Más corto",
+  'stats.longest': "Más largo",
+  'stats.luteal': "Lútea",
+  'stats.trendWindow': " (últimos {count})",
+  'regularity.insufficient_data': "Hacen falta 3+ ciclos",
+  'regularity.regular': "Regular",
+  'regularity.somewhat_irregular': "Algo irregular",
+  'regularity.irregular': "Irregular",
+  'trend.insufficient_data': "Aún sin tendencia",
+  'trend.stable': "Estable",
+  'trend.lengthening': "Alargándose",
+  'trend.shortening': "Acortándose",
+
+  // Engine
+  'engine.chance': "{percent} de probabilidad",
+  'engine.history': "Historial del motor",
+  'engine.historyDays': "{count} días",
+  'engine.historyHint': "Toca un día para ver lo que se registró.",
+  'engine.score': "Puntuación: {score}",
+  'engine.temp': "Temp: {value}",
+  'engine.flagged': " (marcada)",
+  'engine.phase': "Fase: {phase}",
+  'engine.peak': "⚠️ PICO",
+  'engine.running': "En curso",
+  'engine.coverline': "LÍNEA BASE",
+  'engine.target': "OBJETIVO",
+  'engine.status.FERTILE_PEAK': "PICO FÉRTIL",
+  'engine.status.HIGH_FERTILITY': "FERTILIDAD ALTA",
+  'engine.status.WAITING': "EN ESPERA",
+  'engine.status.LUTEAL_LOCK': "BLOQUEO LÚTEO",
+  'engine.status.STRESS_BLOCK': "BLOQUEO POR ESTRÉS",
+  'engine.directive.FERTILE_PEAK': "VENTANA ABIERTA: Probabilidad biométrica >90%. Se recomienda la relación.",
+  'engine.directive.HIGH_FERTILITY': "VENTANA ABRIÉNDOSE: La probabilidad aumenta. Controla la LH cada 4 horas.",
+  'engine.directive.WAITING': "Mantén la monitorización basal.",
+  'engine.directive.LUTEAL_LOCK': "Ventana cerrada. Dominancia de progesterona confirmada.",
+  'engine.directive.STRESS_BLOCK': "CRÍTICO: Se detecta predominio del cortisol. Eje HHO suprimido. Inicia el protocolo de regulación.",
+
+  // Conception chance
+  'fertility.title': "Probabilidad de concepción",
+  'fertility.next14': "Próximos 14 días",
+  'fertility.assumptions': "Supuestos del modelo",
+  'fertility.lifeStage': "etapa vital: {stage}",
+  'fertility.noProjection': " (sin proyección hasta confirmar la ovulación)",
+  'fertility.source': "origen de la ovulación: {source}",
+  'fertility.ovulation': "ovulación: {mean} ± {sd} d",
+  'fertility.nextOvulation': "próxima ovulación: {mean} ± {sd} d",
+  'fertility.cycle': "ciclo: {length} d ± {sd} d ({count} ciclos)",
+  'fertility.luteal': "lútea: {length} d ± {sd} d",
+  'fertility.dayCurve': "curva diaria: {curve}",
+  'fertility.mucusFactors': "moco ×: {factors}",
+  'fertility.postShift': "tras el cambio ×{factor}, fértil ≥ {threshold}",
+
+  // Patterns & AI
+  'patterns.title': "Tus patrones",
+  'patterns.empty': "Los patrones aparecen cuando síntomas, estrés o notas se repiten en al menos tres ciclos.",
+  'patterns.local': "Calculado en este dispositivo · sin IA",
+  'patterns.range': "los días {from}–{to} del ciclo",
+  'patterns.rangeOne': "el día {day} del ciclo",
+  'patterns.cycleDay': "{signal} en {range} en {hits} de los últimos {total} ciclos",
+  'patterns.phase': "{signal} se registra sobre todo en la fase {phase} ({count} de {total} días)",
+  'patterns.lag': "{signal} va seguido de una temperatura {delta} más alta {lag} días después ({count} veces)",
+  'patterns.lagOne': "{signal} va seguido de una temperatura {delta} más alta 1 día después ({count} veces)",
+  'patterns.highStress': "Estrés ≥{level}",
+  'patterns.fertileMucus': "Moco de calidad fértil",
+  'patterns.highTracker': "{name} alto",
+  'patterns.noteWord': "«{word}» en las notas",
+  'ai.title': "Análisis IA",
+  'ai.thinking': "Análisis en curso...",
+  'ai.waiting': "Esperando datos...",
+  'ai.disabled': "Activa la IA en Ajustes para un análisis avanzado.",
+  'ai.stop': "Detener",
+  'ai.refresh': "Actualizar",
+  'ai.retry': "Reintentar",
+  'ai.cached': "Guardado para hoy · {model}",
+  'ai.preview.title': "Qué se enviará",
+  'ai.preview.intro': "Solo salen de este dispositivo datos derivados: días de ciclo en lugar de fechas, temperaturas redondeadas y ninguna nota salvo que lo permitas. Los seguimientos personalizados nunca se envían. Esta es la solicitud exacta.",
+  'ai.preview.open': "Revisar qué se enviará",
+  'ai.preview.send': "Enviar",
+  'ai.preview.cancel': "Cancelar",
+  'ai.error.NOT_CONFIGURED': "Elige un proveedor y añade una clave API en Ajustes.",
+  'ai.error.UNAUTHORIZED': "El proveedor rechazó tu clave API.",
+  'ai.error.RATE_LIMITED': "Límite de uso o cuota alcanzados. Inténtalo más tarde.",
+  'ai.error.MODEL_NOT_FOUND': "No se encontró el modelo o la URL del servidor. Revisa Ajustes.",
+  'ai.error.TIMEOUT': "El proveedor tardó demasiado en responder.",
+  'ai.error.ABORTED': "Solicitud cancelada.",
+  'ai.error.NETWORK': "No se pudo contactar con el proveedor. Revisa tu conexión o la URL del servidor.",
+  'ai.error.BAD_RESPONSE': "El proveedor envió una respuesta inesperada.",
+
+  // Log tab
+  'log.logging': "Registrando",
+  'log.outlier': "Esta lectura está {delta} {direction} de tu referencia reciente ({baseline}). Queda fuera de la detección del cambio hasta que la confirmes.",
+  'log.above': "por encima",
+  'log.below': "por debajo",
+  'log.keepReading': "Mantener lectura",
+  'log.markDisturbed': "Marcar como alterada",
+  'log.measuredAt': "Medida a las",
+  'log.hoursSlept': "Horas dormidas",
+  'log.flaggedHint': "Las lecturas marcadas aparecen en gris en los gráficos y se ignoran al detectar el cambio de temperatura.",
+  'log.periodStarted': "Hoy empezó la regla",
+  'log.calm': "Calma",
+  'log.overloaded': "Desbordada",
+  'log.newTracker': "Nuevo seguimiento (p. ej. Cafeína)",
+  'log.trackerUnit': "Unidad",
+  'log.trackerExists': "Ya existe un seguimiento llamado «{name}».",
+  'log.removeTracker': "¿Eliminar el seguimiento «{name}»? Los valores ya registrados se conservan en tu bóveda, pero quedan ocultos.",
+
+  'flow.none': "Nada",
+  'flow.spotting': "Manchado",
+  'flow.light': "Ligero",
+  'flow.medium': "Medio",
+  'flow.heavy': "Abundante",
+  'mucus.none': "Nada",
+  'mucus.dry': "Seco",
+  'mucus.sticky': "Pegajoso",
+  'mucus.creamy': "Cremoso",
+  'mucus.watery': "Acuoso",
+  'mucus.eggwhite': "Clara de huevo",
+  'lhTest.negative': "Negativo",
+  'lhTest.faint': "Tenue",
+  'lhTest.equal': "Igual",
+  'lhTest.peak': "Pico",
+  'cervix.low_hard': "Bajo / Duro",
+  'cervix.med_firm': "Medio / Firme",
+  'cervix.high_soft': "Alto / Blando",
+  'pregTest.none': "No realizado",
+  'pregTest.negative': "Negativo",
+  'pregTest.positive': "Positivo",
+
+  'quality.illness': "Enfermedad",
+  'quality.alcohol': "Alcohol",
+  'quality.travel': "Viaje / huso horario",
+  'quality.disturbed': "Alterada",
+  'quality.short_sleep': "Sueño corto",
+  'quality.time_drift': "Hora inusual",
+  'quality.outlier': "Valor atípico sin confirmar",
+
+  'symptomCategory.pain': "Dolor",
+  'symptomCategory.mood': "Ánimo",
+  'symptomCategory.body': "Cuerpo",
+  'symptomCategory.sleep': "Sueño",
+  'symptomCategory.sex': "Sexo",
+  'symptomCategory.meds': "Medicación",
+  'symptom.headache': "Dolor de cabeza",
+  'symptom.migraine': "Migraña",
+  'symptom.cramps': "Calambres",
+  'symptom.back_pain': "Dolor de espalda",
+  'symptom.breast_tenderness': "Sensibilidad mamaria",
+  'symptom.ovulation_pain': "Dolor de ovulación",
+  'symptom.calm': "Tranquila",
+  'symptom.happy': "Feliz",
+  'symptom.irritable': "Irritable",
+  'symptom.anxious': "Ansiosa",
+  'symptom.low': "Decaída",
+  'symptom.mood_swings': "Cambios de humor",
+  'symptom.bloating': "Hinchazón",
+  'symptom.acne': "Acné",
+  'symptom.fatigue': "Cansancio",
+  'symptom.nausea': "Náuseas",
+  'symptom.cravings': "Antojos",
+  'symptom.hot_flush': "Sofoco",
+  'symptom.slept_well': "Dormí bien",
+  'symptom.poor_sleep': "Dormí mal",
+  'symptom.insomnia': "Insomnio",
+  'symptom.sex_protected': "Con protección",
+  'symptom.sex_unprotected': "Sin protección",
+  'symptom.high_libido': "Libido alta",
+  'symptom.painkiller': "Analgésico",
+  'symptom.supplement': "Suplemento",
+  'symptom.antibiotic': "Antibiótico",
+  'symptom.other_medication': "Otra medicación",
+  'trackerKind.boolean': "Sí / No",
+  'trackerKind.scale': "Escala 1-5",
+  'trackerKind.numeric': "Número",
+
+  // Day summary
+  'summary.empty': "No hay datos registrados este día.",
+  'summary.temp': "Temp",
+  'summary.excluded': "Excluida: {flags}",
+  'summary.flow': "Flujo",
+  'summary.mucus': "Moco",
+  'summary.lh': "LH",
+  'summary.cervix': "Cérvix",
+  'summary.stress': "Estrés",
+  'summary.edit': "Editar registro",
+
+  // Calendar
+  'calendar.pattern': "Patrón",
+  'calendar.period': "Regla",
+  'calendar.fertile': "Fértil",
+
+  // Settings
+  'settings.appearance': "Apariencia",
+  'settings.preferences': "Preferencias",
+  'settings.language': "Idioma",
+  'settings.unit': "Unidad de temperatura",
+  'settings.unitConfirm': "¿Convertir {count} temperaturas registradas a °{unit}?",
+  'settings.periodStart': "La regla empieza con",
+  'settings.periodLight': "Ligero",
+  'settings.periodMedium': "Medio",
+  'settings.periodHint': "El primer día de este flujo (o un día marcado como «Hoy empezó la regla») inicia un ciclo nuevo. El manchado no cuenta.",
+  'settings.lifeStage': "Etapa vital",
+  'settings.intelligence': "Inteligencia",
+  'settings.assistant': "Activar asistente",
+  'settings.apiKey': "Clave API",
+  'settings.apiKeyOptional': "Clave API (opcional)",
+  'settings.model': "Modelo (por defecto {model})",
+  'settings.keySave': "Guardar",
+  'settings.keyTest': "Probar conexión",
+  'settings.keyOk': "La clave funciona.",
+  'settings.keyRotate': "Reemplazar",
+  'settings.keyRevoke': "Eliminar",
+  'settings.keyRevokeConfirm': "¿Eliminar la clave API guardada en este dispositivo? Para revocarla por completo, bórrala también en el panel de tu proveedor.",
+  'settings.keyHint': "La clave se guarda en un compartimento cifrado aparte de tu bóveda y no se incluye en las copias salvo que lo elijas.",
+  'settings.customHint': "Cualquier servidor compatible con OpenAI, p. ej. Ollama en http://localhost:11434/v1. El servidor debe aceptar peticiones desde esta página (CORS).",
+  'settings.includeNotes': "Incluir notas en las solicitudes de IA",
+  'settings.aiLog': "Registro de solicitudes ({count})",
+  'settings.aiLogHint': "Cada solicitud de IA queda registrada aquí, dentro de tu bóveda cifrada.",
+  'settings.aiLogClear': "Borrar registro",
+  'settings.aiLogClearConfirm': "¿Eliminar el registro de solicitudes de IA?",
+  'aiProvider.openai': "OpenAI",
+  'aiProvider.gemini': "Gemini",
+  'aiProvider.custom': "Propio",
+  'settings.data': "Gestión de datos",
+  'settings.security': "Seguridad",
+  'settings.changePassword': "Cambiar contraseña",
+  'settings.currentPassword': "Contraseña actual",
+  'settings.newPassword': "Nueva contraseña",
+  'settings.passwordChanged': "Contraseña cambiada. Usa la nueva la próxima vez que desbloquees.",
+  'settings.wrongPassword': "La contraseña actual es incorrecta.",
+  'settings.passwordFailed': "No se pudo cambiar la contraseña. Tu bóveda no se ha modificado.",
+  'recovery.title': "Códigos de recuperación",
+  'recovery.intro': "Imprímelos o apúntalos y guárdalos lejos de este dispositivo. Cada código puede desbloquear tu bóveda una vez si olvidas tu contraseña. No se volverán a mostrar.",
+  'recovery.print': "Imprimir",
+  'recovery.copy': "Copiar",
+  'recovery.copied': "Copiado",
+  'recovery.saved': "Ya los guardé",
+  'recovery.offer': "¿Generar ahora códigos de recuperación imprimibles? Sin tu contraseña o un código de recuperación, tus datos no se pueden recuperar.",
+  'recovery.status': "Códigos de recuperación sin usar: {count}",
+  'recovery.none': "Sin códigos de recuperación. Perder tu contraseña significa perder tus datos.",
+  'recovery.generate': "Generar códigos de recuperación",
+  'recovery.regenerate': "Sustituir códigos de recuperación",
+  'recovery.remove': "Eliminar códigos de recuperación",
+  'recovery.removeConfirm': "¿Eliminar todos los códigos de recuperación? Los códigos impresos dejarán de funcionar.",
+  'recovery.replaceNote': "Los códigos nuevos sustituyen a los generados antes.",
+  'recovery.failed': "No se pudieron actualizar los códigos de recuperación. Tu bóveda no se ha modificado.",
+  'recovery.used': "Contraseña restablecida. Códigos de recuperación sin usar: {count}.",
+  'settings.export': "Exportar copia cifrada",
+  'settings.exportHint': "🔒 Las copias se cifran con AES-256. Sin la frase no se pueden restaurar.",
+  'settings.restore': "Restaurar copia",
+  'storage.usage': "Almacenamiento usado: {used} de {quota}",
+  'storage.snapshots': "Copias de restauración ({count})",
+  'storage.snapshotsHint': "Copias cifradas anteriores de tu bóveda guardadas en este dispositivo. Restaurar una sustituye la bóveda actual y bloquea la app; desbloquéala con la contraseña vigente cuando se guardó la copia. Cambiar la contraseña o los códigos de recuperación elimina todas las copias, para que las credenciales revocadas no puedan abrirlas.",
+  'storage.rollback': "Restaurar",
+  'storage.rollbackConfirm': "¿Sustituir la bóveda actual por la copia del {date}? La bóveda actual se conserva como copia.",
+  'storage.error.UNAVAILABLE': "El almacenamiento del navegador no está disponible (modo privado o datos de sitio bloqueados). No se pueden guardar cambios.",
+  'storage.error.QUOTA_EXCEEDED': "El almacenamiento del dispositivo está lleno. Tus cambios NO se han guardado. Libera espacio o quita tu avatar y reinténtalo.",
+  'storage.error.WRITE_FAILED': "Error al guardar. Tus cambios aún NO se han guardado; la última bóveda guardada está intacta.",
+  'storage.error.NOT_FOUND': "Esa copia ya no existe.",
+  'theme.blush': "Rubor",
+  'theme.serenity': "Serenidad",
+  'theme.nature': "Naturaleza",
+
+  // Life stages
+  'lifeStage.regular': "Ciclos regulares",
+  'lifeStage.regular.description': "Ciclos ovulatorios; las predicciones usan tu historial.",
+  'lifeStage.regular.q1': "¿CÓMO SE HACEN LAS PREDICCIONES?",
+  'lifeStage.regular.a1': "La duración media de tu ciclo y de tu fase lútea da una estimación de calendario. Un cambio de temperatura confirmado o un test de LH positivo la sustituye en el ciclo actual.",
+  'lifeStage.postpartum': "Posparto / lactancia",
+  'lifeStage.postpartum.description': "Largos periodos sin ovulación; la fertilidad se valora día a día según el moco.",
+  'lifeStage.postpartum.q1': "¿POR QUÉ NO HAY VENTANA FÉRTIL?",
+  'lifeStage.postpartum.a1': "Durante la lactancia, la ovulación puede volver antes de la primera regla. Hera no proyectará una ventana fértil hasta que un cambio de temperatura confirme que la ovulación ha vuelto.",
+  'lifeStage.postpartum.q2': "LA REGLA DEL PARCHE DE MOCO",
+  'lifeStage.postpartum.a2': "Cualquier moco distinto de tu patrón habitual seco o invariable se considera potencialmente fértil, junto con los {count} días posteriores a su final.",
+  'lifeStage.postpartum.q3': "LAS TEMPERATURAS PARECEN ERRÁTICAS",
+  'lifeStage.postpartum.a3': "Las tomas nocturnas interrumpen el sueño, así que la temperatura basal es menos fiable en el posparto. El motor le da menos peso en este perfil.",
+  'lifeStage.perimenopause': "Perimenopausia",
+  'lifeStage.perimenopause.description': "Los ciclos se alargan y varían; algunos no son ovulatorios.",
+  'lifeStage.perimenopause.q1': "¿POR QUÉ MIS CICLOS SON IRREGULARES?",
+  'lifeStage.perimenopause.a1': "En la perimenopausia la ovulación es menos frecuente, así que la duración de los ciclos varía mucho. Hera solo proyecta una ventana fértil después de confirmar la ovulación.",
+  'lifeStage.perimenopause.q2': "LOS TESTS DE LH SALEN ALTOS",
+  'lifeStage.perimenopause.a2': "La LH sube de forma natural en la perimenopausia, lo que hace las tiras menos específicas. Su peso se reduce en este perfil.",
+  'lifeStage.perimenopause.q3': "¿CUÁNDO SE RETRASA UNA REGLA?",
+  'lifeStage.perimenopause.a3': "Son habituales intervalos de dos meses, así que el modo de regla retrasada solo se activa {days} días después de la fecha prevista.",
+  'lifeStage.post_hormonal': "Tras dejar la anticoncepción hormonal",
+  'lifeStage.post_hormonal.description': "Los primeros ciclos pueden ser largos o sin ovulación mientras vuelve tu propio ritmo.",
+  'lifeStage.post_hormonal.q1': "¿CUÁNTO TARDAN EN ESTABILIZARSE LOS CICLOS?",
+  'lifeStage.post_hormonal.a1': "La mayoría de las personas ovula en los tres meses siguientes a dejarla, pero los primeros ciclos suelen ser más largos. Las predicciones esperan a un cambio de temperatura confirmado.",
+  'lifeStage.post_hormonal.q2': "¿MI PRIMER SANGRADO ES UNA REGLA?",
+  'lifeStage.post_hormonal.a2': "El primer sangrado tras dejar la píldora suele ser un sangrado por deprivación, no una regla real. Considera marcar el siguiente sangrado como inicio del ciclo.",
+
+  // Help
+  'help.critical': "Información esencial",
+  'help.dataLoss.q': "RIESGO DE PÉRDIDA DE DATOS",
+  'help.dataLoss.a': "Si pierdes el dispositivo o borras la caché del navegador, tus datos se borran para siempre. No tenemos copia. Debes exportar tu bóveda manualmente cada semana en Ajustes > Gestión de datos.",
+  'help.contraception.q': "NO ES UN ANTICONCEPTIVO",
+  'help.contraception.a': "Esta app calcula probabilidades, no certezas. No puede ver tu biología en tiempo real. No la uses para evitar un embarazo. Es solo para un registro educativo.",
+  'help.profile': "Tu perfil: {stage}",
+  'help.faq': "Preguntas forenses",
+  'help.encryption.q': "MODELO DE CIFRADO",
+  'help.encryption.a': "Usamos cifrado de «entorno hostil». Tu contraseña descifra tus datos localmente. Si la olvidas, no podemos restablecerla. Apúntala y guarda en un lugar seguro los códigos de recuperación impresos (Ajustes > Seguridad): cada uno desbloquea la bóveda una vez y permite elegir una contraseña nueva.",
+  'help.ai.q': "PRIVACIDAD DE LA IA",
+  'help.ai.a': "Hera solo contacta con el proveedor que elijas, con tu propia clave API; nada va a servidores de Hera. Las solicitudes llevan datos desidentificados (días de ciclo en lugar de fechas, temperaturas redondeadas, sin notas salvo que lo permitas), puedes previsualizarlas en Ajustes y cada una queda registrada en tu bóveda cifrada. Pagas directamente al proveedor que elijas, o usas un modelo en tu propio equipo, y mantienes una cadena de custodia directa sobre tus datos.",
+  'help.accuracy.q': "PRECISIÓN DEL ALGORITMO",
+  'help.accuracy.a': "El motor de predicción se ajusta con el tiempo. Los 3 primeros ciclos son de calibración. El sueño irregular, el estrés o una enfermedad alteran la temperatura y afectan a las predicciones."
+};
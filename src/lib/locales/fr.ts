@@ -0,0 +1,489 @@
+import { Catalogue } from './en';
+
+export const fr: Catalogue = {
+  // Log cards & navigation
+  saved: "Saisie enregistrée",
+  status: "Statut",
+  temp: "Temp. basale",
+  mens: "Règles",
+  mucus: "Glaire cervicale",
+  lh: "Test LH",
+  cervix: "Position du col",
+  stress: "Niveau de stress",
+  engine: "Lecture du moteur",
+  pregTest: "Test de grossesse",
+  symptoms: "Symptômes et humeur",
+  trackers: "Suivis personnalisés",
+  notes: "Notes cliniques",
+  save: "Confirmer et enregistrer",
+  home: "Accueil", cal: "Cal", log: "Saisir", set: "Réglages", help: "Aide",
+
+  'common.yes': "Oui",
+  'common.no': "Non",
+  'common.cancel': "Annuler",
+  'common.retry': "Réessayer",
+  'common.health': "Santé",
+
+  // Waiver & auth
+  'waiver.title': "Mentions légales",
+  'waiver.accept': "J'ai compris",
+  'waiver.view': "Voir les mentions légales",
+  'waiver.text': `
+1. OBJET : Hera's Cycle est un outil d'enregistrement de données biométriques à visée uniquement informative et éducative. Il utilise des algorithmes mathématiques pour estimer les phases du cycle à partir des données que vous saisissez.
+
+2. AUCUN CONSEIL MÉDICAL : Ce logiciel N'EST PAS un dispositif médical. Ce N'EST PAS un contraceptif. Il ne doit PAS servir à éviter une grossesse, à favoriser une conception sans suivi médical ni à diagnostiquer un problème de santé.
+
+3. SOUVERAINETÉ DES DONNÉES : Vos données sont chiffrées localement en AES-256-GCM. Si vous perdez votre mot de passe, vos données sont mathématiquement irrécupérables, sauf si vous avez conservé l'un de vos codes de récupération. Nous n'avons pas vos clés.
+
+4. RESPONSABILITÉ : En utilisant ce logiciel, vous acceptez de dégager ses créateurs, développeurs et partenaires de toute réclamation, de tout dommage ou de toute conséquence liés à l'utilisation ou au mauvais usage du logiciel, y compris, sans s'y limiter, une grossesse non désirée ou un diagnostic manqué.
+
+5. SAUVEGARDES : Vous êtes seul·e responsable de la sauvegarde de vos données. Nous recommandons vivement un export chaque semaine.
+`,
+  'auth.tagline': "Suivi du cycle",
+  'auth.password': "Mot de passe",
+  'auth.confirmPassword': "Confirmer le mot de passe",
+  'auth.agreeBefore': "J'accepte la",
+  'auth.agreeLink': "décharge de responsabilité",
+  'auth.agreeAfter': ". Utilisation à mes risques.",
+  'auth.create': "Créer un coffre sécurisé",
+  'auth.unlock': "Ouvrir le journal",
+  'auth.restore': "Restaurer un coffre existant",
+  'auth.reset': "Réinitialisation d'urgence",
+  'auth.resetConfirm': "ATTENTION : Cette action EFFACERA définitivement toutes vos données pour réinitialiser l'application. Elle est irréversible.",
+  'auth.tooShort': "Mot de passe trop court",
+  'auth.mismatch': "Les mots de passe ne correspondent pas",
+  'auth.acceptTerms': "Veuillez accepter les conditions",
+  'auth.incorrect': "Mot de passe incorrect",
+  'auth.unreadable': "Coffre illisible : {message}",
+  'auth.timedOut': "Session expirée.",
+  'auth.vaultCheck': "Vérification du coffre : {summary}",
+  'auth.useCode': "Utiliser un code de récupération",
+  'auth.usePassword': "Revenir au mot de passe",
+  'auth.recoveryCode': "Code de récupération",
+  'auth.recoverHint': "Saisissez l'un de vos codes de récupération et choisissez un nouveau mot de passe. Chaque code ne fonctionne qu'une fois.",
+  'auth.recover': "Réinitialiser et déverrouiller",
+  'auth.invalidCode': "Code de récupération non reconnu",
+  'auth.progress.deriving': "Dérivation de la clé…",
+  'auth.progress.decrypting': "Déchiffrement du journal…",
+  'auth.progress.upgrading': "Sécurisation du coffre…",
+
+  // Vault / backup validation
+  'schema.notObject': "N'est pas un objet",
+  'schema.invalidDate': "Date invalide « {value} »",
+  'schema.unknownValue': "Valeur inconnue « {value} »",
+  'schema.notNumber': "N'est pas un nombre : {value}",
+  'schema.tempOutOfRange': "{value}°{unit} est hors de {min}-{max}",
+  'schema.tempConverted': "{value}°{from} converti en {converted}°{unit}",
+  'schema.invalidTime': "Heure invalide « {value} »",
+  'schema.invalidSleep': "Heures de sommeil invalides « {value} »",
+  'schema.notBoolean': "N'est pas une valeur oui/non",
+  'schema.clamped': "{value} ramené à {min}-{max}",
+  'schema.notList': "N'est pas une liste",
+  'schema.nonText': "Entrées non textuelles supprimées",
+  'schema.notMap': "N'est pas une table",
+  'schema.invalidTrackers': "Valeurs invalides supprimées pour {names}",
+  'schema.notText': "N'est pas du texte",
+  'schema.duplicate': "Entrée en double, la précédente a été remplacée",
+  'schema.badTracker': "Définition de suivi mal formée",
+  'schema.badPregnancy': "Le dossier de grossesse n'a pas de DDR valide",
+  'schema.action.repaired': "réparé",
+  'schema.action.dropped': "supprimé",
+  'schema.more': "…et {count} de plus",
+  'schema.summary': "Champs réparés : {repaired}. Entrées supprimées : {dropped}.",
+  'schema.error.notObject': "Le contenu du coffre n'est pas un objet",
+  'schema.error.noProfile': "Profil manquant",
+  'schema.error.noHistory': "Historique des cycles manquant",
+  'schema.error.newer': "Les données utilisent le schéma v{version} ; cette version prend en charge jusqu'à v{supported}",
+  'schema.error.noMigration': "Aucune migration enregistrée depuis v{version}",
+
+  // Backup & restore
+  'backup.imageFailed': "Impossible de charger l'image",
+  'backup.exportPrompt': "Phrase de la sauvegarde (laissez vide pour utiliser votre mot de passe) :",
+  'backup.exportFailed': "La sauvegarde a échoué. Veuillez réessayer.",
+  'backup.newerVersion': "Cette sauvegarde provient d'une version plus récente de Hera.",
+  'backup.invalid': "Fichier de sauvegarde invalide",
+  'backup.invalidDetail': "Fichier de sauvegarde invalide : {message}",
+  'backup.vaultConfirm': "ATTENTION : Cette action remplacera le coffre actuel. Il vous faudra le mot de passe utilisé lors de la création de ce coffre.",
+  'backup.includeKey': "Inclure votre clé API IA dans cette sauvegarde ? Elle est chiffrée avec la phrase secrète de la sauvegarde. Choisissez Annuler pour l'exclure.",
+  'backup.passphrase': "Saisissez la phrase de la sauvegarde :",
+  'backup.legacyConfirm': "Il s'agit d'une ancienne sauvegarde non chiffrée. Elle sera chiffrée lors de la restauration. Continuer ?",
+  'backup.dataCheck': "Vérification des données : {summary}",
+  'backup.overwriteConfirm': "ATTENTION : Cette action remplacera le coffre actuel par {count} jours enregistrés. Continuer ?",
+  'backup.choosePassword': "Choisissez un mot de passe pour le coffre restauré :",
+  'backup.restored': "Sauvegarde restaurée.",
+  'backup.wrongPassphrase': "Phrase de sauvegarde incorrecte.",
+
+  // Current phase (hero card)
+  'phase.pregnant': "Enceinte",
+  'phase.possiblePregnancy': "Grossesse possible",
+  'phase.late': "Règles en retard",
+  'phase.noData': "Données insuffisantes",
+  'phase.menstruation': "Règles",
+  'phase.luteal': "Phase lutéale",
+  'phase.fertile': "Fenêtre fertile",
+  'phase.follicular': "Phase folliculaire",
+
+  // Cycle phases used by charts and pattern insights
+  'cyclePhase.menstrual': "menstruelle",
+  'cyclePhase.follicular': "folliculaire",
+  'cyclePhase.fertile': "fertile",
+  'cyclePhase.luteal': "lutéale",
+
+  'mode.pregnancy': "Grossesse enregistrée",
+  'mode.positiveTest': "Test de grossesse positif",
+  'mode.highPhase': "{days} jours de température élevée",
+  'mode.lateOne': "Règles en retard d'1 jour",
+  'mode.late': "Règles en retard de {days} jours",
+
+  'home.currentPhase': "Phase actuelle",
+  'home.gestation': "Semaine {weeks} + {days} jours",
+  'home.dueDate': "Terme prévu",
+  'home.trimester': "Trimestre",
+  'home.trimester1': "Premier",
+  'home.trimester2': "Deuxième",
+  'home.trimester3': "Troisième",
+  'home.endPregnancy': "Arrêter le suivi de grossesse / nouveau cycle",
+  'home.cycleDay': "Jour {day} du cycle",
+  'home.paused': "Les prévisions de fertilité sont en pause. Saisissez un test de grossesse, ou marquez un nouveau cycle au début de vos règles.",
+  'home.logTest': "Saisir un test",
+  'home.pregnant': "Je suis enceinte",
+  'home.newCycle': "Nouveau cycle",
+  'home.newCycleConfirm': "Marquer aujourd'hui comme premier jour d'un nouveau cycle ? Les prévisions de fertilité reprendront.",
+  'home.ovulationConfirmed': "Ovulation confirmée au jour {day}",
+  'home.mucusAgrees': " · le pic de glaire concorde",
+  'home.mucusConflicts': " · le pic de glaire diffère",
+  'home.nextPeriod': "Prochaines règles",
+  'home.ovulated': "Ovulation",
+  'home.fertileWindow': "Fenêtre fertile",
+  'home.peak': "Pic à {percent} le {date}",
+
+  // Trends
+  'trends.title': "Tendances",
+  'trends.days': "30 jours",
+  'trends.cycles': "Cycles",
+  'trends.alignCycleDay': "Aligner par jour du cycle",
+  'trends.alignOvulation': "Aligner sur l'ovulation",
+  'trends.current': "Actuel",
+  'trends.needData': "Saisissez plus de données pour voir le graphique",
+  'trends.needShifts': "Il faut 2+ cycles avec un décalage confirmé",
+  'trends.needCycles': "Saisissez 2+ cycles pour comparer",
+  'trends.ovulationTick': "Ov",
+  'trends.dayTick': "J{day}",
+  'trends.ovulationLabel': "Ovulation {offset}",
+  'trends.cycleDayLabel': "Jour {day} du cycle",
+  'trends.band': "Moyenne ± 1 ÉT",
+  'trends.mean': "Moyenne",
+  'trends.coverline': "Ligne de base {value}",
+  'trends.flagged': "Signalée",
+
+  // Cycle statistics
+  'stats.title': "Statistiques du cycle",
+  'stats.count': "{count} cycles",
+  'stats.mean': "Moyenne",
+  'stats.median': "Médiane",
+  'stats.stdDev': "Écart-type",
+  'stats.shortest': "Plus court",
+  'stats.longest': "Plus long",
+  'stats.luteal': "Lutéale",
+  'stats.trendWindow': " ({count} derniers)",
+  'regularity.insufficient_data': "Il faut 3+ cycles",
+  'regularity.regular': "Régulier",
+  'regularity.somewhat_irregular': "Assez irrégulier",
+  'regularity.irregular': "Irrégulier",
+  'trend.insufficient_data': "Pas encore de tendance",
+  'trend.stable': "Stable",
+  'trend.lengthening': "S'allonge",
+  'trend.shortening': "Se raccourcit",
+
+  // Engine
+  'engine.chance': "{percent} de probabilité",
+  'engine.history': "Historique du moteur",
+  'engine.historyDays': "{count} jours",
+  'engine.historyHint': "Touchez un jour pour voir ce qui a été saisi.",
+  'engine.score': "Score : {score}",
+  'engine.temp': "Temp : {value}",
+  'engine.flagged': " (signalée)",
+  'engine.phase': "Phase : {phase}",
+  'engine.peak': "⚠️ PIC",
+  'engine.running': "En cours",
+  'engine.coverline': "LIGNE DE BASE",
+  'engine.target': "CIBLE",
+  'engine.status.FERTILE_PEAK': "PIC FERTILE",
+  'engine.status.HIGH_FERTILITY': "FERTILITÉ ÉLEVÉE",
+  'engine.status.WAITING': "EN ATTENTE",
+  'engine.status.LUTEAL_LOCK': "VERROU LUTÉAL",
+  'engine.status.STRESS_BLOCK': "BLOCAGE STRESS",
+  'engine.directive.FERTILE_PEAK': "FENÊTRE OUVERTE : Probabilité biométrique >90 %. Rapport recommandé.",
+  'engine.directive.HIGH_FERTILITY': "FENÊTRE EN OUVERTURE : La probabilité augmente. Surveillez la LH toutes les 4 heures.",
+  'engine.directive.WAITING': "Maintenir la surveillance de base.",
+  'engine.directive.LUTEAL_LOCK': "Fenêtre fermée. Dominance de la progestérone confirmée.",
+  'engine.directive.STRESS_BLOCK': "CRITIQUE : Prise de contrôle du cortisol détectée. Axe HHO inhibé. Lancez le protocole de régulation.",
+
+  // Conception chance
+  'fertility.title': "Chance de conception",
+  'fertility.next14': "14 prochains jours",
+  'fertility.assumptions': "Hypothèses du modèle",
+  'fertility.lifeStage': "étape de vie : {stage}",
+  'fertility.noProjection': " (aucune projection avant confirmation de l'ovulation)",
+  'fertility.source': "source de l'ovulation : {source}",
+  'fertility.ovulation': "ovulation : {mean} ± {sd} j",
+  'fertility.nextOvulation': "prochaine ovulation : {mean} ± {sd} j",
+  'fertility.cycle': "cycle : {length} j ± {sd} j ({count} cycles)",
+  'fertility.luteal': "lutéale : {length} j ± {sd} j",
+  'fertility.dayCurve': "courbe journalière : {curve}",
+  'fertility.mucusFactors': "glaire × : {factors}",
+  'fertility.postShift': "après décalage ×{factor}, fertile ≥ {threshold}",
+
+  // Patterns & AI
+  'patterns.title': "Vos tendances",
+  'patterns.empty': "Les tendances apparaissent quand des symptômes, du stress ou des notes reviennent sur au moins trois cycles.",
+  'patterns.local': "Calculé sur cet appareil · sans IA",
+  'patterns.range': "les jours {from}–{to} du cycle",
+  'patterns.rangeOne': "le jour {day} du cycle",
+  'patterns.cycleDay': "{signal} {range} dans {hits} des {total} derniers cycles",
+  'patterns.phase': "{signal} est surtout noté en phase {phase} ({count} jours sur {total})",
+  'patterns.lag': "{signal} est suivi d'une température plus haute de {delta} {lag} jours plus tard ({count} fois)",
+  'patterns.lagOne': "{signal} est suivi d'une température plus haute de {delta} 1 jour plus tard ({count} fois)",
+  'patterns.highStress': "Stress ≥{level}",
+  'patterns.fertileMucus': "Glaire de qualité fertile",
+  'patterns.highTracker': "{name} élevé",
+  'patterns.noteWord': "« {word} » dans les notes",
+  'ai.title': "Analyse IA",
+  'ai.thinking': "Analyse en cours...",
+  'ai.waiting': "En attente de données...",
+  'ai.disabled': "Activez l'IA dans les Réglages pour une analyse avancée.",
+  'ai.stop': "Arrêter",
+  'ai.refresh': "Actualiser",
+  'ai.retry': "Réessayer",
+  'ai.cached': "Enregistré pour aujourd'hui · {model}",
+  'ai.preview.title': "Ce qui sera envoyé",
+  'ai.preview.intro': "Seules des données dérivées quittent cet appareil : jours de cycle au lieu des dates, températures arrondies, et aucune note sauf si vous l'autorisez. Les suivis personnalisés ne sont jamais envoyés. Voici la requête exacte.",
+  'ai.preview.open': "Voir ce qui sera envoyé",
+  'ai.preview.send': "Envoyer",
+  'ai.preview.cancel': "Annuler",
+  'ai.error.NOT_CONFIGURED': "Choisissez un fournisseur et ajoutez une clé API dans les Réglages.",
+  'ai.error.UNAUTHORIZED': "Le fournisseur a refusé votre clé API.",
+  'ai.error.RATE_LIMITED': "Limite d'utilisation ou quota atteint. Réessayez plus tard.",
+  'ai.error.MODEL_NOT_FOUND': "Modèle ou URL du serveur introuvable. Vérifiez les Réglages.",
+  'ai.error.TIMEOUT': "Le fournisseur a mis trop de temps à répondre.",
+  'ai.error.ABORTED': "Requête annulée.",
+  'ai.error.NETWORK': "Impossible de joindre le fournisseur. Vérifiez votre connexion ou l'URL du serveur.",
+  'ai.error.BAD_RESPONSE': "Le fournisseur a envoyé une réponse inattendue.",
+
+  // Log tab
+  'log.logging': "Saisie",
+  'log.outlier': "Cette mesure est {delta} {direction} de votre référence récente ({baseline}). Elle est exclue de la détection du décalage tant que vous ne la confirmez pas.",
+  'log.above': "au-dessus",
+  'log.below': "en dessous",
+  'log.keepReading': "Garder la mesure",
+  'log.markDisturbed': "Marquer perturbée",
+  'log.measuredAt': "Mesurée à",
+  'log.hoursSlept': "Heures de sommeil",
+  'log.flaggedHint': "Les mesures signalées apparaissent en gris dans les graphiques et sont ignorées pour détecter le décalage thermique.",
+  'log.periodStarted': "Règles commencées aujourd'hui",
+  'log.calm': "Calme",
+  'log.overloaded': "Débordée",
+  'log.newTracker': "Nouveau suivi (ex. Caféine)",
+  'log.trackerUnit': "Unité",
+  'log.trackerExists': "Un suivi nommé « {name} » existe déjà.",
+  'log.removeTracker': "Supprimer le suivi « {name} » ? Les valeurs déjà saisies restent dans votre coffre mais sont masquées.",
+
+  'flow.none': "Aucun",
+  'flow.spotting': "Spotting",
+  'flow.light': "Léger",
+  'flow.medium': "Moyen",
+  'flow.heavy': "Abondant",
+  'mucus.none': "Aucune",
+  'mucus.dry': "Sèche",
+  'mucus.sticky': "Collante",
+  'mucus.creamy': "Crémeuse",
+  'mucus.watery': "Aqueuse",
+  'mucus.eggwhite': "Blanc d'œuf",
+  'lhTest.negative': "Négatif",
+  'lhTest.faint': "Faible",
+  'lhTest.equal': "Égal",
+  'lhTest.peak': "Pic",
+  'cervix.low_hard': "Bas / Dur",
+  'cervix.med_firm': "Moyen / Ferme",
+  'cervix.high_soft': "Haut / Mou",
+  'pregTest.none': "Non fait",
+  'pregTest.negative': "Négatif",
+  'pregTest.positive': "Positif",
+
+  'quality.illness': "Maladie",
+  'quality.alcohol': "Alcool",
+  'quality.travel': "Voyage / fuseau horaire",
+  'quality.disturbed': "Perturbée",
+  'quality.short_sleep': "Sommeil court",
+  'quality.time_drift': "Heure inhabituelle",
+  'quality.outlier': "Valeur aberrante non confirmée",
+
+  'symptomCategory.pain': "Douleur",
+  'symptomCategory.mood': "Humeur",
+  'symptomCategory.body': "Corps",
+  'symptomCategory.sleep': "Sommeil",
+  'symptomCategory.sex': "Sexualité",
+  'symptomCategory.meds': "Médicaments",
+  'symptom.headache': "Mal de tête",
+  'symptom.migraine': "Migraine",
+  'symptom.cramps': "Crampes",
+  'symptom.back_pain': "Mal de dos",
+  'symptom.breast_tenderness': "Seins sensibles",
+  'symptom.ovulation_pain': "Douleur d'ovulation",
+  'symptom.calm': "Calme",
+  'symptom.happy': "Heureuse",
+  'symptom.irritable': "Irritable",
+  'symptom.anxious': "Anxieuse",
+  'symptom.low': "Déprimée",
+  'symptom.mood_swings': "Sautes d'humeur",
+  'symptom.bloating': "Ballonnements",
+  'symptom.acne': "Acné",
+  'symptom.fatigue': "Fatigue",
+  'symptom.nausea': "Nausées",
+  'symptom.cravings': "Fringales",
+  'symptom.hot_flush': "Bouffée de chaleur",
+  'symptom.slept_well': "Bien dormi",
+  'symptom.poor_sleep': "Mal dormi",
+  'symptom.insomnia': "Insomnie",
+  'symptom.sex_protected': "Protégé",
+  'symptom.sex_unprotected': "Non protégé",
+  'symptom.high_libido': "Libido élevée",
+  'symptom.painkiller': "Antidouleur",
+  'symptom.supplement': "Complément",
+  'symptom.antibiotic': "Antibiotique",
+  'symptom.other_medication': "Autre médicament",
+  'trackerKind.boolean': "Oui / Non",
+  'trackerKind.scale': "Échelle 1-5",
+  'trackerKind.numeric': "Nombre",
+
+  // Day summary
+  'summary.empty': "Aucune donnée saisie ce jour-là.",
+  'summary.temp': "Temp",
+  'summary.excluded': "Exclue : {flags}",
+  'summary.flow': "Flux",
+  'summary.mucus': "Glaire",
+  'summary.lh': "LH",
+  'summary.cervix': "Col",
+  'summary.stress': "Stress",
+  'summary.edit': "Modifier la saisie",
+
+  // Calendar
+  'calendar.pattern': "Tendance",
+  'calendar.period': "Règles",
+  'calendar.fertile': "Fertile",
+
+  // Settings
+  'settings.appearance': "Apparence",
+  'settings.preferences': "Préférences",
+  'settings.language': "Langue",
+  'settings.unit': "Unité de température",
+  'settings.unitConfirm': "Convertir {count} températures saisies en °{unit} ?",
+  'settings.periodStart': "Début des règles",
+  'settings.periodLight': "Léger",
+  'settings.periodMedium': "Moyen",
+  'settings.periodHint': "Le premier jour de ce flux (ou un jour marqué « Règles commencées ») ouvre un nouveau cycle. Le spotting est ignoré.",
+  'settings.lifeStage': "Étape de vie",
+  'settings.intelligence': "Intelligence",
+  'settings.assistant': "Activer l'assistant",
+  'settings.apiKey': "Clé API",
+  'settings.apiKeyOptional': "Clé API (facultative)",
+  'settings.model': "Modèle (par défaut {model})",
+  'settings.keySave': "Enregistrer",
+  'settings.keyTest': "Tester la connexion",
+  'settings.keyOk': "La clé fonctionne.",
+  'settings.keyRotate': "Remplacer",
+  'settings.keyRevoke': "Supprimer",
+  'settings.keyRevokeConfirm': "Supprimer la clé API enregistrée sur cet appareil ? Pour la révoquer complètement, supprimez-la aussi dans le tableau de bord de votre fournisseur.",
+  'settings.keyHint': "La clé est stockée dans un compartiment chiffré séparé de votre coffre et n'est incluse dans les sauvegardes que si vous le choisissez.",
+  'settings.customHint': "Tout serveur compatible OpenAI, par ex. Ollama sur http://localhost:11434/v1. Le serveur doit accepter les requêtes de cette page (CORS).",
+  'settings.includeNotes': "Inclure les notes dans les requêtes IA",
+  'settings.aiLog': "Journal des requêtes ({count})",
+  'settings.aiLogHint': "Chaque requête IA est enregistrée ici, dans votre coffre chiffré.",
+  'settings.aiLogClear': "Effacer le journal",
+  'settings.aiLogClearConfirm': "Supprimer le journal des requêtes IA ?",
+  'aiProvider.openai': "OpenAI",
+  'aiProvider.gemini': "Gemini",
+  'aiProvider.custom': "Personnalisé",
+  'settings.data': "Gestion des données",
+  'settings.security': "Sécurité",
+  'settings.changePassword': "Changer le mot de passe",
+  'settings.currentPassword': "Mot de passe actuel",
+  'settings.newPassword': "Nouveau mot de passe",
+  'settings.passwordChanged': "Mot de passe modifié. Utilisez le nouveau au prochain déverrouillage.",
+  'settings.wrongPassword': "Le mot de passe actuel est incorrect.",
+  'settings.passwordFailed': "Impossible de changer le mot de passe. Votre coffre n'a pas été modifié.",
+  'recovery.title': "Codes de récupération",
+  'recovery.intro': "Imprimez-les ou notez-les et conservez-les loin de cet appareil. Chaque code peut déverrouiller votre coffre une fois si vous oubliez votre mot de passe. Ils ne seront plus affichés.",
+  'recovery.print': "Imprimer",
+  'recovery.copy': "Copier",
+  'recovery.copied': "Copié",
+  'recovery.saved': "Je les ai conservés",
+  'recovery.offer': "Générer maintenant des codes de récupération imprimables ? Sans votre mot de passe ou un code de récupération, vos données sont irrécupérables.",
+  'recovery.status': "Codes de récupération inutilisés : {count}",
+  'recovery.none': "Aucun code de récupération. Perdre votre mot de passe signifie perdre vos données.",
+  'recovery.generate': "Générer des codes de récupération",
+  'recovery.regenerate': "Remplacer les codes de récupération",
+  'recovery.remove': "Supprimer les codes de récupération",
+  'recovery.removeConfirm': "Supprimer tous les codes de récupération ? Les codes imprimés ne fonctionneront plus.",
+  'recovery.replaceNote': "Les nouveaux codes remplacent ceux générés auparavant.",
+  'recovery.failed': "Impossible de mettre à jour les codes de récupération. Votre coffre n'a pas été modifié.",
+  'recovery.used': "Mot de passe réinitialisé. Codes de récupération inutilisés : {count}.",
+  'settings.export': "Exporter une sauvegarde chiffrée",
+  'settings.exportHint': "🔒 Les sauvegardes sont chiffrées en AES-256. Sans la phrase, elles ne peuvent pas être restaurées.",
+  'settings.restore': "Restaurer une sauvegarde",
+  'storage.usage': "Stockage utilisé : {used} sur {quota}",
+  'storage.snapshots': "Instantanés de restauration ({count})",
+  'storage.snapshotsHint': "Copies chiffrées antérieures de votre coffre conservées sur cet appareil. Restaurer remplace le coffre actuel et verrouille l'app ; déverrouillez avec le mot de passe en vigueur lors de l'instantané. Changer le mot de passe ou les codes de récupération supprime tous les instantanés, afin que des identifiants révoqués ne puissent pas les ouvrir.",
+  'storage.rollback': "Restaurer",
+  'storage.rollbackConfirm': "Remplacer le coffre actuel par l'instantané du {date} ? Le coffre actuel est conservé comme instantané.",
+  'storage.error.UNAVAILABLE': "Le stockage du navigateur est indisponible (navigation privée ou données de site bloquées). Les modifications ne peuvent pas être enregistrées.",
+  'storage.error.QUOTA_EXCEEDED': "Le stockage de l'appareil est plein. Vos modifications ne sont PAS enregistrées. Libérez de l'espace ou retirez votre avatar, puis réessayez.",
+  'storage.error.WRITE_FAILED': "Échec de l'enregistrement. Vos modifications ne sont PAS encore enregistrées ; le dernier coffre enregistré est intact.",
+  'storage.error.NOT_FOUND': "Cet instantané n'existe plus.",
+  'theme.blush': "Rose",
+  'theme.serenity': "Sérénité",
+  'theme.nature': "Nature",
+
+  // Life stages
+  'lifeStage.regular': "Cycles réguliers",
+  'lifeStage.regular.description': "Cycles ovulatoires ; les prévisions s'appuient sur votre historique.",
+  'lifeStage.regular.q1': "COMMENT SONT FAITES LES PRÉVISIONS ?",
+  'lifeStage.regular.a1': "Les durées moyennes de votre cycle et de votre phase lutéale donnent une estimation calendaire. Un décalage thermique confirmé ou un test LH positif la remplace pour le cycle en cours.",
+  'lifeStage.postpartum': "Post-partum / allaitement",
+  'lifeStage.postpartum.description': "Longues périodes sans ovulation ; la fertilité est évaluée jour après jour d'après la glaire.",
+  'lifeStage.postpartum.q1': "POURQUOI PAS DE FENÊTRE FERTILE ?",
+  'lifeStage.postpartum.a1': "Pendant l'allaitement, l'ovulation peut revenir avant les premières règles. Hera ne projette pas de fenêtre fertile tant qu'un décalage thermique ne confirme pas le retour de l'ovulation.",
+  'lifeStage.postpartum.q2': "LA RÈGLE DU PATCH DE GLAIRE",
+  'lifeStage.postpartum.a2': "Toute glaire différente de votre schéma habituel sec ou inchangé est considérée comme potentiellement fertile, ainsi que les {count} jours qui suivent sa fin.",
+  'lifeStage.postpartum.q3': "LES TEMPÉRATURES SEMBLENT ERRATIQUES",
+  'lifeStage.postpartum.a3': "Les tétées nocturnes hachent le sommeil, la température basale est donc moins fiable en post-partum. Le moteur lui accorde moins de poids dans ce profil.",
+  'lifeStage.perimenopause': "Périménopause",
+  'lifeStage.perimenopause.description': "Les cycles s'allongent et varient ; certains sont anovulatoires.",
+  'lifeStage.perimenopause.q1': "POURQUOI MES CYCLES SONT-ILS IRRÉGULIERS ?",
+  'lifeStage.perimenopause.a1': "L'ovulation devient moins fréquente en périménopause, la durée des cycles varie donc beaucoup. Hera ne projette une fenêtre fertile qu'après confirmation de l'ovulation.",
+  'lifeStage.perimenopause.q2': "LES TESTS LH RESTENT ÉLEVÉS",
+  'lifeStage.perimenopause.a2': "La LH augmente naturellement en périménopause, ce qui rend les bandelettes moins spécifiques. Leur poids est réduit dans ce profil.",
+  'lifeStage.perimenopause.q3': "QUAND DES RÈGLES SONT-ELLES EN RETARD ?",
+  'lifeStage.perimenopause.a3': "Des écarts de deux mois sont fréquents, le mode règles en retard ne s'active donc que {days} jours après la date prévue.",
+  'lifeStage.post_hormonal': "Arrêt d'une contraception hormonale",
+  'lifeStage.post_hormonal.description': "Les premiers cycles peuvent être longs ou anovulatoires le temps que votre rythme revienne.",
+  'lifeStage.post_hormonal.q1': "QUAND LES CYCLES SE STABILISENT-ILS ?",
+  'lifeStage.post_hormonal.a1': "La plupart des personnes ovulent dans les trois mois suivant l'arrêt, mais les premiers cycles sont souvent plus longs. Les prévisions attendent un décalage thermique confirmé.",
+  'lifeStage.post_hormonal.q2': "MES PREMIERS SAIGNEMENTS SONT-ILS DES RÈGLES ?",
+  'lifeStage.post_hormonal.a2': "Les premiers saignements après l'arrêt de la pilule sont en général des saignements de privation, pas de vraies règles. Envisagez plutôt de marquer les suivants comme début de cycle.",
+
+  // Help
+  'help.critical': "Informations essentielles",
+  'help.dataLoss.q': "RISQUE DE PERTE DE DONNÉES",
+  'help.dataLoss.a': "Si vous perdez votre appareil ou videz le cache du navigateur, vos données sont effacées définitivement. Nous n'avons aucune copie. Exportez votre coffre chaque semaine dans Réglages > Gestion des données.",
+  'help.contraception.q': "PAS UNE CONTRACEPTION",
+  'help.contraception.a': "Cette application calcule des probabilités, pas des certitudes. Elle ne voit pas votre biologie en temps réel. Ne l'utilisez pas pour éviter une grossesse. Elle sert uniquement à un suivi éducatif.",
+  'help.profile': "Votre profil : {stage}",
+  'help.faq': "FAQ forensique",
+  'help.encryption.q': "MODÈLE DE CHIFFREMENT",
+  'help.encryption.a': "Nous utilisons un chiffrement « environnement hostile ». Votre mot de passe déchiffre vos données localement. Si vous l'oubliez, nous ne pouvons pas le réinitialiser. Notez-le et gardez en lieu sûr des codes de récupération imprimés (Réglages > Sécurité) : chacun déverrouille le coffre une fois et permet de choisir un nouveau mot de passe.",
+  'help.ai.q': "CONFIDENTIALITÉ DE L'IA",
+  'help.ai.a': "Hera ne contacte que le fournisseur choisi, avec votre propre clé API ; rien ne part vers les serveurs de Hera. Les requêtes contiennent des données désidentifiées (jours de cycle au lieu des dates, températures arrondies, pas de notes sauf si vous l'autorisez), vous pouvez les prévisualiser dans les Réglages et chacune est journalisée dans votre coffre chiffré. Vous payez directement le fournisseur choisi, ou utilisez un modèle sur votre propre machine, et gardez une chaîne de contrôle directe sur vos données.",
+  'help.accuracy.q': "PRÉCISION DE L'ALGORITHME",
+  'help.accuracy.a': "Le moteur de prévision s'affine avec le temps. Les 3 premiers cycles servent au calibrage. Un sommeil irrégulier, le stress ou une maladie faussent la température et les prévisions."
+};
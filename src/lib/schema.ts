@@ -0,0 +1,383 @@
+import { AppState, Language, VaultSecrets, CycleDay, CustomTracker, FlowIntensity, MucusType, CervixPosition, LHResult, PregnancyTestResult, TrackerKind, Unit } from './types';
+import { DEFAULT_STATE, SCHEMA_VERSION, createEmptyDay } from './store';
+import { Temperature, TEMP_RANGE } from './Temperature';
+import { I18n, MessageKey, MessageParams } from './i18n';
+
+// Bump SCHEMA_VERSION in store.ts and register a step below whenever the persisted AppState shape changes.
+export const CURRENT_SCHEMA_VERSION = SCHEMA_VERSION;
+
+export interface Migration {
+  from: number;
+  to: number;
+  description: string;
+  migrate: (raw: any) => any;
+}
+
+export interface ValidationIssue {
+  index: number;
+  date: string | null;
+  field: string;
+  message: MessageKey; // translated with `params` by summarizeIssues
+  params: MessageParams;
+  action: 'repaired' | 'dropped';
+}
+
+export interface MigrationResult {
+  state: AppState;
+  fromVersion: number;
+  applied: string[];
+  issues: ValidationIssue[];
+}
+
+// `message` is English for logs; show `key` with `params` to the user.
+export class SchemaError extends Error {
+  constructor(public code: 'INVALID_STATE' | 'NEWER_SCHEMA' | 'MISSING_MIGRATION', message: string, public key: MessageKey, public params: MessageParams = {}) {
+    super(message);
+    this.name = 'SchemaError';
+  }
+}
+
+const MIGRATIONS: Migration[] = [];
+
+export const registerMigration = (migration: Migration) => {
+  if (migration.to !== migration.from + 1) throw new Error(`Migration ${migration.from}->${migration.to} must advance one version`);
+  if (MIGRATIONS.some(m => m.from === migration.from)) throw new Error(`Migration from v${migration.from} already registered`);
+  MIGRATIONS.push(migration);
+};
+
+// v1: every vault written before schemaVersion existed (v100-platinum page model
+// and v1.0-forensic lib model). Defaults are the v2 shapes, spelled out so later changes to
+// DEFAULT_STATE or createEmptyDay cannot change what this step produces.
+const V2_PROFILE = {
+  name: 'User', avatar: null, theme: 'blush', unit: 'C', lang: 'en',
+  liabilityAccepted: false, aiActive: false, aiProvider: 'unknown',
+  avgCycleLength: 28, avgLutealLength: 14
+};
+const V2_DAY = { temperature: null, mucus: 'none', flow: 'none', cervix: 'low_hard', lhTest: 'negative', stressLevel: 1, notes: '' };
+
+registerMigration({
+  from: 1,
+  to: 2,
+  description: 'Fill missing profile fields and engine signals (cervix, lhTest, stressLevel)',
+  migrate: (raw) => ({
+    ...raw,
+    profile: { ...V2_PROFILE, ...raw.profile },
+    cycleData: raw.cycleData.map((d: any) => (d && typeof d === 'object' ? { ...V2_DAY, ...d } : d)),
+    schemaVersion: 2
+  })
+});
+
+registerMigration({
+  from: 2,
+  to: 3,
+  description: 'Add period-start marker and start-detection policy',
+  migrate: (raw) => ({
+    ...raw,
+    profile: { ...raw.profile, periodStartPolicy: raw.profile.periodStartPolicy || 'first_light' },
+    cycleData: raw.cycleData.map((d: any) => (d && typeof d === 'object' ? { ...d, periodStart: d.periodStart === true } : d)),
+    schemaVersion: 3
+  })
+});
+
+registerMigration({
+  from: 3,
+  to: 4,
+  description: 'Add pregnancy test results and pregnancy record',
+  migrate: (raw) => ({
+    ...raw,
+    pregnancy: raw.pregnancy || null,
+    cycleData: raw.cycleData.map((d: any) => (d && typeof d === 'object' ? { ...d, pregnancyTest: d.pregnancyTest || 'none' } : d)),
+    schemaVersion: 4
+  })
+});
+
+registerMigration({
+  from: 4,
+  to: 5,
+  description: 'Add life-stage tracking profile',
+  migrate: (raw) => ({
+    ...raw,
+    profile: { ...raw.profile, lifeStage: raw.profile.lifeStage || 'regular' },
+    schemaVersion: 5
+  })
+});
+
+registerMigration({
+  from: 5,
+  to: 6,
+  description: 'Add symptom log and custom trackers',
+  migrate: (raw) => ({
+    ...raw,
+    customTrackers: Array.isArray(raw.customTrackers) ? raw.customTrackers : [],
+    cycleData: raw.cycleData.map((d: any) => (d && typeof d === 'object' ? { symptoms: [], trackers: {}, ...d } : d)),
+    schemaVersion: 6
+  })
+});
+
+// Before v7 the stepper always started at 36.5, so °F profiles can hold °C readings.
+// Tag each reading with the unit its value fits; validation converts to profile.unit.
+registerMigration({
+  from: 6,
+  to: 7,
+  description: 'Tag temperatures with their unit',
+  migrate: (raw) => ({
+    ...raw,
+    cycleData: raw.cycleData.map((d: any) => {
+      if (!d || typeof d !== 'object') return d;
+      const guessed = typeof d.temperature === 'number' ? Temperature.guessUnit(d.temperature) : null;
+      return { ...d, temperatureUnit: guessed || raw.profile.unit || 'C' };
+    }),
+    schemaVersion: 7
+  })
+});
+
+registerMigration({
+  from: 7,
+  to: 8,
+  description: 'Add temperature quality flags',
+  migrate: (raw) => ({
+    ...raw,
+    cycleData: raw.cycleData.map((d: any) => (d && typeof d === 'object' ? { ...d, temperatureQuality: d.temperatureQuality || createEmptyDay(d.date).temperatureQuality } : d)),
+    schemaVersion: 8
+  })
+});
+
+// 'unknown' was the only value ever written; every key entered so far was an OpenAI key.
+registerMigration({
+  from: 8,
+  to: 9,
+  description: 'Add AI provider settings and cached insight',
+  migrate: (raw) => ({
+    ...raw,
+    profile: { ...raw.profile, aiProvider: raw.profile.aiProvider && raw.profile.aiProvider !== 'unknown' ? raw.profile.aiProvider : raw.profile.apiKey ? 'openai' : 'unknown' },
+    aiInsight: null,
+    schemaVersion: 9
+  })
+});
+
+// Existing AI users see the payload preview once before their next request.
+registerMigration({
+  from: 9,
+  to: 10,
+  description: 'Add AI privacy settings and request log',
+  migrate: (raw) => ({
+    ...raw,
+    profile: { ...raw.profile, aiIncludeNotes: false, aiPreviewAccepted: false },
+    aiLog: [],
+    schemaVersion: 10
+  })
+});
+
+// The key itself is moved into the vault's secrets compartment by extractSecrets before this runs.
+registerMigration({
+  from: 10,
+  to: 11,
+  description: 'Move the AI API key out of the profile',
+  migrate: (raw) => {
+    const { apiKey, ...profile } = raw.profile;
+    return { ...raw, profile, schemaVersion: 11 };
+  }
+});
+
+// --- VALIDATION ---
+
+const FLOWS: FlowIntensity[] = ['none', 'spotting', 'light', 'medium', 'heavy'];
+const MUCUS: MucusType[] = ['none', 'dry', 'sticky', 'creamy', 'eggwhite', 'watery'];
+const CERVIX: CervixPosition[] = ['low_hard', 'med_firm', 'high_soft'];
+const LH: LHResult[] = ['negative', 'faint', 'equal', 'peak'];
+const PREGNANCY_TESTS: PregnancyTestResult[] = ['none', 'negative', 'positive'];
+const TRACKER_KINDS: TrackerKind[] = ['boolean', 'scale', 'numeric'];
+
+const isISODate = (v: unknown): v is string => 
+  typeof v === 'string' && /^\d{4}-\d{2}-\d{2}$/.test(v) && !isNaN(new Date(v).getTime());
+
+export const validateCycleDay = (raw: any, index: number, unit: Unit): { day: CycleDay | null; issues: ValidationIssue[] } => {
+  const issues: ValidationIssue[] = [];
+  const date = raw && typeof raw === 'object' && typeof raw.date === 'string' ? raw.date : null;
+  const report = (field: string, message: MessageKey, params: MessageParams = {}, action: ValidationIssue['action'] = 'repaired') => 
+    issues.push({ index, date, field, message, params, action });
+
+  if (!raw || typeof raw !== 'object') {
+    report('*', 'schema.notObject', {}, 'dropped');
+    return { day: null, issues };
+  }
+  if (!isISODate(raw.date)) {
+    report('date', 'schema.invalidDate', { value: String(raw.date) }, 'dropped');
+    return { day: null, issues };
+  }
+
+  const day: CycleDay = { ...createEmptyDay(raw.date, unit), ...raw };
+
+  if (day.temperatureUnit !== 'C' && day.temperatureUnit !== 'F') {
+    report('temperatureUnit', 'schema.unknownValue', { value: String(day.temperatureUnit) });
+    day.temperatureUnit = (typeof day.temperature === 'number' && Temperature.guessUnit(day.temperature)) || unit;
+  }
+  if (day.temperature !== null) {
+    const [min, max] = TEMP_RANGE[day.temperatureUnit];
+    if (typeof day.temperature !== 'number' || !isFinite(day.temperature)) {
+      report('temperature', 'schema.notNumber', { value: String(day.temperature) });
+      day.temperature = null;
+    } else if (day.temperature < min || day.temperature > max) {
+      report('temperature', 'schema.tempOutOfRange', { value: day.temperature, unit: day.temperatureUnit, min, max });
+      day.temperature = null;
+    } else if (day.temperatureUnit !== unit) {
+      const converted = Temperature.convert(day.temperature, day.temperatureUnit, unit);
+      report('temperature', 'schema.tempConverted', { value: day.temperature, from: day.temperatureUnit, converted, unit });
+      day.temperature = converted;
+    }
+  }
+  day.temperatureUnit = unit;
+  const q = day.temperatureQuality;
+  if (!q || typeof q !== 'object') {
+    report('temperatureQuality', 'schema.notObject');
+    day.temperatureQuality = createEmptyDay(day.date).temperatureQuality;
+  } else {
+    const fixed = { ...createEmptyDay(day.date).temperatureQuality, ...q };
+    if (fixed.time !== null && !(typeof fixed.time === 'string' && /^([01]\d|2[0-3]):[0-5]\d$/.test(fixed.time))) {
+      report('temperatureQuality', 'schema.invalidTime', { value: String(fixed.time) });
+      fixed.time = null;
+    }
+    if (fixed.sleepHours !== null && !(typeof fixed.sleepHours === 'number' && fixed.sleepHours >= 0 && fixed.sleepHours <= 24)) {
+      report('temperatureQuality', 'schema.invalidSleep', { value: String(fixed.sleepHours) });
+      fixed.sleepHours = null;
+    }
+    (['illness', 'alcohol', 'travel', 'disturbed', 'confirmed'] as const).forEach(flag => {
+      if (typeof fixed[flag] !== 'boolean') { report(`temperatureQuality.${flag}`, 'schema.notBoolean'); fixed[flag] = false; }
+    });
+    day.temperatureQuality = fixed;
+  }
+  if (!FLOWS.includes(day.flow)) { report('flow', 'schema.unknownValue', { value: String(day.flow) }); day.flow = 'none'; }
+  if (!MUCUS.includes(day.mucus)) { report('mucus', 'schema.unknownValue', { value: String(day.mucus) }); day.mucus = 'none'; }
+  if (!CERVIX.includes(day.cervix)) { report('cervix', 'schema.unknownValue', { value: String(day.cervix) }); day.cervix = 'low_hard'; }
+  if (!LH.includes(day.lhTest)) { report('lhTest', 'schema.unknownValue', { value: String(day.lhTest) }); day.lhTest = 'negative'; }
+  if (typeof day.stressLevel !== 'number' || !isFinite(day.stressLevel)) {
+    report('stressLevel', 'schema.notNumber', { value: String(day.stressLevel) });
+    day.stressLevel = 1;
+  } else if (day.stressLevel < 1 || day.stressLevel > 10) {
+    report('stressLevel', 'schema.clamped', { value: day.stressLevel, min: 1, max: 10 });
+    day.stressLevel = Math.min(Math.max(Math.round(day.stressLevel), 1), 10);
+  }
+  if (!PREGNANCY_TESTS.includes(day.pregnancyTest)) { report('pregnancyTest', 'schema.unknownValue', { value: String(day.pregnancyTest) }); day.pregnancyTest = 'none'; }
+  if (typeof day.periodStart !== 'boolean') { report('periodStart', 'schema.notBoolean'); day.periodStart = String(day.periodStart) === 'true'; }
+  if (!Array.isArray(day.symptoms)) {
+    report('symptoms', 'schema.notList');
+    day.symptoms = [];
+  } else if (day.symptoms.some(s => typeof s !== 'string')) {
+    report('symptoms', 'schema.nonText');
+    day.symptoms = day.symptoms.filter(s => typeof s === 'string');
+  }
+  if (!day.trackers || typeof day.trackers !== 'object' || Array.isArray(day.trackers)) {
+    report('trackers', 'schema.notMap');
+    day.trackers = {};
+  } else {
+    const invalid = Object.keys(day.trackers).filter(k => {
+      const v = day.trackers[k];
+      return typeof v !== 'boolean' && !(typeof v === 'number' && isFinite(v));
+    });
+    if (invalid.length) {
+      report('trackers', 'schema.invalidTrackers', { names: invalid.join(', ') });
+      day.trackers = { ...day.trackers };
+      invalid.forEach(k => delete day.trackers[k]);
+    }
+  }
+  if (typeof day.notes !== 'string') { report('notes', 'schema.notText'); day.notes = ''; }
+
+  return { day, issues };
+};
+
+const validateState = (raw: any): { state: AppState; issues: ValidationIssue[] } => {
+  const profile = { ...DEFAULT_STATE.profile, ...raw.profile };
+  delete profile.apiKey; // secrets never travel inside AppState
+  if (!['first_light', 'first_medium'].includes(profile.periodStartPolicy)) profile.periodStartPolicy = DEFAULT_STATE.profile.periodStartPolicy;
+  if (!['regular', 'postpartum', 'perimenopause', 'post_hormonal'].includes(profile.lifeStage)) profile.lifeStage = DEFAULT_STATE.profile.lifeStage;
+  if (!['en', 'es', 'fr'].includes(profile.lang)) profile.lang = DEFAULT_STATE.profile.lang;
+  if (!['openai', 'gemini', 'custom', 'unknown'].includes(profile.aiProvider)) profile.aiProvider = DEFAULT_STATE.profile.aiProvider;
+  const issues: ValidationIssue[] = [];
+  const byDate = new Map<string, CycleDay>();
+
+  raw.cycleData.forEach((entry: any, index: number) => {
+    const result = validateCycleDay(entry, index, profile.unit);
+    issues.push(...result.issues);
+    if (!result.day) return;
+    if (byDate.has(result.day.date)) {
+      issues.push({ index, date: result.day.date, field: 'date', message: 'schema.duplicate', params: {}, action: 'dropped' });
+    }
+    byDate.set(result.day.date, result.day);
+  });
+
+  const customTrackers: CustomTracker[] = (Array.isArray(raw.customTrackers) ? raw.customTrackers : []).filter((t: any, index: number) => {
+    const ok = t && typeof t.id === 'string' && typeof t.name === 'string' && TRACKER_KINDS.includes(t.kind);
+    if (!ok) issues.push({ index, date: null, field: 'customTrackers', message: 'schema.badTracker', params: {}, action: 'dropped' });
+    return ok;
+  });
+
+  let pregnancy = raw.pregnancy || null;
+  if (pregnancy && !isISODate(pregnancy.lmp)) {
+    issues.push({ index: -1, date: null, field: 'pregnancy', message: 'schema.badPregnancy', params: {}, action: 'dropped' });
+    pregnancy = null;
+  }
+
+  // A cache only: anything malformed is simply regenerated.
+  const aiInsight = raw.aiInsight && isISODate(raw.aiInsight.date) && typeof raw.aiInsight.text === 'string' ? raw.aiInsight : null;
+  const aiLog = (Array.isArray(raw.aiLog) ? raw.aiLog : []).filter((e: any) => e && typeof e.at === 'number' && typeof e.prompt === 'string');
+
+  return {
+    state: {
+      ...DEFAULT_STATE,
+      ...raw,
+      profile,
+      cycleData: Array.from(byDate.values()).sort((a, b) => a.date.localeCompare(b.date)),
+      pregnancy,
+      customTrackers,
+      aiInsight,
+      aiLog,
+      schemaVersion: CURRENT_SCHEMA_VERSION,
+      unsavedChanges: false
+    },
+    issues
+  };
+};
+
+// --- PIPELINE ---
+
+// Runs on every unlock and restore: walks the registered steps up to
+// CURRENT_SCHEMA_VERSION, then validates every CycleDay.
+export const migrateState = (raw: unknown): MigrationResult => {
+  if (!raw || typeof raw !== 'object') throw new SchemaError('INVALID_STATE', 'Vault payload is not an object', 'schema.error.notObject');
+  let current: any = raw;
+  if (!current.profile || typeof current.profile !== 'object') throw new SchemaError('INVALID_STATE', 'Missing profile', 'schema.error.noProfile');
+  if (!Array.isArray(current.cycleData)) throw new SchemaError('INVALID_STATE', 'Missing cycle history', 'schema.error.noHistory');
+
+  const fromVersion = typeof current.schemaVersion === 'number' ? current.schemaVersion : 1;
+  if (fromVersion > CURRENT_SCHEMA_VERSION) {
+    throw new SchemaError('NEWER_SCHEMA', `Data uses schema v${fromVersion}; this build supports up to v${CURRENT_SCHEMA_VERSION}`,
+      'schema.error.newer', { version: fromVersion, supported: CURRENT_SCHEMA_VERSION });
+  }
+
+  const applied: string[] = [];
+  for (let v = fromVersion; v < CURRENT_SCHEMA_VERSION; v++) {
+    const step = MIGRATIONS.find(m => m.from === v);
+    if (!step) throw new SchemaError('MISSING_MIGRATION', `No migration registered from v${v}`, 'schema.error.noMigration', { version: v });
+    current = step.migrate(current);
+    applied.push(`v${step.from}->v${step.to}: ${step.description}`);
+  }
+
+  const { state, issues } = validateState(current);
+  return { state, fromVersion, applied, issues };
+};
+
+// Payloads before v11 (vaults, backups, legacy exports) carried the AI key in the profile.
+// Read it out before migrateState drops it so it can move to the secrets compartment.
+export const extractSecrets = (raw: unknown): VaultSecrets => {
+  const key = (raw as any)?.profile?.apiKey;
+  return { aiApiKey: typeof key === 'string' && key.trim() ? key.trim() : null };
+};
+
+export const summarizeIssues = (issues: ValidationIssue[], lang: Language): string => {
+  const repaired = issues.filter(i => i.action === 'repaired').length;
+  const dropped = issues.filter(i => i.action === 'dropped').length;
+  const lines = issues.slice(0, 5).map(i =>
+    `• ${i.date || `#${i.index}`} ${i.field}: ${I18n.t(lang, i.message, i.params)} (${I18n.t(lang, `schema.action.${i.action}`)})`);
+  if (issues.length > 5) lines.push(`• ${I18n.t(lang, 'schema.more', { count: issues.length - 5 })}`);
+  return `${I18n.t(lang, 'schema.summary', { repaired, dropped })}\n${lines.join('\n')}`;
+};
@@ -1,32 +1,88 @@
-import { AppState, UserProfile, CycleDay } from './types';
+import { AppState, UserProfile, CycleDay, PregnancyRecord, CustomTracker, AIInsight, AIRequestLog, Unit } from './types';
+import { Temperature } from './Temperature';
+import { DEFAULT_QUALITY } from './TemperatureQuality';
+
+export const SCHEMA_VERSION = 11;
+
+export const AI_LOG_LIMIT = 100;
 
 export const DEFAULT_STATE: AppState = {
-  profile: { name: 'Hera', theme: 'blush', unit: 'C', lang: 'en' },
+  schemaVersion: SCHEMA_VERSION,
+  profile: { 
+    name: 'User', avatar: null, theme: 'blush', unit: 'C', lang: 'en', 
+    liabilityAccepted: false, aiActive: false, aiProvider: 'unknown', aiIncludeNotes: false, aiPreviewAccepted: false,
+    avgCycleLength: 28, avgLutealLength: 14, periodStartPolicy: 'first_light', lifeStage: 'regular'
+  },
   cycleData: [],
+  pregnancy: null,
+  customTrackers: [],
+  aiInsight: null,
+  aiLog: [],
   lastSynced: Date.now(),
   unsavedChanges: false
 };
 
+export const createEmptyDay = (date: string, unit: Unit = 'C'): CycleDay => ({
+  date, temperature: null, temperatureUnit: unit, 
+  temperatureQuality: { ...DEFAULT_QUALITY },
+  mucus: 'none', flow: 'none', 
+  cervix: 'low_hard', lhTest: 'negative', stressLevel: 1, periodStart: false, pregnancyTest: 'none', 
+  symptoms: [], trackers: {}, notes: ''
+});
+
+// Readings are entered and stored in the profile unit; anything tagged otherwise is converted.
+export const toUnit = (day: CycleDay, unit: Unit): CycleDay => {
+  if (day.temperatureUnit === unit) return day;
+  const temperature = day.temperature === null ? null : Temperature.convert(day.temperature, day.temperatureUnit, unit);
+  return { ...day, temperature, temperatureUnit: unit };
+};
+
 export type Action = 
   | { type: 'LOAD_STATE'; payload: AppState }
   | { type: 'UPDATE_PROFILE'; payload: Partial<UserProfile> }
   | { type: 'UPDATE_CYCLE_DAY'; payload: CycleDay }
+  | { type: 'SET_UNIT'; payload: Unit }
+  | { type: 'SET_PREGNANCY'; payload: PregnancyRecord | null }
+  | { type: 'ADD_TRACKER'; payload: CustomTracker }
+  | { type: 'REMOVE_TRACKER'; payload: string }
+  | { type: 'SET_AI_INSIGHT'; payload: AIInsight | null }
+  | { type: 'LOG_AI_REQUEST'; payload: AIRequestLog }
+  | { type: 'CLEAR_AI_LOG' }
   | { type: 'RESET_APP' }
-  | { type: 'MARK_SAVED' };
+  | { type: 'MARK_SAVED'; payload: AppState }; // the state that was written
 
 export const appReducer = (state: AppState, action: Action): AppState => {
   switch (action.type) {
     case 'LOAD_STATE': return { ...action.payload, unsavedChanges: false };
     case 'UPDATE_PROFILE': return { ...state, profile: { ...state.profile, ...action.payload }, unsavedChanges: true };
     case 'UPDATE_CYCLE_DAY': {
-      const existingIndex = state.cycleData.findIndex(d => d.date === action.payload.date);
+      const day = toUnit(action.payload, state.profile.unit);
+      const existingIndex = state.cycleData.findIndex(d => d.date === day.date);
       const newData = [...state.cycleData];
-      if (existingIndex >= 0) newData[existingIndex] = action.payload;
-      else newData.push(action.payload);
+      if (existingIndex >= 0) newData[existingIndex] = day;
+      else newData.push(day);
       return { ...state, cycleData: newData, unsavedChanges: true };
     }
+    // Stored readings follow the unit so every engine sees one scale.
+    case 'SET_UNIT': {
+      if (action.payload === state.profile.unit) return state;
+      return {
+        ...state,
+        profile: { ...state.profile, unit: action.payload },
+        cycleData: state.cycleData.map(d => toUnit(d, action.payload)),
+        unsavedChanges: true
+      };
+    }
+    case 'SET_PREGNANCY': return { ...state, pregnancy: action.payload, unsavedChanges: true };
+    case 'ADD_TRACKER': return { ...state, customTrackers: [...state.customTrackers, action.payload], unsavedChanges: true };
+    // Logged values stay on each day so re-adding history is possible; they are simply not shown.
+    case 'REMOVE_TRACKER': return { ...state, customTrackers: state.customTrackers.filter(t => t.id !== action.payload), unsavedChanges: true };
+    case 'SET_AI_INSIGHT': return { ...state, aiInsight: action.payload, unsavedChanges: true };
+    case 'LOG_AI_REQUEST': return { ...state, aiLog: [action.payload, ...state.aiLog].slice(0, AI_LOG_LIMIT), unsavedChanges: true };
+    case 'CLEAR_AI_LOG': return { ...state, aiLog: [], unsavedChanges: true };
     case 'RESET_APP': return DEFAULT_STATE;
-    case 'MARK_SAVED': return { ...state, unsavedChanges: false, lastSynced: Date.now() };
+    // Edits made while the write was queued are still unsaved; their own autosave follows.
+    case 'MARK_SAVED': return action.payload === state ? { ...state, unsavedChanges: false, lastSynced: Date.now() } : state;
     default: return state;
   }
 };
@@ -5,28 +5,108 @@ export type FlowIntensity = 'none' | 'spotting' | 'light' | 'medium' | 'heavy';
 export type MucusType = 'none' | 'dry' | 'sticky' | 'creamy' | 'eggwhite' | 'watery';
 export type CervixPosition = 'low_hard' | 'med_firm' | 'high_soft';
 export type LHResult = 'negative' | 'faint' | 'equal' | 'peak';
+export type PregnancyTestResult = 'none' | 'negative' | 'positive';
+export type LifeStage = 'regular' | 'postpartum' | 'perimenopause' | 'post_hormonal';
+export type PeriodStartPolicy = 'first_light' | 'first_medium';
+export type TrackerKind = 'boolean' | 'scale' | 'numeric';
+export type AIProvider = 'openai' | 'gemini' | 'custom' | 'unknown';
+
+// Conditions of a single BBT reading; flagged readings are left out of shift detection.
+export interface ReadingQuality {
+  time: string | null; // 'HH:MM'
+  sleepHours: number | null;
+  illness: boolean;
+  alcohol: boolean;
+  travel: boolean;
+  disturbed: boolean;
+  confirmed: boolean; // user kept a reading the outlier check flagged
+}
 
 export interface CycleDay {
   date: string; // YYYY-MM-DD
   temperature: number | null;
+  temperatureUnit: Unit; // unit the reading is stored in; always profile.unit once loaded
+  temperatureQuality: ReadingQuality;
   mucus: MucusType;
   flow: FlowIntensity;
   cervix: CervixPosition;
   lhTest: LHResult;
   stressLevel: number; // 1-10
+  periodStart: boolean; // user-marked first day of a period
+  pregnancyTest: PregnancyTestResult;
+  symptoms: string[]; // ids from the SYMPTOMS catalogue
+  trackers: Record<string, boolean | number>; // CustomTracker.id -> value
   notes: string;
 }
 
 export interface UserProfile {
   name: string;
+  avatar: string | null;
   theme: Theme;
   unit: Unit;
   lang: Language;
+  liabilityAccepted: boolean;
+  aiActive: boolean;
+  aiProvider?: AIProvider;
+  aiModel?: string; // blank = provider default
+  aiBaseUrl?: string; // custom provider only
+  aiIncludeNotes: boolean; // free-text notes are only sent when opted in
+  aiPreviewAccepted: boolean; // user has seen what an AI request contains
+  avgCycleLength: number;
+  avgLutealLength: number;
+  periodStartPolicy: PeriodStartPolicy;
+  lifeStage: LifeStage;
+}
+
+export interface CustomTracker {
+  id: string;
+  name: string;
+  kind: TrackerKind;
+  unit?: string; // numeric only
+  min?: number; // scale only
+  max?: number;
+}
+
+export interface PregnancyRecord {
+  lmp: string; // first day of the last menstrual period
+  recordedOn: string;
+  cycleLength: number; // used to adjust the due date
+  ovulationDate: string | null;
+}
+
+// Last generated AI insight; reused for the rest of the day unless the request changes.
+export interface AIInsight {
+  date: string;
+  provider: AIProvider;
+  model: string;
+  lang: Language;
+  text: string;
+}
+
+// One entry per AI request, kept inside the encrypted vault.
+export interface AIRequestLog {
+  at: number;
+  provider: AIProvider;
+  model: string;
+  endpoint: string;
+  prompt: string; // exactly what was sent
+  outcome: string; // 'ok' or an AIErrorCode
+}
+
+// Credentials live in their own encrypted compartment of the vault, never in AppState,
+// so they cannot leak through exports, logs or the reducer.
+export interface VaultSecrets {
+  aiApiKey: string | null;
 }
 
 export interface AppState {
+  schemaVersion: number;
   profile: UserProfile;
   cycleData: CycleDay[];
+  pregnancy: PregnancyRecord | null;
+  customTrackers: CustomTracker[];
+  aiInsight: AIInsight | null;
+  aiLog: AIRequestLog[]; // newest first
   lastSynced: number;
   unsavedChanges: boolean;
 }